@@ -1,83 +1,271 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { PreviewBox } from "./Preview/previewBox";
 import { FormGroup, DEFAULT_SETTINGS, type QuiltSettings } from "./FormGroup/FormGroup";
 import { ResultDisplayComponent } from "./ResultDisplay/ResultDisplayComponent";
-import { processImageToQuiltSvg, type QuiltDesign } from "@/app/util/imageProcessing";
-import { UPLOAD_IMAGE_STORAGE_KEY } from "@/app/UploadPage/UploadComponent/UploadComponent";
+import { VersionTimeline } from "./VersionTimeline/VersionTimeline";
+import {
+  downsampleImageData,
+  loadImageData,
+  type ProcessingProgress,
+  type QuiltDesign,
+} from "@/app/util/imageProcessing";
+import { processImageInWorker } from "@/app/util/quiltWorkerClient";
+import { vectorizeImageService } from "@/app/util/vectorizeImageService";
+import { getFabricCatalog } from "@/app/util/fabricCatalog";
+import { randomSeed } from "@/app/util/random";
+import {
+  addVersion,
+  getCurrentProject,
+  restoreVersion,
+  saveCurrentProject,
+  saveLiveVersion,
+  starVersion,
+  updateCurrentVersion,
+  type Project,
+} from "@/app/util/projectStore";
 
-export const QUILT_DESIGN_STORAGE_KEY = "art-quilt-design";
-export const QUILT_SVG_STORAGE_KEY = "art-quilt-svg";
+/** Longest side of the downsampled image used for live previews */
+const PREVIEW_MAX_SIDE = 240;
+/** Fewest preview pixels across each grid cell, so tall images keep their grid */
+const PREVIEW_MIN_CELL_PX = 2;
+/** Quiet time after a slider move before the preview renders */
+const PREVIEW_DEBOUNCE_MS = 150;
+/** Quiet time before the full-resolution design replaces the preview */
+const FULL_RESULT_DELAY_MS = 900;
 
 export default function DesignCreationPage() {
   const router = useRouter();
   const [settings, setSettings] = useState<QuiltSettings>(DEFAULT_SETTINGS);
   const [processing, setProcessing] = useState(false);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
   const [result, setResult] = useState<{ svg: string; design: QuiltDesign } | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [hasImage, setHasImage] = useState(false);
+  // Source image of the current project
+  const [image, setImage] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const hasImage = !!image;
+  // Last saved state of the project, for its version history
+  const [project, setProject] = useState<Project | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Settings the running job was started with; any other change cancels it
+  const runSettingsRef = useRef<QuiltSettings | null>(null);
+  const sourceImageRef = useRef<{ url: string; imageData: ImageData } | null>(null);
+  const [liveMode, setLiveMode] = useState(false);
+  const [isPreview, setIsPreview] = useState(false);
 
-  // Check if we have an image on mount
+  // Load the current project's image, settings and last design
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const stored = localStorage.getItem(UPLOAD_IMAGE_STORAGE_KEY);
-    setHasImage(!!stored);
-
-    // Also check for previously generated design
-    const savedSvg = localStorage.getItem(QUILT_SVG_STORAGE_KEY);
-    const savedDesign = localStorage.getItem(QUILT_DESIGN_STORAGE_KEY);
-    if (savedSvg && savedDesign) {
-      try {
-        setResult({ svg: savedSvg, design: JSON.parse(savedDesign) });
-      } catch {
-        // Ignore parse errors
-      }
-    }
+    let cancelled = false;
+    getCurrentProject()
+      .then((project) => {
+        if (cancelled || !project) return;
+        setProject(project);
+        setImage(project.image);
+        if (project.settings) {
+          setSettings({ ...DEFAULT_SETTINGS, ...project.settings });
+        } else if (project.design?.seed !== undefined) {
+          setSettings((s) => ({ ...s, seed: project.design?.seed ?? null }));
+        }
+        if (project.design && project.svg) setResult({ svg: project.svg, design: project.design });
+      })
+      .catch(() => !cancelled && setError("Could not open your projects."))
+      .finally(() => !cancelled && setLoaded(true));
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  const handleProcess = useCallback(async () => {
-    if (typeof window === "undefined") return;
+  // Failed saves leave the design on screen, so only report them
+  const saveProject = useCallback((save: Promise<Project | null>) => {
+    save
+      .then((saved) => saved && setProject(saved))
+      .catch(() => setError("Could not save the design to your projects."));
+  }, []);
 
-    const imageDataUrl = localStorage.getItem(UPLOAD_IMAGE_STORAGE_KEY);
+  // Run the pipeline in a worker, cancelling any job still running. Preview
+  // runs use a downsampled image and are not saved to the project. Generated
+  // designs become a new version; a live re-render replaces the version the
+  // previous one made, unless that version was starred or touched up.
+  const runPipeline = useCallback(async (runSettings: QuiltSettings, preview: boolean, newVersion = false) => {
+    const imageDataUrl = image;
     if (!imageDataUrl) {
       setError("No image found. Please upload or generate an image first.");
       return;
     }
 
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    runSettingsRef.current = runSettings;
+
     setProcessing(true);
+    setProgress(null);
     setError(null);
 
     try {
-      const result = await processImageToQuiltSvg(imageDataUrl, {
-        gridWidth: settings.granularity,
-        numColors: settings.colorCount,
-        shapeType: settings.style,
-        cellSizeMm: 25,
-        seamAllowanceMm: 6.35,
-        voronoiSettings: settings.voronoi,
-      });
+      let result: { svg: string; design: QuiltDesign };
+      if (runSettings.style === "ai-vectorize") {
+        // Traced on the server; it returns the finished pixel design
+        setProgress({ stage: "vectorize", label: "Vectorizing with AI", fraction: 0.1 });
+        const vectorized = await vectorizeImageService(
+          imageDataUrl,
+          {
+            gridWidth: runSettings.granularity,
+            numColors: runSettings.colorCount,
+            lockedColors: runSettings.lockedColors,
+            colorSpace: runSettings.colorSpace,
+            seed: runSettings.seed ?? randomSeed(),
+            cellSizeMm: 25,
+            seamAllowanceMm: 6.35,
+            fabricCatalogId: runSettings.fabricCatalogId,
+            minPieceAreaMm2: runSettings.minPieceAreaMm2,
+          },
+          controller.signal
+        );
+        if (!vectorized.success || !vectorized.svg || !vectorized.design) {
+          throw new Error(vectorized.error || "Failed to vectorize image");
+        }
+        result = { svg: vectorized.svg, design: vectorized.design };
+      } else {
+        if (!sourceImageRef.current || sourceImageRef.current.url !== imageDataUrl) {
+          sourceImageRef.current = { url: imageDataUrl, imageData: await loadImageData(imageDataUrl) };
+        }
+        const source = sourceImageRef.current.imageData;
+        // Tall images need a longer preview side for the grid to fit across
+        const previewMaxSide = Math.max(
+          PREVIEW_MAX_SIDE,
+          Math.ceil((runSettings.granularity * PREVIEW_MIN_CELL_PX * Math.max(source.width, source.height)) / source.width)
+        );
+        // The worker takes ownership of the pixels, so always hand it a copy
+        const imageData = downsampleImageData(source, preview ? previewMaxSide : Infinity);
+        result = await processImageInWorker(
+          imageData,
+          {
+            gridWidth: runSettings.granularity,
+            numColors: runSettings.colorCount,
+            lockedColors: runSettings.lockedColors,
+            colorSpace: runSettings.colorSpace,
+            seed: runSettings.seed ?? randomSeed(),
+            shapeType: runSettings.style,
+            cellSizeMm: 25,
+            seamAllowanceMm: 6.35,
+            voronoiSettings: runSettings.voronoi,
+            fabricCatalog: runSettings.fabricCatalogId ? getFabricCatalog(runSettings.fabricCatalogId) : undefined,
+            minPieceAreaMm2: runSettings.minPieceAreaMm2,
+          },
+          { onProgress: setProgress, signal: controller.signal }
+        );
+      }
 
       setResult(result);
+      setIsPreview(preview);
 
-      // Save to localStorage for the result page
-      localStorage.setItem(QUILT_SVG_STORAGE_KEY, result.svg);
-      localStorage.setItem(QUILT_DESIGN_STORAGE_KEY, JSON.stringify(result.design));
+      // Save to the project for the result page
+      if (newVersion) {
+        saveProject(addVersion({ settings: runSettings, design: result.design, svg: result.svg }));
+      } else if (!preview) {
+        saveProject(saveLiveVersion({ settings: runSettings, design: result.design, svg: result.svg }));
+      }
     } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
       setError(err instanceof Error ? err.message : "Processing failed");
     } finally {
-      setProcessing(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProcessing(false);
+        setProgress(null);
+      }
     }
-  }, [settings]);
+  }, [image, saveProject]);
+
+  // Settings changed: cancel the running job, and in live mode render a quick
+  // preview, then the full-resolution design once the sliders settle. The AI
+  // style is too slow (and costly) to re-run on every slider move.
+  useEffect(() => {
+    if (settings === runSettingsRef.current) return;
+    abortRef.current?.abort();
+    if (!liveMode || !hasImage || settings.style === "ai-vectorize") return;
+
+    const previewTimer = setTimeout(() => runPipeline(settings, true), PREVIEW_DEBOUNCE_MS);
+    const fullTimer = setTimeout(() => runPipeline(settings, false), FULL_RESULT_DELAY_MS);
+    return () => {
+      clearTimeout(previewTimer);
+      clearTimeout(fullTimer);
+    };
+  }, [settings, liveMode, hasImage, runPipeline]);
+
+  // Stop the worker when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleProcess = useCallback(() => {
+    // Unlocked runs pick a fresh seed; it is shown so it can be locked later
+    const seed = settings.lockSeed && settings.seed !== null ? settings.seed : randomSeed();
+    const runSettings = seed === settings.seed ? settings : { ...settings, seed };
+    runPipeline(runSettings, false, true);
+    if (runSettings !== settings) setSettings(runSettings);
+  }, [settings, runPipeline]);
+
+  const handleLiveModeChange = useCallback((enabled: boolean) => {
+    setLiveMode(enabled);
+    // Live runs keep one seed so the design does not jump while sliding
+    if (enabled) setSettings((s) => (s.seed === null ? { ...s, seed: randomSeed() } : s));
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  // Save manual touch-ups; a starred version is kept and they become a new one
+  const handleEditResult = useCallback(
+    (edited: { svg: string; design: QuiltDesign }) => {
+      setResult(edited);
+      saveProject(updateCurrentVersion(edited));
+    },
+    [saveProject]
+  );
+
+  const handleLockedColorsChange = useCallback((lockedColors: string[]) => {
+    setSettings((s) => ({ ...s, lockedColors }));
+  }, []);
 
   const handleClearResult = useCallback(() => {
     setResult(null);
-    if (typeof window !== "undefined") {
-      localStorage.removeItem(QUILT_SVG_STORAGE_KEY);
-      localStorage.removeItem(QUILT_DESIGN_STORAGE_KEY);
-    }
-  }, []);
+    saveProject(saveCurrentProject({ design: null, svg: null, currentVersionId: null }));
+  }, [saveProject]);
+
+  const handleRestoreVersion = useCallback(
+    async (versionId: string) => {
+      if (!project) return;
+      abortRef.current?.abort();
+      try {
+        const restored = await restoreVersion(project.id, versionId);
+        if (!restored?.design || !restored.svg) return;
+        setProject(restored);
+        setResult({ svg: restored.svg, design: restored.design });
+        setIsPreview(false);
+        if (restored.settings) {
+          const restoredSettings = { ...DEFAULT_SETTINGS, ...restored.settings };
+          // Already rendered, so live mode should not re-run it
+          runSettingsRef.current = restoredSettings;
+          setSettings(restoredSettings);
+        }
+      } catch {
+        setError("Could not restore the version.");
+      }
+    },
+    [project]
+  );
+
+  const handleStarVersion = useCallback(
+    (versionId: string | null) => {
+      if (project) saveProject(starVersion(project.id, versionId));
+    },
+    [project, saveProject]
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
@@ -120,7 +308,7 @@ export default function DesignCreationPage() {
           </button>
         </div>
 
-        {!hasImage ? (
+        {!loaded ? null : !hasImage && !result ? (
           <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-12 text-center">
             <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
               <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -141,7 +329,7 @@ export default function DesignCreationPage() {
           <div className="grid lg:grid-cols-4 gap-6">
             {/* Left Column - Base Image (Small) */}
             <div className="lg:col-span-1">
-              <PreviewBox />
+              <PreviewBox image={image} />
             </div>
 
             {/* Middle Column - Quilt Pattern (Large) */}
@@ -150,7 +338,11 @@ export default function DesignCreationPage() {
                 <ResultDisplayComponent
                   svg={result.svg}
                   design={result.design}
+                  preview={isPreview}
                   onClear={handleClearResult}
+                  onEdit={handleEditResult}
+                  lockedColors={settings.lockedColors}
+                  onLockedColorsChange={handleLockedColorsChange}
                 />
               ) : (
                 <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 h-full flex flex-col items-center justify-center min-h-[400px]">
@@ -166,13 +358,24 @@ export default function DesignCreationPage() {
                 </div>
               )}
 
+              {project && (
+                <VersionTimeline
+                  versions={project.versions}
+                  currentVersionId={project.currentVersionId}
+                  starredVersionId={project.starredVersionId}
+                  currentSvg={result && !isPreview ? result.svg : null}
+                  onRestore={handleRestoreVersion}
+                  onStar={handleStarVersion}
+                />
+              )}
+
               {error && (
                 <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-xl">
                   <p className="text-red-600 text-sm">{error}</p>
                 </div>
               )}
 
-              {result && (
+              {result && !isPreview && (
                 <div className="mt-6 flex justify-center">
                   <button
                     type="button"
@@ -194,7 +397,12 @@ export default function DesignCreationPage() {
                 settings={settings}
                 onChange={setSettings}
                 onProcess={handleProcess}
+                onCancel={handleCancel}
+                liveMode={liveMode}
+                onLiveModeChange={handleLiveModeChange}
                 processing={processing}
+                progress={progress}
+                despeckleStats={result?.design.despeckle}
               />
             </div>
           </div>
@@ -1,21 +1,59 @@
 "use client";
 
 import { useCallback } from "react";
-import type { ShapeType, VoronoiSettings } from "@/app/util/imageProcessing";
+import type { ProcessingProgress, ShapeType, VoronoiSettings } from "@/app/util/imageProcessing";
+import type { DespeckleStats } from "@/app/util/despeckle";
 import { DEFAULT_VORONOI_SETTINGS } from "@/app/util/imageProcessing";
+import { FABRIC_CATALOGS } from "@/app/util/fabricCatalog";
+import { COLOR_SPACES, type ColorSpace } from "@/app/util/colorSpace";
+import { MAX_SEED, randomSeed } from "@/app/util/random";
+
+/** A local pipeline shape, or the server-side AI vectorizer */
+export type QuiltStyle = ShapeType | "ai-vectorize";
+
+/** Largest grid the AI vectorizer draws in full */
+export const AI_VECTORIZE_MAX_GRID = 40;
 
 export type QuiltSettings = {
-  style: ShapeType;
+  style: QuiltStyle;
   colorCount: number;
+  /** Palette colors kept exactly on the next run; they count toward `colorCount` */
+  lockedColors: string[];
+  /** Color space used to cluster and match colors */
+  colorSpace: ColorSpace;
   granularity: number;
+  /** Catalog to snap the palette to, or null for free colors */
+  fabricCatalogId: string | null;
+  /** Smallest same-color region to keep, in mm²; 0 disables the cleanup */
+  minPieceAreaMm2: number;
+  /** Seed of the last or next run; null until the first run picks one */
+  seed: number | null;
+  /** Reuse `seed` on every run instead of picking a new one */
+  lockSeed: boolean;
   // Voronoi-specific settings
   voronoi: VoronoiSettings;
 };
 
+export const QUILT_STYLES: { value: QuiltStyle; label: string; available: boolean; icon: string }[] = [
+  { value: "pixel", label: "Pixel", available: true, icon: "▦" },
+  { value: "voronoi", label: "Voronoi", available: true, icon: "◈" },
+  { value: "triangle", label: "Triangle", available: true, icon: "△" },
+  { value: "hexagon", label: "Hexagon", available: true, icon: "⬡" },
+  { value: "hst", label: "Half Square", available: true, icon: "◩" },
+  { value: "rectangle", label: "Blocks", available: true, icon: "▤" },
+  { value: "ai-vectorize", label: "AI Vectorize", available: true, icon: "✦" },
+];
+
 export const DEFAULT_SETTINGS: QuiltSettings = {
   style: "pixel",
   colorCount: 6,
+  lockedColors: [],
+  colorSpace: "rgb",
   granularity: 30,
+  fabricCatalogId: null,
+  minPieceAreaMm2: 0,
+  seed: null,
+  lockSeed: false,
   voronoi: DEFAULT_VORONOI_SETTINGS,
 };
 
@@ -23,18 +61,35 @@ type FormGroupProps = {
   settings: QuiltSettings;
   onChange: (settings: QuiltSettings) => void;
   onProcess: () => void;
+  onCancel?: () => void;
+  /** Re-render a quick preview while sliders move */
+  liveMode?: boolean;
+  onLiveModeChange?: (enabled: boolean) => void;
   processing?: boolean;
+  /** Current pipeline stage while processing */
+  progress?: ProcessingProgress | null;
+  /** Small-piece cleanup of the current result */
+  despeckleStats?: DespeckleStats;
 };
 
 export const FormGroup = ({
   settings,
   onChange,
   onProcess,
+  onCancel,
+  liveMode = false,
+  onLiveModeChange,
   processing = false,
+  progress = null,
+  despeckleStats,
 }: FormGroupProps) => {
   const handleStyleChange = useCallback(
-    (style: ShapeType) => {
-      onChange({ ...settings, style });
+    (style: QuiltStyle) => {
+      onChange({
+        ...settings,
+        style,
+        granularity: style === "ai-vectorize" ? Math.min(settings.granularity, AI_VECTORIZE_MAX_GRID) : settings.granularity,
+      });
     },
     [settings, onChange]
   );
@@ -46,6 +101,20 @@ export const FormGroup = ({
     [settings, onChange]
   );
 
+  const handleUnlockColor = useCallback(
+    (color: string) => {
+      onChange({ ...settings, lockedColors: settings.lockedColors.filter((c) => c !== color) });
+    },
+    [settings, onChange]
+  );
+
+  const handleColorSpaceChange = useCallback(
+    (colorSpace: ColorSpace) => {
+      onChange({ ...settings, colorSpace });
+    },
+    [settings, onChange]
+  );
+
   const handleGranularityChange = useCallback(
     (granularity: number) => {
       onChange({ ...settings, granularity });
@@ -53,6 +122,27 @@ export const FormGroup = ({
     [settings, onChange]
   );
 
+  const handleFabricCatalogChange = useCallback(
+    (fabricCatalogId: string | null) => {
+      onChange({ ...settings, fabricCatalogId });
+    },
+    [settings, onChange]
+  );
+
+  const handleMinPieceAreaChange = useCallback(
+    (minPieceAreaMm2: number) => {
+      onChange({ ...settings, minPieceAreaMm2 });
+    },
+    [settings, onChange]
+  );
+
+  const handleSeedChange = useCallback(
+    (seed: number | null, lockSeed: boolean) => {
+      onChange({ ...settings, seed, lockSeed });
+    },
+    [settings, onChange]
+  );
+
   const handleVoronoiChange = useCallback(
     (key: keyof VoronoiSettings, value: number | boolean) => {
       onChange({
@@ -63,14 +153,8 @@ export const FormGroup = ({
     [settings, onChange]
   );
 
-  const styles: { value: ShapeType; label: string; available: boolean; icon: string }[] = [
-    { value: "pixel", label: "Pixel", available: true, icon: "▦" },
-    { value: "voronoi", label: "Voronoi", available: true, icon: "◈" },
-    { value: "triangle", label: "Triangle", available: false, icon: "△" },
-    { value: "hexagon", label: "Hexagon", available: false, icon: "⬡" },
-  ];
-
   const isVoronoi = settings.style === "voronoi";
+  const isAiVectorize = settings.style === "ai-vectorize";
 
   return (
     <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 flex flex-col gap-6">
@@ -90,7 +174,7 @@ export const FormGroup = ({
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-700">Pattern Style</label>
         <div className="grid grid-cols-2 gap-2">
-          {styles.map(({ value, label, available, icon }) => (
+          {QUILT_STYLES.map(({ value, label, available, icon }) => (
             <button
               key={value}
               type="button"
@@ -133,6 +217,88 @@ export const FormGroup = ({
           <span>2</span>
           <span>10</span>
         </div>
+        {settings.lockedColors.length > 0 && (
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs text-gray-500">🔒 Locked</span>
+              {settings.lockedColors.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => handleUnlockColor(color)}
+                  title={`Unlock ${color}`}
+                  className="group relative w-6 h-6 rounded border border-gray-200 shadow-sm"
+                  style={{ backgroundColor: color }}
+                >
+                  <span className="absolute inset-0 hidden group-hover:flex items-center justify-center text-xs font-bold text-white bg-black/40 rounded">
+                    ×
+                  </span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">Locked colors are kept exactly and count toward the total.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Color Space */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-700">Color Matching</label>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(COLOR_SPACES) as ColorSpace[]).map((space) => (
+            <button
+              key={space}
+              type="button"
+              onClick={() => handleColorSpaceChange(space)}
+              className={`py-2 px-2 text-xs font-medium rounded-lg transition-all ${
+                settings.colorSpace === space
+                  ? "bg-purple-600 text-white shadow-md"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {COLOR_SPACES[space].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">{COLOR_SPACES[settings.colorSpace].description}</p>
+      </div>
+
+      {/* Fabric Matching */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <label className="text-sm font-medium text-gray-700">Match Real Fabrics</label>
+            <p className="text-xs text-gray-500">Snap colors to a solids line</p>
+          </div>
+          <button
+            type="button"
+            onClick={() =>
+              handleFabricCatalogChange(settings.fabricCatalogId ? null : FABRIC_CATALOGS[0].id)
+            }
+            className={`relative w-12 h-6 rounded-full transition-colors ${
+              settings.fabricCatalogId ? "bg-purple-600" : "bg-gray-300"
+            }`}
+          >
+            <span
+              className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform ${
+                settings.fabricCatalogId ? "translate-x-6" : ""
+              }`}
+            />
+          </button>
+        </div>
+        {settings.fabricCatalogId && (
+          <select
+            value={settings.fabricCatalogId}
+            onChange={(e) => handleFabricCatalogChange(e.target.value)}
+            className="w-full px-3 py-2 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+          >
+            {FABRIC_CATALOGS.map((catalog) => (
+              <option key={catalog.id} value={catalog.id}>
+                {catalog.name} ({catalog.fabrics.length} colors)
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Granularity Slider - Only for non-Voronoi */}
@@ -147,7 +313,7 @@ export const FormGroup = ({
           <input
             type="range"
             min={10}
-            max={80}
+            max={isAiVectorize ? AI_VECTORIZE_MAX_GRID : 80}
             step={5}
             value={settings.granularity}
             onChange={(e) => handleGranularityChange(Number(e.target.value))}
@@ -157,6 +323,11 @@ export const FormGroup = ({
             <span>Coarse</span>
             <span>Fine</span>
           </div>
+          {isAiVectorize && (
+            <p className="text-xs text-gray-500">
+              Gemini traces the image as pixel squares; this can take a minute
+            </p>
+          )}
         </div>
       )}
 
@@ -174,7 +345,7 @@ export const FormGroup = ({
             <input
               type="range"
               min={20}
-              max={500}
+              max={5000}
               step={10}
               value={settings.voronoi.numSeeds}
               onChange={(e) => handleVoronoiChange("numSeeds", Number(e.target.value))}
@@ -182,7 +353,7 @@ export const FormGroup = ({
             />
             <div className="flex justify-between text-xs text-gray-400">
               <span>Few (20)</span>
-              <span>Many (500)</span>
+              <span>Many (5000)</span>
             </div>
             <p className="text-xs text-gray-500">
               More cells = more detail, longer processing
@@ -267,6 +438,111 @@ export const FormGroup = ({
         </>
       )}
 
+      {/* Minimum Piece Size */}
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium text-gray-700">Minimum Piece Size</label>
+          <span className="text-sm font-bold text-purple-600 bg-purple-50 px-2 py-0.5 rounded">
+            {settings.minPieceAreaMm2 === 0 ? "Off" : `${settings.minPieceAreaMm2} mm²`}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={5000}
+          step={100}
+          value={settings.minPieceAreaMm2}
+          onChange={(e) => handleMinPieceAreaChange(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
+        />
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>Keep all</span>
+          <span>50 cm²</span>
+        </div>
+        <p className="text-xs text-gray-500">
+          {settings.minPieceAreaMm2 === 0
+            ? "Isolated specks of color are kept as they are"
+            : `Color areas smaller than about ${(Math.sqrt(settings.minPieceAreaMm2) / 10).toFixed(1)} cm square merge into their closest neighbor`}
+        </p>
+        {despeckleStats && (
+          <p className="text-xs text-gray-600 bg-gray-50 rounded-lg px-3 py-2">
+            Small pieces: {despeckleStats.smallPiecesBefore} → {despeckleStats.smallPiecesAfter}
+            {despeckleStats.minPieceAreaMm2 !== settings.minPieceAreaMm2 && (
+              <span className="text-gray-400"> (at {despeckleStats.minPieceAreaMm2} mm²)</span>
+            )}
+          </p>
+        )}
+      </div>
+
+      {/* Seed */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <label className="text-sm font-medium text-gray-700">Seed</label>
+            <p className="text-xs text-gray-500">
+              {settings.lockSeed ? "Locked: every run gives the same quilt" : "New seed on every run"}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => handleSeedChange(settings.seed ?? randomSeed(), !settings.lockSeed)}
+            title={settings.lockSeed ? "Unlock seed" : "Lock seed"}
+            className={`px-2 py-1 text-xs font-medium rounded-lg transition-colors ${
+              settings.lockSeed ? "bg-purple-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {settings.lockSeed ? "🔒 Locked" : "🔓 Lock"}
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={0}
+            max={MAX_SEED}
+            value={settings.seed ?? ""}
+            placeholder="Random"
+            onChange={(e) =>
+              handleSeedChange(
+                e.target.value === "" ? null : Math.min(MAX_SEED, Math.max(0, Math.floor(Number(e.target.value)))),
+                e.target.value !== ""
+              )
+            }
+            className="flex-1 min-w-0 px-3 py-2 text-sm font-mono text-gray-700 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+          />
+          <button
+            type="button"
+            onClick={() => handleSeedChange(randomSeed(), settings.lockSeed)}
+            title="Reroll seed"
+            className="px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            🎲
+          </button>
+        </div>
+      </div>
+
+      {/* Live Preview Toggle - not for the AI style, which runs on the server */}
+      {onLiveModeChange && !isAiVectorize && (
+        <div className="flex items-center justify-between py-2 border-t border-gray-100">
+          <div>
+            <label className="text-sm font-medium text-gray-700">Live Preview</label>
+            <p className="text-xs text-gray-500">Update the pattern as you adjust</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onLiveModeChange(!liveMode)}
+            className={`relative w-12 h-6 rounded-full transition-colors ${
+              liveMode ? "bg-purple-600" : "bg-gray-300"
+            }`}
+          >
+            <span
+              className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform ${
+                liveMode ? "translate-x-6" : ""
+              }`}
+            />
+          </button>
+        </div>
+      )}
+
       {/* Process Button */}
       <button
         type="button"
@@ -284,7 +560,7 @@ export const FormGroup = ({
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
             </svg>
-            Processing...
+            {progress?.label ?? "Processing"}...
           </>
         ) : (
           <>
@@ -295,6 +571,26 @@ export const FormGroup = ({
           </>
         )}
       </button>
+
+      {processing && (
+        <div className="space-y-2 -mt-3">
+          <div className="h-1.5 bg-purple-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-purple-600 transition-all duration-300"
+              style={{ width: `${Math.round((progress?.fraction ?? 0) * 100)}%` }}
+            />
+          </div>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="w-full text-xs text-gray-500 hover:text-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
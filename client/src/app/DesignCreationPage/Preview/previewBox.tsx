@@ -1,17 +1,11 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { UPLOAD_IMAGE_STORAGE_KEY } from "@/app/UploadPage/UploadComponent/UploadComponent";
-
-export const PreviewBox = () => {
-  const [imageBase64, setImageBase64] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    const stored = localStorage.getItem(UPLOAD_IMAGE_STORAGE_KEY);
-    setImageBase64(stored);
-  }, []);
+type PreviewBoxProps = {
+  /** Source image of the current project */
+  image: string | null;
+};
 
+export const PreviewBox = ({ image: imageBase64 }: PreviewBoxProps) => {
   if (!imageBase64) {
     return (
       <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
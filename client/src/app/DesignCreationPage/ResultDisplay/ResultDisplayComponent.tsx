@@ -1,20 +1,224 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import type { QuiltDesign } from "@/app/util/imageProcessing";
+import { fabricLabel } from "@/app/util/fabricCatalog";
+import {
+  floodFillRegion,
+  paintPieces,
+  pieceColor,
+  recordEdit,
+  redoEdit,
+  renderDesignSvg,
+  replaceLockedColor,
+  replacePaletteColor,
+  toDesignColor,
+  toHexColor,
+  undoEdit,
+  type EditHistory,
+  type PieceRef,
+} from "@/app/util/designEditor";
+
+type EditedDesign = { svg: string; design: QuiltDesign };
+
+type EditTool = "paint" | "fill";
+
+/** Undo steps kept while editing */
+const MAX_HISTORY = 100;
 
 type ResultDisplayProps = {
   svg: string;
   design: QuiltDesign;
+  /** Low-resolution live preview; the full design is still rendering */
+  preview?: boolean;
   onClear?: () => void;
+  /** Called with the touched-up design; enables the piece and palette editors */
+  onEdit?: (edited: EditedDesign) => void;
+  /** Palette colors kept exactly on the next run */
+  lockedColors?: string[];
+  onLockedColorsChange?: (colors: string[]) => void;
 };
 
 export const ResultDisplayComponent = ({
   svg,
   design,
+  preview = false,
   onClear,
+  onEdit,
+  lockedColors = [],
+  onLockedColorsChange,
 }: ResultDisplayProps) => {
   const [showMetadata, setShowMetadata] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [tool, setTool] = useState<EditTool>("paint");
+  const [activeColor, setActiveColor] = useState(design.colorPalette[0]);
+  // Palette entry open in the palette editor, and its edited color
+  const [selectedColor, setSelectedColor] = useState<string | null>(null);
+  const [draftColor, setDraftColor] = useState("#000000");
+  const [history, setHistory] = useState<EditHistory<EditedDesign>>({
+    past: [],
+    future: [],
+  });
+  const svgContainerRef = useRef<HTMLDivElement>(null);
+  // Design last handed to onEdit; any other design is a new generation
+  const lastEditRef = useRef<QuiltDesign | null>(null);
+  // Pieces painted by the current drag, committed as one undo step
+  const strokeRef = useRef<Map<string, PieceRef> | null>(null);
+
+  const canEdit = !!onEdit && !preview;
+
+  // A freshly generated design starts a new history
+  useEffect(() => {
+    if (design === lastEditRef.current) return;
+    setHistory({ past: [], future: [] });
+    setActiveColor((color) => (design.colorPalette.includes(color) ? color : design.colorPalette[0]));
+    setSelectedColor(null);
+  }, [design]);
+
+  const applyEdit = useCallback(
+    (edited: EditedDesign) => {
+      lastEditRef.current = edited.design;
+      onEdit?.(edited);
+    },
+    [onEdit]
+  );
+
+  const commitDesign = useCallback(
+    (edited: QuiltDesign) => {
+      setHistory((h) => recordEdit(h, { svg, design }, MAX_HISTORY));
+      applyEdit({ svg: renderDesignSvg(edited, svg), design: edited });
+    },
+    [design, svg, applyEdit]
+  );
+
+  const commitPaint = useCallback(
+    (refs: PieceRef[]) => {
+      const changed = refs.filter((ref) => pieceColor(design, ref) !== activeColor);
+      if (changed.length === 0) return;
+      commitDesign(paintPieces(design, changed, activeColor));
+    },
+    [design, activeColor, commitDesign]
+  );
+
+  const handleSwatchClick = useCallback(
+    (color: string) => {
+      if (editing) {
+        setActiveColor(color);
+      } else if (canEdit) {
+        setSelectedColor(color === selectedColor ? null : color);
+        setDraftColor(toHexColor(color));
+      }
+    },
+    [editing, canEdit, selectedColor]
+  );
+
+  // Recolor or merge the selected entry; a lock follows its color
+  const replaceSelectedColor = useCallback(
+    (to: string) => {
+      if (!selectedColor || to === selectedColor) return;
+      commitDesign(replacePaletteColor(design, selectedColor, to));
+      if (lockedColors.includes(selectedColor)) {
+        onLockedColorsChange?.(replaceLockedColor(lockedColors, selectedColor, to));
+      }
+      setSelectedColor(to);
+    },
+    [selectedColor, design, commitDesign, lockedColors, onLockedColorsChange]
+  );
+
+  const toggleLock = useCallback(
+    (color: string) => {
+      onLockedColorsChange?.(
+        lockedColors.includes(color) ? lockedColors.filter((c) => c !== color) : [...lockedColors, color]
+      );
+    },
+    [lockedColors, onLockedColorsChange]
+  );
+
+  const handleUndo = useCallback(() => {
+    const step = undoEdit(history, { svg, design });
+    if (!step) return;
+    setHistory(step.history);
+    applyEdit(step.restored);
+  }, [history, svg, design, applyEdit]);
+
+  const handleRedo = useCallback(() => {
+    const step = redoEdit(history, { svg, design });
+    if (!step) return;
+    setHistory(step.history);
+    applyEdit(step.restored);
+  }, [history, svg, design, applyEdit]);
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    if (!editing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) handleUndo();
+      else if ((key === "z" && e.shiftKey) || key === "y") handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [editing, handleUndo, handleRedo]);
+
+  // The piece under the pointer; halves of split squares are separate pieces
+  const pieceAt = useCallback((clientX: number, clientY: number) => {
+    const element = document.elementFromPoint(clientX, clientY);
+    if (!(element instanceof SVGElement)) return null;
+    const piece = element.closest<SVGElement>("[data-id]");
+    if (!piece || !svgContainerRef.current?.contains(piece)) return null;
+
+    const id = piece.getAttribute("data-id")!;
+    if (piece.tagName.toLowerCase() === "g") {
+      const half = Array.from(piece.querySelectorAll("polygon")).indexOf(element as SVGPolygonElement);
+      return { ref: { id, half: half === 1 ? 1 : 0 } as PieceRef, element };
+    }
+    return { ref: { id } as PieceRef, element: piece };
+  }, []);
+
+  const paintAt = useCallback(
+    (clientX: number, clientY: number) => {
+      const hit = pieceAt(clientX, clientY);
+      if (!hit || !strokeRef.current) return;
+      const key = hit.ref.half === undefined ? hit.ref.id : `${hit.ref.id}:${hit.ref.half}`;
+      if (strokeRef.current.has(key)) return;
+      strokeRef.current.set(key, hit.ref);
+      // Immediate feedback; the stroke is committed on release
+      hit.element.setAttribute("fill", activeColor);
+    },
+    [pieceAt, activeColor]
+  );
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!editing) return;
+      e.preventDefault();
+      if (tool === "fill") {
+        const hit = pieceAt(e.clientX, e.clientY);
+        if (hit) commitPaint(floodFillRegion(design, hit.ref));
+        return;
+      }
+      strokeRef.current = new Map();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      paintAt(e.clientX, e.clientY);
+    },
+    [editing, tool, pieceAt, paintAt, commitPaint, design]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (strokeRef.current) paintAt(e.clientX, e.clientY);
+    },
+    [paintAt]
+  );
+
+  const handlePointerUp = useCallback(() => {
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (stroke) commitPaint([...stroke.values()]);
+  }, [commitPaint]);
 
   const handleDownloadSvg = useCallback(() => {
     const blob = new Blob([svg], { type: "image/svg+xml" });
@@ -49,27 +253,105 @@ export const ResultDisplayComponent = ({
             </svg>
           </div>
           <div>
-            <h2 className="font-semibold text-gray-900">Quilt Pattern</h2>
-            <p className="text-xs text-gray-500">Generated design</p>
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              Quilt Pattern
+              {preview && (
+                <span className="px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-purple-700 bg-purple-100 rounded-full">
+                  Preview
+                </span>
+              )}
+            </h2>
+            <p className="text-xs text-gray-500">
+              {preview ? "Low-resolution preview, full design follows" : "Generated design"}
+            </p>
           </div>
         </div>
-        {onClear && (
-          <button
-            type="button"
-            onClick={onClear}
-            className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
-          >
-            Clear
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => setEditing(!editing)}
+              className={`px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+                editing ? "bg-purple-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {editing ? "Done" : "Edit Pieces"}
+            </button>
+          )}
+          {onClear && (
+            <button
+              type="button"
+              onClick={onClear}
+              className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
       </div>
 
-      {/* SVG Preview - Rendered directly for future interactivity */}
+      {/* Editor Toolbar */}
+      {canEdit && editing && (
+        <div className="flex items-center justify-between gap-3 p-2 bg-purple-50 rounded-xl border border-purple-100">
+          <div className="flex gap-1">
+            {([
+              { value: "paint", label: "🖌 Paint", title: "Click or drag over pieces" },
+              { value: "fill", label: "🪣 Fill", title: "Recolor a connected region" },
+            ] as const).map(({ value, label, title }) => (
+              <button
+                key={value}
+                type="button"
+                title={title}
+                onClick={() => setTool(value)}
+                className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                  tool === value ? "bg-purple-600 text-white" : "bg-white text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <span
+            className="w-6 h-6 rounded-md border-2 border-white shadow ring-1 ring-purple-300"
+            style={{ backgroundColor: activeColor }}
+            title={`Painting with ${activeColor}`}
+          />
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={handleUndo}
+              disabled={history.past.length === 0}
+              title="Undo (Ctrl+Z)"
+              className="px-2.5 py-1.5 text-xs font-medium bg-white text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              ↶ Undo
+            </button>
+            <button
+              type="button"
+              onClick={handleRedo}
+              disabled={history.future.length === 0}
+              title="Redo (Ctrl+Shift+Z)"
+              className="px-2.5 py-1.5 text-xs font-medium bg-white text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              ↷ Redo
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* SVG Preview - pieces are painted in place while editing */}
       <div 
         className="bg-gray-50 rounded-xl p-4 flex justify-center border border-gray-100 overflow-hidden"
       >
         <div 
-          className="max-w-full max-h-[400px] [&>svg]:max-w-full [&>svg]:max-h-[400px] [&>svg]:w-auto [&>svg]:h-auto [&>svg_path]:transition-opacity [&>svg_path:hover]:opacity-80 [&>svg_rect:hover]:opacity-80"
+          ref={svgContainerRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`max-w-full max-h-[400px] [&>svg]:max-w-full [&>svg]:max-h-[400px] [&>svg]:w-auto [&>svg]:h-auto [&>svg_path]:transition-opacity [&>svg_path:hover]:opacity-80 [&>svg_rect:hover]:opacity-80 ${
+            editing ? "cursor-crosshair touch-none select-none" : ""
+          }`}
           dangerouslySetInnerHTML={{ __html: svg }}
         />
       </div>
@@ -92,17 +374,115 @@ export const ResultDisplayComponent = ({
 
       {/* Color Palette */}
       <div>
-        <p className="text-sm font-medium text-gray-700 mb-2">Color Palette</p>
+        <p className="text-sm font-medium text-gray-700 mb-2">
+          Color Palette
+          {editing ? (
+            <span className="ml-2 text-xs font-normal text-gray-500">Pick the paint color</span>
+          ) : (
+            canEdit && <span className="ml-2 text-xs font-normal text-gray-500">Click a color to change it</span>
+          )}
+        </p>
         <div className="flex gap-2 flex-wrap">
           {design.colorPalette.map((color, i) => (
             <div
               key={i}
-              title={color}
-              className="w-8 h-8 rounded-lg border border-gray-200 shadow-sm cursor-pointer hover:scale-110 transition-transform"
+              title={design.fabrics?.[color] ? fabricLabel(design.fabrics[color]) : color}
+              onClick={() => handleSwatchClick(color)}
+              className={`relative w-8 h-8 rounded-lg border border-gray-200 shadow-sm cursor-pointer hover:scale-110 transition-transform ${
+                (editing ? color === activeColor : color === selectedColor)
+                  ? "ring-2 ring-purple-500 ring-offset-2"
+                  : ""
+              }`}
               style={{ backgroundColor: color }}
-            />
+            >
+              {lockedColors.includes(color) && (
+                <span className="absolute -top-1.5 -right-1.5 text-[10px] leading-none" title="Locked for the next run">
+                  🔒
+                </span>
+              )}
+            </div>
           ))}
         </div>
+
+        {/* Palette Editor */}
+        {canEdit && !editing && selectedColor && (
+          <div className="mt-3 p-3 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={draftColor}
+                onChange={(e) => setDraftColor(e.target.value)}
+                className="w-9 h-9 p-0.5 bg-white border border-gray-200 rounded-lg cursor-pointer"
+              />
+              <input
+                type="text"
+                defaultValue={draftColor}
+                key={draftColor}
+                onBlur={(e) => /^#[0-9a-f]{6}$/i.test(e.target.value) && setDraftColor(e.target.value.toLowerCase())}
+                onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                className="w-24 px-2 py-1.5 text-sm font-mono text-gray-700 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+              />
+              <button
+                type="button"
+                onClick={() => replaceSelectedColor(toDesignColor(design, draftColor))}
+                className="px-3 py-1.5 text-xs font-medium bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+              >
+                Apply
+              </button>
+              {onLockedColorsChange && (
+                <button
+                  type="button"
+                  onClick={() => toggleLock(selectedColor)}
+                  title="Keep this exact color when regenerating"
+                  className={`ml-auto px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                    lockedColors.includes(selectedColor)
+                      ? "bg-purple-600 text-white"
+                      : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-100"
+                  }`}
+                >
+                  {lockedColors.includes(selectedColor) ? "🔒 Locked" : "🔓 Lock"}
+                </button>
+              )}
+            </div>
+            {design.colorPalette.length > 1 && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500">Merge into</span>
+                {design.colorPalette
+                  .filter((color) => color !== selectedColor)
+                  .map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => replaceSelectedColor(color)}
+                      title={`Merge into ${design.fabrics?.[color] ? fabricLabel(design.fabrics[color]) : color}`}
+                      className="w-5 h-5 rounded border border-gray-200 hover:scale-110 transition-transform"
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
+        {design.fabrics && (
+          <ul className="mt-3 space-y-1">
+            {design.colorPalette.map((color) => {
+              const fabric = design.fabrics?.[color];
+              if (!fabric) return null;
+              return (
+                <li key={color} className="flex items-center gap-2 text-xs text-gray-600">
+                  <span
+                    className="w-3 h-3 rounded border border-gray-200 flex-shrink-0"
+                    style={{ backgroundColor: color }}
+                  />
+                  <span className="font-medium text-gray-800">{fabric.name}</span>
+                  <span className="text-gray-400">
+                    {fabric.manufacturer} · {fabric.sku}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
       </div>
 
       {/* Fabric Size */}
@@ -137,6 +517,7 @@ export const ResultDisplayComponent = ({
               fabricData: design.fabricData,
               gridSize: { width: design.gridWidth, height: design.gridHeight },
               shapeType: design.shapeType,
+              seed: design.seed,
               sampleShape: design.shapes[0],
             },
             null,
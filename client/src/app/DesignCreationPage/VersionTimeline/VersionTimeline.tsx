@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import type { DesignVersion } from "@/app/util/projectStore";
+
+type VersionTimelineProps = {
+  /** Oldest first */
+  versions: DesignVersion[];
+  currentVersionId: string | null;
+  starredVersionId: string | null;
+  /** SVG on screen, compared against the picked version */
+  currentSvg: string | null;
+  onRestore: (id: string) => void;
+  /** Pass null to unstar */
+  onStar: (id: string | null) => void;
+};
+
+const svgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const describe = (version: DesignVersion) =>
+  `${version.design.shapeType} • ${version.design.colorPalette.length} colors • seed ${version.settings.seed ?? "–"}`;
+
+export const VersionTimeline = ({
+  versions,
+  currentVersionId,
+  starredVersionId,
+  currentSvg,
+  onRestore,
+  onStar,
+}: VersionTimelineProps) => {
+  // Version shown next to the current design
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const comparing = versions.find((v) => v.id === comparingId);
+
+  if (versions.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-4 mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-gray-900">Versions</h2>
+        <span className="text-xs text-gray-500">
+          {starredVersionId ? "★ marks the version used for the final result" : "Star a version to use it for the final result"}
+        </span>
+      </div>
+
+      {/* Timeline Strip */}
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {versions.map((version, i) => {
+          const isCurrent = version.id === currentVersionId;
+          const isStarred = version.id === starredVersionId;
+          return (
+            <div key={version.id} className="flex-shrink-0 w-28">
+              <button
+                type="button"
+                onClick={() => setComparingId(version.id === comparingId ? null : version.id)}
+                title={`${describe(version)}\n${new Date(version.createdAt).toLocaleString()}`}
+                className={`relative w-28 h-20 rounded-lg border bg-gray-50 overflow-hidden flex items-center justify-center transition-all ${
+                  isCurrent
+                    ? "border-purple-500 ring-2 ring-purple-300"
+                    : version.id === comparingId
+                      ? "border-purple-300"
+                      : "border-gray-200 hover:border-gray-300"
+                }`}
+              >
+                <img src={svgDataUrl(version.svg)} alt={`Version ${i + 1}`} className="max-w-full max-h-full object-contain" />
+                {isStarred && <span className="absolute top-1 right-1 text-yellow-500 text-sm leading-none">★</span>}
+              </button>
+              <div className="mt-1 flex items-center justify-between">
+                <span className={`text-xs ${isCurrent ? "font-semibold text-purple-600" : "text-gray-500"}`}>
+                  v{i + 1}
+                  {isCurrent && " • current"}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onStar(isStarred ? null : version.id)}
+                  title={isStarred ? "Unstar" : "Use for the final result"}
+                  className={`text-sm leading-none ${isStarred ? "text-yellow-500" : "text-gray-300 hover:text-yellow-500"}`}
+                >
+                  ★
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Compare Panel */}
+      {comparing && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs font-medium text-gray-700 mb-1">Current</p>
+              <div className="aspect-[4/3] bg-gray-50 rounded-lg border border-gray-200 flex items-center justify-center overflow-hidden">
+                {currentSvg ? (
+                  <img src={svgDataUrl(currentSvg)} alt="Current design" className="max-w-full max-h-full object-contain" />
+                ) : (
+                  <span className="text-xs text-gray-400">No design</span>
+                )}
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-gray-700 mb-1">
+                v{versions.indexOf(comparing) + 1} • {new Date(comparing.createdAt).toLocaleString()}
+              </p>
+              <div className="aspect-[4/3] bg-gray-50 rounded-lg border border-gray-200 flex items-center justify-center overflow-hidden">
+                <img src={svgDataUrl(comparing.svg)} alt="Compared version" className="max-w-full max-h-full object-contain" />
+              </div>
+            </div>
+          </div>
+          <div className="mt-3 flex items-center justify-between gap-3">
+            <span className="text-xs text-gray-500 truncate">{describe(comparing)}</span>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                type="button"
+                onClick={() => setComparingId(null)}
+                className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Close
+              </button>
+              <button
+                type="button"
+                disabled={comparing.id === currentVersionId}
+                onClick={() => {
+                  onRestore(comparing.id);
+                  setComparingId(null);
+                }}
+                className="px-3 py-1.5 text-xs font-semibold text-white bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,107 +1,193 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { fetchImageProviders, generateImageService } from "@/app/util/generateImageService";
 
 const PROMPT_STORAGE_KEY = "art-quilt-user-prompt";
 
-type GeneratedImage = {
-  id: string;
+/** Variants shown per provider page */
+const PAGE_SIZE = 4;
+/** Most images side by side in the compare view */
+const MAX_COMPARE = 4;
+
+/** Tile colors, assigned to providers in display order */
+const ACCENTS = [
+  { label: "bg-green-500", spinner: "border-t-green-500", border: "border-green-200 hover:border-green-400" },
+  { label: "bg-purple-500", spinner: "border-t-purple-500", border: "border-purple-200 hover:border-purple-400" },
+  { label: "bg-blue-500", spinner: "border-t-blue-500", border: "border-blue-200 hover:border-blue-400" },
+  { label: "bg-amber-500", spinner: "border-t-amber-500", border: "border-amber-200 hover:border-amber-400" },
+];
+const ORIGINAL_ACCENT = { label: "bg-gray-500", spinner: "border-t-gray-500", border: "border-gray-200 hover:border-gray-400" };
+
+type Variant = {
+  key: string;
   src: string;
+  seed?: number;
+};
+
+/** Everything one provider has generated since the lightbox opened */
+type ProviderGallery = {
+  id: string;
   label: string;
   model?: string;
-  loading?: boolean;
+  /** Whether "more like this" can vary a variant's seed */
+  seeded: boolean;
+  /** Whether "more like this" can refine a variant's image instead */
+  refines: boolean;
+  variants: Variant[];
+  /** Variants still being generated, shown as placeholders */
+  pending: number;
   error?: string;
+  page: number;
+  /** The photo being refined, shown next to the results; nothing to generate */
+  original?: boolean;
 };
 
 export type ImageSelectionLightboxProps = {
   isOpen: boolean;
   onClose: () => void;
   onSelect: (base64: string) => void;
+  /** Variants to request from each provider */
+  variantCount?: number;
+  /** Style preset added to the prompt */
+  stylePresetId?: string | null;
+  /** Uploaded photo to refine instead of generating from the prompt */
+  sourceImage?: string | null;
 };
 
 export function ImageSelectionLightbox({
   isOpen,
   onClose,
   onSelect,
+  variantCount = 4,
+  stylePresetId = null,
+  sourceImage = null,
 }: ImageSelectionLightboxProps) {
-  const [images, setImages] = useState<GeneratedImage[]>([
-    { id: "openai", src: "", label: "OpenAI DALL-E 3", loading: true },
-    { id: "imagen", src: "", label: "Google Imagen 4", loading: true },
-  ]);
+  // One gallery per enabled provider
+  const [galleries, setGalleries] = useState<ProviderGallery[]>([]);
   const [generating, setGenerating] = useState(false);
+  const [providerError, setProviderError] = useState<string | null>(null);
+  const [enlargedKey, setEnlargedKey] = useState<string | null>(null);
+  const [compareKeys, setCompareKeys] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  // Requests from an earlier opening are ignored when they complete
+  const sessionRef = useRef(0);
+  const promptRef = useRef<string | null>(null);
+  const nextKeyRef = useRef(0);
+
+  const updateGallery = useCallback((id: string, update: (gallery: ProviderGallery) => ProviderGallery) => {
+    setGalleries((prev) => prev.map((gallery) => (gallery.id === id ? update(gallery) : gallery)));
+  }, []);
+
+  // Add `count` placeholders to a provider's gallery and fill them in when
+  // its images arrive. A variation seed or source image makes them close
+  // to an earlier variant.
+  const requestVariants = useCallback(
+    async (id: string, count: number, like: { variationOf?: number; source?: string } = {}) => {
+      const prompt = promptRef.current;
+      const session = sessionRef.current;
+      if (prompt === null) return;
+
+      updateGallery(id, (gallery) => ({
+        ...gallery,
+        pending: gallery.pending + count,
+        error: undefined,
+        // Show the page the new variants start on
+        page: Math.floor(gallery.variants.length / PAGE_SIZE),
+      }));
+
+      const result = await generateImageService(prompt, id, {
+        count,
+        variationOf: like.variationOf,
+        stylePreset: stylePresetId,
+        source: like.source ?? sourceImage ?? undefined,
+      });
+      if (session !== sessionRef.current) return;
+
+      const added = (result.success && result.images) || [];
+      const firstKey = nextKeyRef.current;
+      nextKeyRef.current += added.length;
+      updateGallery(id, (gallery) => ({
+        ...gallery,
+        model: result.model ?? gallery.model,
+        variants: [...gallery.variants, ...added.map(({ src, seed }, i) => ({ key: `${id}-${firstKey + i}`, src, seed }))],
+        pending: gallery.pending - count,
+        error: result.success ? undefined : result.error || "Failed to generate",
+      }));
+    },
+    [updateGallery, stylePresetId, sourceImage]
+  );
 
   // Generate images when lightbox opens
   useEffect(() => {
     if (!isOpen) return;
 
-    const prompt = sessionStorage.getItem(PROMPT_STORAGE_KEY);
-    if (!prompt) return;
+    // Refining works without a prompt; generating needs one
+    const prompt = sessionStorage.getItem(PROMPT_STORAGE_KEY) ?? "";
+    if (!prompt && !sourceImage) return;
 
+    const session = ++sessionRef.current;
+    promptRef.current = prompt;
     setGenerating(true);
-    setImages([
-      { id: "openai", src: "", label: "OpenAI DALL-E 3", loading: true },
-      { id: "imagen", src: "", label: "Google Imagen 4", loading: true },
-    ]);
-
-    // Generate from both providers in parallel
-    const generateImage = async (
-      provider: "openai" | "imagen",
-      label: string
-    ): Promise<GeneratedImage> => {
-      try {
-        const response = await fetch("/api/generate-image", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ prompt, provider }),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok || data.error) {
-          return {
-            id: provider,
-            src: "",
-            label,
-            error: data.error || "Failed to generate",
-          };
-        }
+    setGalleries([]);
+    setProviderError(null);
+    setEnlargedKey(null);
+    setCompareKeys([]);
+    setComparing(false);
 
-        return {
-          id: provider,
-          src: data.image,
-          label,
-          model: data.model,
-        };
-      } catch (err) {
-        return {
-          id: provider,
-          src: "",
-          label,
-          error: err instanceof Error ? err.message : "Network error",
-        };
-      }
-    };
+    fetchImageProviders()
+      .then(async (enabled) => {
+        if (session !== sessionRef.current) return;
+        const providers = sourceImage ? enabled.filter(({ capabilities }) => capabilities.imageToImage) : enabled;
+        if (providers.length === 0) {
+          setProviderError(
+            sourceImage
+              ? "None of the enabled image providers can refine photos."
+              : "No image providers are enabled on the server."
+          );
+          return;
+        }
+        setGalleries([
+          ...(sourceImage
+            ? [{
+                id: "original",
+                label: "Original",
+                seeded: false,
+                refines: false,
+                variants: [{ key: "original", src: sourceImage }],
+                pending: 0,
+                page: 0,
+                original: true,
+              }]
+            : []),
+          ...providers.map(({ id, label, capabilities }) => ({
+            id,
+            label,
+            seeded: capabilities.seed,
+            refines: capabilities.imageToImage,
+            variants: [],
+            pending: 0,
+            page: 0,
+          })),
+        ]);
 
-    // Update images as they complete (don't wait for both)
-    generateImage("openai", "OpenAI DALL-E 3").then((result) => {
-      setImages((prev) =>
-        prev.map((img) => (img.id === "openai" ? result : img))
-      );
-    });
+        // Generate from all providers in parallel; each gallery fills in as
+        // its images arrive
+        await Promise.all(providers.map(({ id }) => requestVariants(id, variantCount)));
+      })
+      .catch((err) => {
+        if (session === sessionRef.current) {
+          setProviderError(err instanceof Error ? err.message : "Network error");
+        }
+      })
+      .finally(() => {
+        if (session === sessionRef.current) setGenerating(false);
+      });
+  }, [isOpen, variantCount, sourceImage, requestVariants]);
 
-    generateImage("imagen", "Google Imagen 4").then((result) => {
-      setImages((prev) =>
-        prev.map((img) => (img.id === "imagen" ? result : img))
-      );
-    });
-
-    // Set generating to false after a reasonable time
-    Promise.all([
-      generateImage("openai", "OpenAI DALL-E 3"),
-      generateImage("imagen", "Google Imagen 4"),
-    ]).then(() => {
-      setGenerating(false);
-    });
+  // Drop late results once the lightbox closes
+  useEffect(() => {
+    if (!isOpen) sessionRef.current++;
   }, [isOpen]);
 
   const handleSelect = useCallback(
@@ -112,12 +198,46 @@ export function ImageSelectionLightbox({
     [onSelect, onClose]
   );
 
+  const toggleCompare = useCallback((key: string) => {
+    setCompareKeys((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : prev.length < MAX_COMPARE ? [...prev, key] : prev
+    );
+  }, []);
+
+  // Vary the variant's seed where the provider reports one, else refine
+  // the variant's image; canMoreLikeThis says whether either works
+  const handleMoreLikeThis = useCallback(
+    (gallery: ProviderGallery, variant: Variant) => {
+      setEnlargedKey(null);
+      setComparing(false);
+      requestVariants(
+        gallery.id,
+        variantCount,
+        gallery.seeded && variant.seed !== undefined ? { variationOf: variant.seed } : { source: variant.src }
+      );
+    },
+    [requestVariants, variantCount]
+  );
+
+  const handleGenerateMore = useCallback(
+    (gallery: ProviderGallery) => {
+      requestVariants(gallery.id, variantCount);
+    },
+    [requestVariants, variantCount]
+  );
+
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      if (!isOpen) return;
-      if (e.key === "Escape") onClose();
+      if (!isOpen || e.key !== "Escape") return;
+      // Step back to the gallery before closing
+      if (enlargedKey || comparing) {
+        setEnlargedKey(null);
+        setComparing(false);
+      } else {
+        onClose();
+      }
     },
-    [isOpen, onClose]
+    [isOpen, onClose, enlargedKey, comparing]
   );
 
   useEffect(() => {
@@ -127,7 +247,14 @@ export function ImageSelectionLightbox({
 
   if (!isOpen) return null;
 
-  const hasAnyImage = images.some((img) => img.src);
+  const hasAnyImage = galleries.some((gallery) => !gallery.original && gallery.variants.length > 0);
+  const allVariants = galleries.flatMap((gallery, index) =>
+    gallery.variants.map((variant) => ({ gallery, index, variant }))
+  );
+  const enlarged = allVariants.find(({ variant }) => variant.key === enlargedKey);
+  const compared = compareKeys
+    .map((key) => allVariants.find(({ variant }) => variant.key === key))
+    .filter((entry) => entry !== undefined);
 
   return (
     <div
@@ -140,7 +267,7 @@ export function ImageSelectionLightbox({
       }}
     >
       <div
-        className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-auto"
+        className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-auto"
         onClick={(e) => e.stopPropagation()}
       >
         <div className="p-6 lg:p-8">
@@ -151,12 +278,20 @@ export function ImageSelectionLightbox({
                 id="lightbox-title"
                 className="text-xl font-bold text-gray-900"
               >
-                {generating && !hasAnyImage ? "Generating Images..." : "Choose Your Image"}
+                {generating && !hasAnyImage
+                  ? sourceImage
+                    ? "Refining Your Photo..."
+                    : "Generating Images..."
+                  : sourceImage
+                  ? "Original or Refined?"
+                  : "Choose Your Image"}
               </h2>
               <p className="text-gray-500 text-sm mt-1">
                 {generating && !hasAnyImage
-                  ? "Please wait while we create designs from both AI models"
-                  : "Select one of the AI-generated images to use as your base"}
+                  ? sourceImage
+                    ? "Please wait while each AI model simplifies your photo"
+                    : "Please wait while we create designs from each AI model"
+                  : "Click an image to enlarge it, or pick a few to compare side by side"}
               </p>
             </div>
             <button
@@ -170,69 +305,265 @@ export function ImageSelectionLightbox({
             </button>
           </div>
 
-          {/* Image Grid */}
-          <div className="grid md:grid-cols-2 gap-6 mb-6">
-            {images.map(({ id, src, label, model, loading, error }) => (
-              <div key={id} className="flex flex-col">
-                {/* Model Label */}
-                <div
-                  className={`py-2 px-4 rounded-t-xl text-center ${
-                    id === "openai"
-                      ? "bg-green-500"
-                      : "bg-purple-500"
-                  }`}
+          {providerError && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-600 text-sm" role="alert">
+                {providerError}
+              </p>
+            </div>
+          )}
+
+          {enlarged ? (
+            /* Enlarged View */
+            <div className="flex flex-col gap-4 mb-6">
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => setEnlargedKey(null)}
+                  className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
                 >
-                  <span className="text-sm font-semibold text-white uppercase tracking-wide">
-                    {model || label}
-                  </span>
-                </div>
-
-                {loading ? (
-                  <div className="flex flex-col items-center justify-center h-72 bg-gray-50 rounded-b-xl border-2 border-t-0 border-gray-200">
-                    <div
-                      className={`w-12 h-12 border-4 border-gray-200 rounded-full animate-spin ${
-                        id === "openai" ? "border-t-green-500" : "border-t-purple-500"
-                      }`}
-                    />
-                    <p className="mt-4 text-gray-500 text-sm">Generating...</p>
-                  </div>
-                ) : error ? (
-                  <div className="flex flex-col items-center justify-center h-72 bg-red-50 rounded-b-xl border-2 border-t-0 border-red-200 p-6 text-center">
-                    <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mb-3">
-                      <svg className="w-6 h-6 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                      </svg>
-                    </div>
-                    <p className="text-red-600 text-sm">{error}</p>
-                  </div>
-                ) : (
+                  ← Back to gallery
+                </button>
+                <span className="text-sm font-semibold text-gray-700">
+                  {enlarged.gallery.model || enlarged.gallery.label}
+                </span>
+              </div>
+              <img
+                src={enlarged.variant.src}
+                alt={`Generated by ${enlarged.gallery.label}`}
+                className="w-full max-h-[60vh] object-contain rounded-xl bg-gray-50"
+              />
+              <div className="flex flex-wrap justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => toggleCompare(enlarged.variant.key)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                >
+                  {compareKeys.includes(enlarged.variant.key) ? "Remove from compare" : "Add to compare"}
+                </button>
+                {canMoreLikeThis(enlarged.gallery, enlarged.variant) && (
                   <button
                     type="button"
-                    onClick={() => handleSelect(src)}
-                    className={`relative overflow-hidden rounded-b-xl border-2 border-t-0 transition-all hover:shadow-xl group ${
-                      id === "openai"
-                        ? "border-green-200 hover:border-green-400"
-                        : "border-purple-200 hover:border-purple-400"
-                    }`}
+                    onClick={() => handleMoreLikeThis(enlarged.gallery, enlarged.variant)}
+                    className="px-4 py-2 text-sm font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors"
                   >
+                    ✦ More like this
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleSelect(enlarged.variant.src)}
+                  className="px-4 py-2 text-sm font-semibold text-white bg-purple-600 hover:bg-purple-700 rounded-lg shadow-md transition-colors"
+                >
+                  Use This Image
+                </button>
+              </div>
+            </div>
+          ) : comparing && compared.length > 0 ? (
+            /* Compare View */
+            <div className="flex flex-col gap-4 mb-6">
+              <button
+                type="button"
+                onClick={() => setComparing(false)}
+                className="self-start px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                ← Back to gallery
+              </button>
+              <div className="grid sm:grid-cols-2 gap-4">
+                {compared.map(({ gallery, variant }) => (
+                  <div key={variant.key} className="flex flex-col gap-2">
                     <img
-                      src={src}
-                      alt={`Generated by ${label}`}
-                      className="w-full h-72 object-cover"
+                      src={variant.src}
+                      alt={`Generated by ${gallery.label}`}
+                      className="w-full aspect-square object-contain rounded-xl bg-gray-50"
                     />
-                    <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors flex items-center justify-center">
-                      <span className="opacity-0 group-hover:opacity-100 transition-opacity bg-white text-gray-900 px-4 py-2 rounded-lg font-semibold shadow-lg">
-                        Select This Image
-                      </span>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-medium text-gray-500 truncate">{gallery.model || gallery.label}</span>
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => toggleCompare(variant.key)}
+                          className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                        >
+                          Remove
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleSelect(variant.src)}
+                          className="px-3 py-1.5 text-xs font-semibold text-white bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors"
+                        >
+                          Use This
+                        </button>
+                      </div>
                     </div>
-                  </button>
-                )}
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
+            </div>
+          ) : (
+            /* Gallery: one paged section per provider */
+            <div className="flex flex-col gap-6 mb-6">
+              {galleries.map((gallery, index) => {
+                const accent = gallery.original ? ORIGINAL_ACCENT : ACCENTS[index % ACCENTS.length];
+                const total = gallery.variants.length + gallery.pending;
+                const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+                const page = Math.min(gallery.page, pages - 1);
+                const tiles = [
+                  ...gallery.variants,
+                  ...Array.from({ length: gallery.pending }, () => null),
+                ].slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+                return (
+                  <section key={gallery.id} className="flex flex-col">
+                    {/* Model Label */}
+                    <div className={`py-2 px-4 rounded-t-xl flex items-center justify-between ${accent.label}`}>
+                      <span className="text-sm font-semibold text-white uppercase tracking-wide">
+                        {gallery.model || gallery.label}
+                      </span>
+                      {pages > 1 && (
+                        <div className="flex items-center gap-2 text-white text-xs font-medium">
+                          <button
+                            type="button"
+                            onClick={() => updateGallery(gallery.id, (g) => ({ ...g, page: page - 1 }))}
+                            disabled={page === 0}
+                            className="w-6 h-6 rounded bg-white/20 hover:bg-white/30 disabled:opacity-40"
+                          >
+                            ‹
+                          </button>
+                          <span>
+                            {page + 1} / {pages}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => updateGallery(gallery.id, (g) => ({ ...g, page: page + 1 }))}
+                            disabled={page === pages - 1}
+                            className="w-6 h-6 rounded bg-white/20 hover:bg-white/30 disabled:opacity-40"
+                          >
+                            ›
+                          </button>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className={`p-3 rounded-b-xl border-2 border-t-0 ${accent.border}`}>
+                      {gallery.error && (
+                        <div className="flex items-center gap-3 mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+                          <div className="w-8 h-8 shrink-0 bg-red-100 rounded-full flex items-center justify-center">
+                            <svg className="w-5 h-5 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                          </div>
+                          <p className="text-red-600 text-sm">{gallery.error}</p>
+                        </div>
+                      )}
+
+                      {tiles.length > 0 && (
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                          {tiles.map((variant, i) =>
+                            variant ? (
+                              <div key={variant.key} className="flex flex-col gap-1.5">
+                                <button
+                                  type="button"
+                                  onClick={() => setEnlargedKey(variant.key)}
+                                  title="Enlarge"
+                                  className={`relative overflow-hidden rounded-lg ring-2 transition-all hover:shadow-lg ${
+                                    compareKeys.includes(variant.key) ? "ring-purple-500" : "ring-transparent"
+                                  }`}
+                                >
+                                  <img
+                                    src={variant.src}
+                                    alt={`Generated by ${gallery.label}`}
+                                    className="w-full aspect-square object-cover"
+                                  />
+                                </button>
+                                <div className="flex gap-1">
+                                  <button
+                                    type="button"
+                                    onClick={() => handleSelect(variant.src)}
+                                    className="flex-1 py-1 text-xs font-semibold text-white bg-purple-600 hover:bg-purple-700 rounded transition-colors"
+                                  >
+                                    Use
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => toggleCompare(variant.key)}
+                                    title={compareKeys.includes(variant.key) ? "Remove from compare" : "Add to compare"}
+                                    className={`px-2 py-1 text-xs font-medium rounded transition-colors ${
+                                      compareKeys.includes(variant.key)
+                                        ? "text-white bg-purple-500"
+                                        : "text-gray-700 bg-gray-100 hover:bg-gray-200"
+                                    }`}
+                                  >
+                                    ⇆
+                                  </button>
+                                  {canMoreLikeThis(gallery, variant) && (
+                                    <button
+                                      type="button"
+                                      onClick={() => handleMoreLikeThis(gallery, variant)}
+                                      title="More like this"
+                                      className="px-2 py-1 text-xs font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 rounded transition-colors"
+                                    >
+                                      ✦
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+                            ) : (
+                              <div
+                                key={`pending-${i}`}
+                                className="flex items-center justify-center aspect-square bg-gray-50 rounded-lg border border-gray-200"
+                              >
+                                <div className={`w-8 h-8 border-4 border-gray-200 rounded-full animate-spin ${accent.spinner}`} />
+                              </div>
+                            )
+                          )}
+                        </div>
+                      )}
+
+                      {!gallery.original && (
+                        <div className="flex justify-end mt-3">
+                          <button
+                            type="button"
+                            onClick={() => handleGenerateMore(gallery)}
+                            className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                          >
+                            + Generate more
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </section>
+                );
+              })}
+            </div>
+          )}
 
           {/* Footer */}
-          <div className="flex justify-end">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              {compareKeys.length > 0 && !comparing && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEnlargedKey(null);
+                      setComparing(true);
+                    }}
+                    disabled={compareKeys.length < 2}
+                    className="px-4 py-2.5 text-sm font-semibold text-white bg-purple-600 hover:bg-purple-700 disabled:bg-purple-300 rounded-lg transition-colors"
+                  >
+                    Compare {compareKeys.length}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setCompareKeys([])}
+                    className="px-3 py-2.5 text-sm font-medium text-gray-600 hover:text-gray-800"
+                  >
+                    Clear
+                  </button>
+                </>
+              )}
+            </div>
             <button
               type="button"
               onClick={onClose}
@@ -246,3 +577,7 @@ export function ImageSelectionLightbox({
     </div>
   );
 }
+
+function canMoreLikeThis(gallery: ProviderGallery, variant: Variant): boolean {
+  return !gallery.original && ((gallery.seeded && variant.seed !== undefined) || gallery.refines);
+}
@@ -4,7 +4,7 @@
  * Image selection is implemented as a lightbox on the Upload page, not as a separate route.
  * See ImageSelectionLightbox and UploadPage: after the user creates a prompt and clicks
  * "Generate from prompt", the lightbox shows mock LLM results; the user picks one and it
- * is stored (base64) in localStorage and shown where the upload area was.
+ * is stored (base64) in the current project and shown where the upload area was.
  *
  * /FROMGROUP
  * * style : pixelate | triangle | hexagaon
@@ -4,6 +4,7 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import heroImage from "@/assets/landing/hero-image.png";
 import backgroundImage from "@/assets/landing/background.png";
+import { startNewProject } from "@/app/util/projectStore";
 
 /**
  * Landing page component containing meta information about the project
@@ -13,13 +14,11 @@ import backgroundImage from "@/assets/landing/background.png";
 export default function LandingPage() {
   const router = useRouter();
 
-  const handleStartCreating = () => {
-    // Clear any existing image data when starting fresh
+  const handleStartCreating = async () => {
+    // Start a new project; earlier designs stay in My Projects
     if (typeof window !== "undefined") {
-      localStorage.removeItem("art-quilt-upload-image");
-      localStorage.removeItem("art-quilt-svg");
-      localStorage.removeItem("art-quilt-design");
       sessionStorage.removeItem("art-quilt-user-prompt");
+      await startNewProject().catch(() => {});
     }
     router.push("/upload");
   };
@@ -42,6 +41,9 @@ export default function LandingPage() {
               <a href="#how-it-works" className="text-gray-700 hover:text-purple-600 transition-colors font-medium">
                 How It Works
               </a>
+              <a href="/projects" className="text-gray-700 hover:text-purple-600 transition-colors font-medium">
+                My Projects
+              </a>
               <button
                 onClick={handleStartCreating}
                 className="px-4 py-2 bg-purple-600 text-white text-sm font-semibold rounded-lg shadow-md hover:bg-purple-700 transition-colors"
@@ -0,0 +1,217 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  renameProject,
+  setCurrentProjectId,
+  startNewProject,
+  type Project,
+} from "@/app/util/projectStore";
+
+/**
+ * Saved projects: reopen, rename, duplicate or delete them
+ */
+
+export default function ProjectsPage() {
+  const router = useRouter();
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Project whose name is being edited
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch {
+      setError("Could not open your projects.");
+      setProjects([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    refresh();
+  }, [refresh]);
+
+  const handleOpen = useCallback(
+    (project: Project) => {
+      setCurrentProjectId(project.id);
+      router.push(project.image || project.design ? "/designcreation" : "/upload");
+    },
+    [router]
+  );
+
+  const handleNew = useCallback(async () => {
+    await startNewProject().catch(() => {});
+    router.push("/upload");
+  }, [router]);
+
+  const handleRename = useCallback(
+    async (id: string, name: string) => {
+      setRenamingId(null);
+      await renameProject(id, name).catch(() => setError("Could not rename the project."));
+      refresh();
+    },
+    [refresh]
+  );
+
+  const handleDuplicate = useCallback(
+    async (id: string) => {
+      await duplicateProject(id).catch(() => setError("Could not duplicate the project."));
+      refresh();
+    },
+    [refresh]
+  );
+
+  const handleDelete = useCallback(
+    async (project: Project) => {
+      if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+      await deleteProject(project.id).catch(() => setError("Could not delete the project."));
+      refresh();
+    },
+    [refresh]
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-white/95 backdrop-blur-sm border-b border-gray-200 shadow-sm">
+        <nav className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <a href="/" className="text-2xl font-bold text-gray-900 hover:text-purple-600 transition-colors">
+              ArtQuilt
+            </a>
+          </div>
+        </nav>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Page Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">My Projects</h1>
+            <p className="text-gray-600 mt-1">Pick up where you left off</p>
+          </div>
+          <button
+            type="button"
+            onClick={handleNew}
+            className="px-4 py-2 text-sm font-semibold text-white bg-purple-600 rounded-lg shadow-md hover:bg-purple-700 transition-colors"
+          >
+            New Project
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm" role="alert">
+              {error}
+            </p>
+          </div>
+        )}
+
+        {projects && projects.length === 0 && (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-12 text-center">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">No Projects Yet</h2>
+            <p className="text-gray-500">Designs you create are saved here automatically</p>
+          </div>
+        )}
+
+        {projects && projects.length > 0 && (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {projects.map((project) => (
+              <div
+                key={project.id}
+                className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden flex flex-col"
+              >
+                <button
+                  type="button"
+                  onClick={() => handleOpen(project)}
+                  className="aspect-[4/3] bg-gray-50 border-b border-gray-100 flex items-center justify-center overflow-hidden hover:opacity-90 transition-opacity"
+                >
+                  {project.svg ? (
+                    <img
+                      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(project.svg)}`}
+                      alt={project.name}
+                      className="max-w-full max-h-full object-contain"
+                    />
+                  ) : project.image ? (
+                    <img src={project.image} alt={project.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-sm text-gray-400">No image yet</span>
+                  )}
+                </button>
+
+                <div className="p-4 flex-1 flex flex-col gap-3">
+                  {renamingId === project.id ? (
+                    <input
+                      type="text"
+                      defaultValue={project.name}
+                      autoFocus
+                      onBlur={(e) => handleRename(project.id, e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") e.currentTarget.blur();
+                        if (e.key === "Escape") setRenamingId(null);
+                      }}
+                      className="w-full px-2 py-1 text-sm font-semibold text-gray-900 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-300"
+                    />
+                  ) : (
+                    <h2
+                      className="text-sm font-semibold text-gray-900 truncate cursor-text"
+                      title="Click to rename"
+                      onClick={() => setRenamingId(project.id)}
+                    >
+                      {project.name}
+                    </h2>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {project.design
+                      ? `${project.design.shapeType} • ${project.design.colorPalette.length} colors`
+                      : "No design yet"}
+                    {" • "}
+                    Edited {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+
+                  <div className="mt-auto flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleOpen(project)}
+                      className="flex-1 py-2 text-xs font-semibold text-white bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors"
+                    >
+                      Open
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRenamingId(project.id)}
+                      className="px-3 py-2 text-xs font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDuplicate(project.id)}
+                      className="px-3 py-2 text-xs font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(project)}
+                      className="px-3 py-2 text-xs font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
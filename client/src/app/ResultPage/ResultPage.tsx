@@ -1,32 +1,61 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { QuiltDesign } from "@/app/util/imageProcessing";
+import type { QuiltDesign, ShapeType } from "@/app/util/imageProcessing";
+import { countPiecesByColor, cutPiecesByColor, generateCuttingGuide } from "@/app/util/cuttingGuide";
+import { generatePatternPdf, PAPER_SIZES, type PaperSize } from "@/app/util/patternPdf";
 import {
-  QUILT_DESIGN_STORAGE_KEY,
-  QUILT_SVG_STORAGE_KEY,
-} from "@/app/DesignCreationPage/DesignCreationPage";
+  calculateYardage,
+  DEFAULT_YARDAGE_OPTIONS,
+  FABRIC_WIDTHS_IN,
+  PURCHASE_UNITS,
+  type FabricWidthIn,
+  type PurchaseUnit,
+} from "@/app/util/yardage";
+import { getCurrentProject, resultVersion } from "@/app/util/projectStore";
+
+/** What `fabricData.cellSizeMm` measures for each pattern type */
+const PIECE_SIZE_LABELS: Partial<Record<ShapeType, string>> = {
+  triangle: "Triangle Side",
+  hexagon: "Hexagon Side",
+  hst: "Unit Size",
+  rectangle: "Grid Unit",
+  voronoi: "Reference Size",
+};
 
 export default function ResultPage() {
   const router = useRouter();
   const [design, setDesign] = useState<QuiltDesign | null>(null);
   const [svg, setSvg] = useState<string | null>(null);
+  const [paperSize, setPaperSize] = useState<PaperSize>("a4");
+  const [pdfGenerating, setPdfGenerating] = useState(false);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+  const [widthOfFabricIn, setWidthOfFabricIn] = useState<FabricWidthIn>(DEFAULT_YARDAGE_OPTIONS.widthOfFabricIn);
+  const [purchaseUnit, setPurchaseUnit] = useState<PurchaseUnit>(DEFAULT_YARDAGE_OPTIONS.purchaseUnit);
+
+  const yardage = useMemo(
+    () => (design ? calculateYardage(cutPiecesByColor(design), { widthOfFabricIn, purchaseUnit }) : []),
+    [design, widthOfFabricIn, purchaseUnit]
+  );
 
   useEffect(() => {
     if (typeof window === "undefined") return;
+    let cancelled = false;
 
-    const savedSvg = localStorage.getItem(QUILT_SVG_STORAGE_KEY);
-    const savedDesign = localStorage.getItem(QUILT_DESIGN_STORAGE_KEY);
-
-    if (savedSvg) setSvg(savedSvg);
-    if (savedDesign) {
-      try {
-        setDesign(JSON.parse(savedDesign));
-      } catch {
-        // Ignore parse errors
-      }
-    }
+    getCurrentProject()
+      .then((project) => {
+        const version = project && resultVersion(project);
+        if (cancelled || !version) return;
+        setSvg(version.svg);
+        setDesign(version.design);
+      })
+      .catch(() => {
+        // Shown as "No Design Found"
+      });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   const handleDownloadSvg = useCallback(() => {
@@ -42,7 +71,7 @@ export default function ResultPage() {
 
   const handleDownloadCuttingGuide = useCallback(() => {
     if (!design) return;
-    const guide = generateCuttingGuide(design);
+    const guide = generateCuttingGuide(design, { widthOfFabricIn, purchaseUnit });
     const blob = new Blob([guide], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -50,7 +79,26 @@ export default function ResultPage() {
     a.download = "cutting-guide.txt";
     a.click();
     URL.revokeObjectURL(url);
-  }, [design]);
+  }, [design, widthOfFabricIn, purchaseUnit]);
+
+  const handleDownloadPdf = useCallback(async () => {
+    if (!design) return;
+    setPdfGenerating(true);
+    setPdfError(null);
+    try {
+      const blob = await generatePatternPdf(design, { paperSize });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `quilt-pattern-${paperSize}.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setPdfError(err instanceof Error ? err.message : "PDF generation failed");
+    } finally {
+      setPdfGenerating(false);
+    }
+  }, [design, paperSize]);
 
   const handleDownloadJson = useCallback(() => {
     if (!design) return;
@@ -100,10 +148,7 @@ export default function ResultPage() {
   }
 
   // Count pieces by color
-  const colorCounts: Record<string, number> = {};
-  for (const shape of design.shapes) {
-    colorCounts[shape.color] = (colorCounts[shape.color] || 0) + 1;
-  }
+  const colorCounts = countPiecesByColor(design);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
@@ -191,6 +236,52 @@ export default function ResultPage() {
                 JSON Data
               </button>
             </div>
+
+            {/* Print-at-scale PDF */}
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1">
+                <h3 className="font-semibold text-gray-900">Printable Pattern (PDF)</h3>
+                <p className="text-sm text-gray-500">
+                  True-size templates tiled over pages, with registration marks, an assembly map and a test square
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map((size) => (
+                  <button
+                    key={size}
+                    type="button"
+                    onClick={() => setPaperSize(size)}
+                    className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                      paperSize === size
+                        ? "bg-purple-600 text-white"
+                        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    {PAPER_SIZES[size].label}
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={handleDownloadPdf}
+                disabled={pdfGenerating}
+                className={`py-3 px-6 font-semibold rounded-xl transition-all flex items-center justify-center gap-2 ${
+                  pdfGenerating
+                    ? "bg-gray-300 text-white cursor-wait"
+                    : "bg-gray-900 text-white hover:bg-gray-800"
+                }`}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+                </svg>
+                {pdfGenerating ? "Preparing..." : "PDF Pattern"}
+              </button>
+            </div>
+            {pdfError && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-xl">
+                <p className="text-red-600 text-sm">{pdfError}</p>
+              </div>
+            )}
           </div>
 
           {/* Sidebar */}
@@ -229,7 +320,7 @@ export default function ResultPage() {
                   </span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-green-700">Piece Size</span>
+                  <span className="text-green-700">{PIECE_SIZE_LABELS[design.shapeType] ?? "Piece Size"}</span>
                   <span className="font-semibold">
                     {design.fabricData.cellSizeMm}mm ({(design.fabricData.cellSizeMm / 25.4).toFixed(1)}")
                   </span>
@@ -241,6 +332,65 @@ export default function ResultPage() {
                   </span>
                 </div>
               </div>
+
+              <div className="mt-5 pt-4 border-t border-green-200 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-green-700">Width of Fabric</span>
+                  <div className="flex gap-1">
+                    {FABRIC_WIDTHS_IN.map((width) => (
+                      <button
+                        key={width}
+                        type="button"
+                        onClick={() => setWidthOfFabricIn(width)}
+                        className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                          widthOfFabricIn === width
+                            ? "bg-green-700 text-white"
+                            : "bg-white text-green-800 hover:bg-green-100"
+                        }`}
+                      >
+                        {width}"
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-green-700">Buy In</span>
+                  <div className="flex gap-1">
+                    {(Object.keys(PURCHASE_UNITS) as PurchaseUnit[]).map((unit) => (
+                      <button
+                        key={unit}
+                        type="button"
+                        onClick={() => setPurchaseUnit(unit)}
+                        className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                          purchaseUnit === unit
+                            ? "bg-green-700 text-white"
+                            : "bg-white text-green-800 hover:bg-green-100"
+                        }`}
+                      >
+                        {PURCHASE_UNITS[unit].label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {yardage.map((entry) => (
+                    <div key={entry.color} className="flex items-center gap-3 text-green-900">
+                      <div
+                        className="w-5 h-5 rounded-md border border-green-200 shadow-sm flex-shrink-0"
+                        style={{ backgroundColor: entry.color }}
+                      />
+                      <span className="flex-1 text-xs text-green-700">
+                        {entry.strips.reduce((sum, s) => sum + s.stripCount, 0)} strips
+                      </span>
+                      <span className="font-semibold">{entry.purchaseLabel}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-green-700">
+                  Includes {DEFAULT_YARDAGE_OPTIONS.selvageMm}mm selvage per side and{" "}
+                  {DEFAULT_YARDAGE_OPTIONS.shrinkagePercent}% shrinkage. Strip-by-strip cuts are in the cutting guide.
+                </p>
+              </div>
             </div>
 
             {/* Color Breakdown */}
@@ -255,7 +405,18 @@ export default function ResultPage() {
                         className="w-6 h-6 rounded-lg border border-gray-200 shadow-sm flex-shrink-0"
                         style={{ backgroundColor: color }}
                       />
-                      <span className="flex-1 text-xs font-mono text-gray-500 truncate">{color}</span>
+                      {design.fabrics?.[color] ? (
+                        <span className="flex-1 min-w-0">
+                          <span className="block text-sm font-medium text-gray-900 truncate">
+                            {design.fabrics[color].name}
+                          </span>
+                          <span className="block text-xs text-gray-500 truncate">
+                            {design.fabrics[color].manufacturer} · {design.fabrics[color].sku}
+                          </span>
+                        </span>
+                      ) : (
+                        <span className="flex-1 text-xs font-mono text-gray-500 truncate">{color}</span>
+                      )}
                       <span className="font-semibold text-gray-900">{count}</span>
                     </div>
                   ))}
@@ -301,78 +462,3 @@ export default function ResultPage() {
     </div>
   );
 }
-
-/**
- * Generate a human-readable cutting guide
- */
-function generateCuttingGuide(design: QuiltDesign): string {
-  const lines: string[] = [];
-
-  lines.push("═══════════════════════════════════════════════════════════════");
-  lines.push("                    QUILT CUTTING GUIDE");
-  lines.push("═══════════════════════════════════════════════════════════════");
-  lines.push("");
-  lines.push("PATTERN SUMMARY");
-  lines.push("───────────────────────────────────────────────────────────────");
-  lines.push(`Pattern Type:      ${design.shapeType.toUpperCase()}`);
-  lines.push(`Grid Size:         ${design.gridWidth} × ${design.gridHeight}`);
-  lines.push(`Total Pieces:      ${design.shapes.length}`);
-  lines.push(`Colors Used:       ${design.colorPalette.length}`);
-  lines.push("");
-
-  lines.push("FINISHED DIMENSIONS");
-  lines.push("───────────────────────────────────────────────────────────────");
-  lines.push(
-    `Width:             ${Math.round(design.fabricData.totalWidthMm / 10)} cm (${Math.round(design.fabricData.totalWidthMm / 25.4)} inches)`
-  );
-  lines.push(
-    `Height:            ${Math.round(design.fabricData.totalHeightMm / 10)} cm (${Math.round(design.fabricData.totalHeightMm / 25.4)} inches)`
-  );
-  lines.push("");
-
-  lines.push("CUTTING SPECIFICATIONS");
-  lines.push("───────────────────────────────────────────────────────────────");
-  const cutSize = design.fabricData.cellSizeMm + design.fabricData.seamAllowanceMm * 2;
-  lines.push(`Piece size (finished):  ${design.fabricData.cellSizeMm} mm`);
-  lines.push(`Seam allowance:         ${design.fabricData.seamAllowanceMm} mm`);
-  lines.push(`CUT SIZE (with seam):   ${cutSize} mm × ${cutSize} mm`);
-  lines.push(`                        ${(cutSize / 25.4).toFixed(2)}" × ${(cutSize / 25.4).toFixed(2)}"`);
-  lines.push("");
-
-  const colorCounts: Record<string, number> = {};
-  for (const shape of design.shapes) {
-    colorCounts[shape.color] = (colorCounts[shape.color] || 0) + 1;
-  }
-
-  lines.push("FABRIC REQUIREMENTS BY COLOR");
-  lines.push("───────────────────────────────────────────────────────────────");
-  Object.entries(colorCounts)
-    .sort((a, b) => b[1] - a[1])
-    .forEach(([color, count], i) => {
-      const areaPerPiece = cutSize * cutSize;
-      const totalArea = areaPerPiece * count;
-      const totalAreaSqIn = totalArea / (25.4 * 25.4);
-      const fabricYards = totalAreaSqIn / (36 * 44);
-
-      lines.push(
-        `Color ${i + 1}: ${color.padEnd(8)} | ${String(count).padStart(4)} pieces | ~${fabricYards.toFixed(2)} yards`
-      );
-    });
-  lines.push("");
-
-  lines.push("STITCHING ORDER (Row by Row)");
-  lines.push("───────────────────────────────────────────────────────────────");
-  lines.push("1. Cut all pieces with seam allowance");
-  lines.push("2. Organize by row");
-  lines.push("3. Sew pieces in each row left to right");
-  lines.push("4. Press seams in alternating directions per row");
-  lines.push("5. Join rows from top to bottom");
-  lines.push("6. Press final seams");
-  lines.push("");
-
-  lines.push("═══════════════════════════════════════════════════════════════");
-  lines.push(`Generated: ${new Date().toISOString()}`);
-  lines.push("═══════════════════════════════════════════════════════════════");
-
-  return lines.join("\n");
-}
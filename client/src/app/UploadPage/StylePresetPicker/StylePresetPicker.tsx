@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { QUILT_STYLES } from "@/app/DesignCreationPage/FormGroup/FormGroup";
+import { STYLE_PRESETS, getStylePreset } from "@/app/util/stylePresets";
+
+const STORAGE_KEY = "art-quilt-style-preset";
+
+type StylePresetPickerProps = {
+  disabled?: boolean;
+  onPresetChange?: (presetId: string | null) => void;
+};
+
+/**
+ * Quilt style chips shown with the prompt; the choice is kept for the
+ * session like the prompt itself
+ */
+export const StylePresetPicker = ({ disabled = false, onPresetChange }: StylePresetPickerProps) => {
+  const [presetId, setPresetId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored && getStylePreset(stored)) {
+      setPresetId(stored);
+      onPresetChange?.(stored);
+    }
+  }, [onPresetChange]);
+
+  const choose = useCallback(
+    (id: string | null) => {
+      setPresetId(id);
+      if (id) sessionStorage.setItem(STORAGE_KEY, id);
+      else sessionStorage.removeItem(STORAGE_KEY);
+      onPresetChange?.(id);
+    },
+    [onPresetChange]
+  );
+
+  const preset = presetId ? getStylePreset(presetId) : undefined;
+  const shapeLabel = QUILT_STYLES.find(({ value }) => value === preset?.shapeType)?.label;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className={`text-sm font-medium ${disabled ? "text-gray-400" : "text-gray-700"}`}>Quilt style</span>
+      <div className="flex flex-wrap gap-2">
+        {[{ id: null, name: "Any" }, ...STYLE_PRESETS].map(({ id, name }) => (
+          <button
+            key={id ?? "any"}
+            type="button"
+            onClick={() => choose(id)}
+            disabled={disabled}
+            className={`px-3 py-1.5 text-xs font-medium rounded-full transition-colors ${
+              presetId === id
+                ? "bg-purple-600 text-white shadow-sm"
+                : disabled
+                ? "bg-gray-50 text-gray-400 cursor-not-allowed"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      {preset && (
+        <p className="text-xs text-gray-500">
+          {preset.description}. Starts the design with {preset.colorCount} colors
+          {shapeLabel && <> in {shapeLabel}</>}.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -2,13 +2,12 @@
 
 import { useCallback, useEffect, useState } from "react";
 import { useDropzone } from "react-dropzone";
+import { getCurrentProject, saveCurrentProject, startNewProject } from "@/app/util/projectStore";
 
-export const UPLOAD_IMAGE_STORAGE_KEY = "art-quilt-upload-image";
-const STORAGE_KEY = UPLOAD_IMAGE_STORAGE_KEY;
-const MAX_DIMENSION = 1200;
-const JPEG_QUALITY = 0.75;
+const MAX_DIMENSION = 2400;
+const JPEG_QUALITY = 0.9;
 
-/** Resize/compress image so it fits in localStorage (~5MB limit). */
+/** Resize/compress image to keep processing fast and the project small. */
 function compressToDataUrl(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const img = new Image();
@@ -61,23 +60,32 @@ export const UploadComponent = ({ onImageChange }: UploadComponentProps) => {
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) setImageBase64(stored);
-    onImageChange?.(!!stored);
+    let cancelled = false;
+    getCurrentProject()
+      .then((project) => {
+        if (cancelled) return;
+        setImageBase64(project?.image ?? null);
+        onImageChange?.(!!project?.image);
+      })
+      .catch(() => !cancelled && setStorageError("Could not open your projects."));
+    return () => {
+      cancelled = true;
+    };
   }, [onImageChange]);
 
+  // A new image goes into the current project; removing it starts a new one
   const persist = useCallback(
-    (base64: string | null) => {
+    async (base64: string | null) => {
       if (typeof window === "undefined") return;
       setStorageError(null);
       try {
-        if (base64) localStorage.setItem(STORAGE_KEY, base64);
-        else localStorage.removeItem(STORAGE_KEY);
+        if (base64) await saveCurrentProject({ image: base64 });
+        else await startNewProject();
         setImageBase64(base64);
         onImageChange?.(!!base64);
       } catch (e) {
         if (e instanceof DOMException && e.name === "QuotaExceededError") {
-          setStorageError("Image too large to save locally. Try a smaller image.");
+          setStorageError("Not enough storage space left. Delete some projects and try again.");
         } else {
           setStorageError("Could not save image.");
         }
@@ -93,7 +101,7 @@ export const UploadComponent = ({ onImageChange }: UploadComponentProps) => {
       setStorageError(null);
       try {
         const base64 = await compressToDataUrl(file);
-        persist(base64);
+        await persist(base64);
       } catch (e) {
         setStorageError(e instanceof Error ? e.message : "Failed to process image.");
       }
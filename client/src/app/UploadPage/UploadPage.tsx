@@ -1,41 +1,74 @@
 "use client";
 
 import { useRouter } from "next/navigation";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import { ImageSelectionLightbox } from "@/app/ImageSelectionPage/ImageSelectionLightbox";
 import { UploadComponent } from "./UploadComponent/UploadComponent";
-import { UPLOAD_IMAGE_STORAGE_KEY } from "./UploadComponent/UploadComponent";
+import {
+  addVersion,
+  createProject,
+  getCurrentProject,
+  saveCurrentProject,
+  setCurrentProjectId,
+} from "@/app/util/projectStore";
+import { importDesignFile } from "@/app/util/designImport";
+import { DEFAULT_SETTINGS } from "@/app/DesignCreationPage/FormGroup/FormGroup";
 import { UserPromptComponent } from "./UserPromptComponent/UserPromptComponent";
+import { StylePresetPicker } from "./StylePresetPicker/StylePresetPicker";
+import { getStylePreset } from "@/app/util/stylePresets";
+
+/** Range of images requested from each provider */
+const MIN_VARIANTS = 2;
+const MAX_VARIANTS = 8;
 
 export default function UploadPage() {
   const router = useRouter();
   const [hasImage, setHasImage] = useState(false);
   const [hasPrompt, setHasPrompt] = useState(false);
+  const [stylePresetId, setStylePresetId] = useState<string | null>(null);
   const [lightboxOpen, setLightboxOpen] = useState(false);
+  const [variantCount, setVariantCount] = useState(4);
+  // Uploaded photo being refined in the lightbox; null when generating
+  const [refineSource, setRefineSource] = useState<string | null>(null);
   const [uploadKey, setUploadKey] = useState(0);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // Clear stale data on mount
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    // Check if we should reset (coming fresh from landing)
-    const shouldReset = sessionStorage.getItem("art-quilt-fresh-start");
-    if (shouldReset) {
-      localStorage.removeItem(UPLOAD_IMAGE_STORAGE_KEY);
-      localStorage.removeItem("art-quilt-svg");
-      localStorage.removeItem("art-quilt-design");
-      sessionStorage.removeItem("art-quilt-fresh-start");
-      setUploadKey((k) => k + 1);
-    }
+  const openLightbox = useCallback(() => {
+    setRefineSource(null);
+    setLightboxOpen(true);
   }, []);
 
-  const openLightbox = useCallback(() => setLightboxOpen(true), []);
+  // Optional step for uploaded photos: simplify them with an AI model and
+  // pick the original or a refined version
+  const openRefine = useCallback(async () => {
+    const project = await getCurrentProject().catch(() => null);
+    if (!project?.image) return;
+    setRefineSource(project.image);
+    setLightboxOpen(true);
+  }, []);
   const closeLightbox = useCallback(() => setLightboxOpen(false), []);
 
   const handleLightboxSelect = useCallback(
-    (base64: string) => {
+    async (base64: string) => {
       if (typeof window === "undefined") return;
       try {
-        localStorage.setItem(UPLOAD_IMAGE_STORAGE_KEY, base64);
+        // Images made with a preset start the design from its suggestions
+        const preset = stylePresetId ? getStylePreset(stylePresetId) : undefined;
+        if (preset) {
+          const current = await getCurrentProject();
+          await saveCurrentProject({
+            image: base64,
+            settings: {
+              ...DEFAULT_SETTINGS,
+              ...current?.settings,
+              style: preset.shapeType,
+              colorCount: preset.colorCount,
+            },
+          });
+        } else {
+          await saveCurrentProject({ image: base64 });
+        }
         setUploadKey((k) => k + 1);
         setHasImage(true);
         setLightboxOpen(false);
@@ -43,7 +76,31 @@ export default function UploadPage() {
         // quota etc.
       }
     },
-    []
+    [stylePresetId]
+  );
+
+  // Open an exported design as a new project, straight in the editor
+  const handleImport = useCallback(
+    async (file: File | undefined) => {
+      if (!file) return;
+      setImportError(null);
+      try {
+        const { design, svg } = await importDesignFile(file);
+        const settings = {
+          ...DEFAULT_SETTINGS,
+          style: design.shapeType,
+          colorCount: Math.min(10, Math.max(2, design.colorPalette.length)),
+          seed: design.seed ?? null,
+        };
+        const project = await createProject({ name: file.name.replace(/\.(svg|json)$/i, "") });
+        setCurrentProjectId(project.id);
+        await addVersion({ settings, design, svg });
+        router.push("/designcreation");
+      } catch (e) {
+        setImportError(e instanceof Error ? e.message : "Could not import the design.");
+      }
+    },
+    [router]
   );
 
   return (
@@ -56,6 +113,9 @@ export default function UploadPage() {
               ArtQuilt
             </a>
             <div className="flex items-center gap-4">
+              <a href="/projects" className="text-sm font-medium text-gray-600 hover:text-purple-600 transition-colors">
+                My Projects
+              </a>
               <span className="hidden sm:inline text-sm text-gray-500">Step 1 of 3</span>
               <div className="flex gap-1">
                 <div className="w-8 h-1.5 rounded-full bg-purple-600" />
@@ -92,12 +152,37 @@ export default function UploadPage() {
                 </div>
                 <div>
                   <h2 className="text-xl font-semibold text-gray-900">Describe Your Vision</h2>
-                  <p className="text-sm text-gray-500">Generate with AI</p>
+                  <p className="text-sm text-gray-500">{hasImage ? "Refine your photo with AI" : "Generate with AI"}</p>
                 </div>
               </div>
               
-              <UserPromptComponent disabled={hasImage} onPromptChange={setHasPrompt} />
-              
+              <UserPromptComponent refining={hasImage} onPromptChange={setHasPrompt} />
+
+              <div className="mt-6">
+                <StylePresetPicker onPresetChange={setStylePresetId} />
+              </div>
+
+              <div className="mt-6 space-y-2">
+                <div className="flex justify-between items-center">
+                  <label htmlFor="variant-count" className="text-sm font-medium text-gray-700">
+                    Images per AI model
+                  </label>
+                  <span className="text-sm font-bold text-purple-600 bg-purple-50 px-2 py-0.5 rounded">
+                    {variantCount}
+                  </span>
+                </div>
+                <input
+                  id="variant-count"
+                  type="range"
+                  min={MIN_VARIANTS}
+                  max={MAX_VARIANTS}
+                  step={1}
+                  value={variantCount}
+                  onChange={(e) => setVariantCount(Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
+                />
+              </div>
+
               {!hasImage && (
                 <button
                   type="button"
@@ -117,6 +202,26 @@ export default function UploadPage() {
                   </span>
                 </button>
               )}
+
+              {hasImage && (
+                <>
+                  <button
+                    type="button"
+                    onClick={openRefine}
+                    className="mt-6 w-full py-4 px-6 rounded-xl font-semibold text-base transition-all bg-purple-600 text-white hover:bg-purple-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+                  >
+                    <span className="flex items-center justify-center gap-2">
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+                      </svg>
+                      Refine for Quilting
+                    </span>
+                  </button>
+                  <p className="mt-2 text-xs text-gray-500 text-center">
+                    Optional: simplify your photo into bold, quilt-friendly shapes, then pick the original or a refined version
+                  </p>
+                </>
+              )}
             </div>
           </div>
 
@@ -139,6 +244,32 @@ export default function UploadPage() {
                 key={uploadKey}
                 onImageChange={setHasImage}
               />
+
+              {/* Import */}
+              <div className="mt-6 pt-6 border-t border-gray-100 text-center">
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".svg,.json,image/svg+xml,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleImport(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+                <button
+                  type="button"
+                  onClick={() => importInputRef.current?.click()}
+                  className="text-sm font-medium text-purple-600 hover:text-purple-700 transition-colors"
+                >
+                  Import an exported design (.svg or .json)
+                </button>
+                {importError && (
+                  <p className="mt-2 text-sm text-red-600" role="alert">
+                    {importError}
+                  </p>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -174,6 +305,9 @@ export default function UploadPage() {
         isOpen={lightboxOpen}
         onClose={closeLightbox}
         onSelect={handleLightboxSelect}
+        variantCount={variantCount}
+        stylePresetId={stylePresetId}
+        sourceImage={refineSource}
       />
     </div>
   );
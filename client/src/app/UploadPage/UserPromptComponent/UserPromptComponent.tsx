@@ -6,10 +6,12 @@ const STORAGE_KEY = "art-quilt-user-prompt";
 
 type UserPromptComponentProps = {
   disabled?: boolean;
+  /** The prompt guides refining an uploaded photo instead of generating */
+  refining?: boolean;
   onPromptChange?: (hasPrompt: boolean) => void;
 };
 
-export const UserPromptComponent = ({ disabled = false, onPromptChange }: UserPromptComponentProps) => {
+export const UserPromptComponent = ({ disabled = false, refining = false, onPromptChange }: UserPromptComponentProps) => {
   const [prompt, setPrompt] = useState("");
 
   useEffect(() => {
@@ -53,7 +55,13 @@ export const UserPromptComponent = ({ disabled = false, onPromptChange }: UserPr
             else sessionStorage.removeItem(STORAGE_KEY);
           }
         }}
-        placeholder={disabled ? "Image already selected" : "Describe what you want to create… e.g., 'A sunset over mountains with warm orange and purple colors'"}
+        placeholder={
+          disabled
+            ? "Image already selected"
+            : refining
+            ? "Optional: guide the refinement… e.g., 'Keep the red barn, simplify the trees into a few green shapes'"
+            : "Describe what you want to create… e.g., 'A sunset over mountains with warm orange and purple colors'"
+        }
         rows={5}
         disabled={disabled}
         className={`w-full px-4 py-3 text-base rounded-xl border transition-all resize-none focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent ${
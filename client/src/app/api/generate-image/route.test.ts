@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mockProvider } from "@/app/imageProviders/mock";
+import type { GenerateOptions } from "@/app/imageProviders/types";
+import { MAX_SEED } from "@/app/util/random";
+import { GET, POST } from "./route";
+
+const post = (body: unknown) =>
+  POST(new Request("http://localhost/api/generate-image", { method: "POST", body: JSON.stringify(body) }));
+
+/** Options the mock provider was called with, one entry per request */
+function mockCalls(): GenerateOptions[] {
+  return vi.mocked(mockProvider.generate).mock.calls.map(([, options]) => options);
+}
+
+beforeEach(() => {
+  vi.stubEnv("IMAGE_PROVIDERS", "mock");
+  vi.spyOn(mockProvider, "generate").mockImplementation(async (_, { count, seed }) => ({
+    success: true,
+    model: "Mock",
+    images: Array.from({ length: count }, (_, i) => ({
+      src: "data:image/png;base64,AA",
+      seed: seed !== undefined ? seed + i : undefined,
+    })),
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("GET /api/generate-image", () => {
+  it("lists the enabled providers", async () => {
+    const { providers } = await (await GET()).json();
+
+    expect(providers).toEqual([{ id: "mock", label: mockProvider.label, capabilities: mockProvider.capabilities }]);
+  });
+});
+
+describe("POST /api/generate-image", () => {
+  it.each([
+    [3, 3],
+    [2.6, 3],
+    [50, 8],
+    [0, 1],
+    [-4, 1],
+    ["4", 1],
+    [null, 1],
+    [undefined, 1],
+  ])("asks for %s images as %i", async (count, expected) => {
+    const response = await post({ prompt: "sea", provider: "mock", count });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).images).toHaveLength(expected);
+  });
+
+  it.each([
+    [12, 12],
+    [0, 0],
+    [MAX_SEED, MAX_SEED],
+    [MAX_SEED + 1, undefined],
+    [-1, undefined],
+    [1.5, undefined],
+    ["12", undefined],
+    [null, undefined],
+  ])("passes seed %s on as %s", async (seed, expected) => {
+    await post({ prompt: "sea", provider: "mock", seed, variationOf: seed });
+
+    expect(mockCalls()[0]).toMatchObject({ seed: expected, variationOf: expected });
+  });
+
+  it("rejects unknown or disabled providers", async () => {
+    const response = await post({ prompt: "sea", provider: "openai" });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/Unknown or disabled provider/);
+    expect(mockProvider.generate).not.toHaveBeenCalled();
+  });
+
+  it("rejects a missing prompt", async () => {
+    expect((await post({ provider: "mock" })).status).toBe(400);
+    expect((await post({ prompt: 7, provider: "mock" })).status).toBe(400);
+  });
+
+  it("returns provider failures as errors", async () => {
+    vi.mocked(mockProvider.generate).mockResolvedValue({ success: false, error: "Out of credits" });
+    const response = await post({ prompt: "sea", provider: "mock" });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Out of credits" });
+  });
+});
@@ -1,173 +1,121 @@
-import OpenAI from "openai";
-import { GoogleGenAI } from "@google/genai";
+import {
+  generateImages,
+  getEnabledProvider,
+  getEnabledProviders,
+  toProviderInfo,
+} from "@/app/imageProviders/registry";
+import { MAX_SEED } from "@/app/util/random";
+import { applyStylePreset, getStylePreset } from "@/app/util/stylePresets";
+import { checkImageInput, parseDataUrl } from "@/app/util/dataUrl";
 
-// System prompts for quilt-suitable image generation
-const DALLE_PROMPT_PREFIX = `Generate images with the artistic vision and expressive style of a professional quilting artist. Each image should be visually striking and emotionally engaging.
+// The provider list depends on runtime env, so never prerender it
+export const dynamic = "force-dynamic";
 
-CRITICAL REQUIREMENTS:
-- Create bold, simplified compositions with clear, defined shapes and edges
-- Use a limited color palette (approximately 20-32 distinct colors maximum)
-- Avoid fine details, tiny patterns, or intricate textures that cannot be stitched or cut from fabric
-- Focus on strong visual impact through color blocks, geometric shapes, and clear boundaries
-- Ensure high contrast between adjacent areas for visibility and pattern clarity
-- Compositions should be suitable for translation into fabric pieces
+/** Most variants one request may ask a provider for */
+const MAX_VARIANTS = 8;
 
-User Request: `;
+const readSeed = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_SEED ? value : undefined;
 
-const IMAGEN_PROMPT_PREFIX = `Create an art quilt design with the vision of a professional quilting artist. The image should be visually striking and emotionally engaging.
-
-Requirements:
-- Bold, simplified composition with clear shapes and defined edges
-- Limited color palette (20-32 distinct colors maximum)
-- No fine details or intricate textures - only shapes that can be cut from fabric
-- Strong visual impact through color blocks and geometric/organic forms
-- High contrast between adjacent areas
-- Suitable for translation into fabric pieces
-
-Design concept: `;
-
-type GenerateResult = {
-  success: boolean;
-  image?: string;
-  model?: string;
-  error?: string;
-};
+/** Older clients ask for Imagen by its family name */
+const PROVIDER_ALIASES: Record<string, string> = { gemini: "imagen" };
 
 /**
- * Generate image using OpenAI DALL-E 3
+ * List the enabled providers for the image picker
  */
-async function generateWithOpenAI(prompt: string): Promise<GenerateResult> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return { success: false, error: "OPENAI_API_KEY not set" };
-  }
-
-  try {
-    const openai = new OpenAI({ apiKey });
-    const fullPrompt = `${DALLE_PROMPT_PREFIX}${prompt}
-
-Execute this as a quilt-suitable design following all requirements above.`;
-
-    const response = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: fullPrompt,
-      n: 1,
-      size: "1024x1024",
-      quality: "standard",
-      response_format: "b64_json",
-    });
-
-    const imageData = response.data?.[0]?.b64_json;
-    if (!imageData) {
-      return { success: false, error: "No image generated by DALL-E" };
-    }
-
-    return {
-      success: true,
-      image: `data:image/png;base64,${imageData}`,
-      model: "DALL-E 3",
-    };
-  } catch (error) {
-    console.error("OpenAI error:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "OpenAI failed",
-    };
-  }
-}
-
-/**
- * Generate image using Google Imagen 4
- */
-async function generateWithImagen(prompt: string): Promise<GenerateResult> {
-  const apiKey = process.env.GOOGLE_API_KEY;
-  if (!apiKey) {
-    return { success: false, error: "GOOGLE_API_KEY not set" };
-  }
-
-  try {
-    const ai = new GoogleGenAI({ apiKey });
-    const fullPrompt = `${IMAGEN_PROMPT_PREFIX}${prompt}`;
-
-    const response = await ai.models.generateImages({
-      model: "imagen-4.0-generate-001",
-      prompt: fullPrompt,
-      config: {
-        numberOfImages: 1,
-        aspectRatio: "1:1",
-      },
-    });
-
-    const generatedImage = response.generatedImages?.[0];
-    if (!generatedImage?.image?.imageBytes) {
-      return { success: false, error: "No image generated by Imagen" };
-    }
-
-    // imageBytes is already base64 encoded
-    const base64Data = generatedImage.image.imageBytes;
-
-    return {
-      success: true,
-      image: `data:image/png;base64,${base64Data}`,
-      model: "Imagen 4",
-    };
-  } catch (error) {
-    console.error("Imagen error:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Imagen failed",
-    };
-  }
+export async function GET() {
+  return Response.json({ providers: getEnabledProviders().map(toProviderInfo) });
 }
 
 export async function POST(request: Request) {
   try {
-    const { prompt, provider } = await request.json();
+    const { prompt: userPrompt = "", provider, count, seed, variationOf, stylePreset, source } = await request.json();
 
-    if (!prompt || typeof prompt !== "string") {
+    // Refining a source image may do without a prompt
+    if (typeof userPrompt !== "string" || (!userPrompt && source === undefined)) {
       return Response.json(
         { error: "Missing or invalid prompt" },
         { status: 400 }
       );
     }
 
-    // If provider is specified, use that one
-    if (provider === "openai") {
-      const result = await generateWithOpenAI(prompt);
-      if (result.success) {
-        return Response.json(result);
+    if (source !== undefined) {
+      const image = parseDataUrl(source);
+      const imageError = image ? checkImageInput(image) : "Invalid source image";
+      if (imageError) {
+        return Response.json({ error: imageError }, { status: 400 });
       }
-      return Response.json({ error: result.error }, { status: 500 });
     }
 
-    if (provider === "gemini" || provider === "imagen") {
-      const result = await generateWithImagen(prompt);
+    const preset = typeof stylePreset === "string" ? getStylePreset(stylePreset) : undefined;
+    if (stylePreset !== undefined && stylePreset !== null && !preset) {
+      return Response.json(
+        { error: `Unknown style preset: ${String(stylePreset)}` },
+        { status: 400 }
+      );
+    }
+    const prompt = applyStylePreset(userPrompt, preset);
+
+    // If provider is specified, use that one
+    if (provider !== undefined) {
+      const id = typeof provider === "string" ? PROVIDER_ALIASES[provider] ?? provider : "";
+      const selected = getEnabledProvider(id);
+      if (!selected) {
+        return Response.json(
+          { error: `Unknown or disabled provider: ${String(provider)}` },
+          { status: 400 }
+        );
+      }
+      if (source !== undefined && !selected.capabilities.imageToImage) {
+        return Response.json(
+          { error: `${selected.label} cannot refine images` },
+          { status: 400 }
+        );
+      }
+      const result = await generateImages(selected, prompt, {
+        count:
+          typeof count === "number" && Number.isFinite(count)
+            ? Math.min(MAX_VARIANTS, Math.max(1, Math.round(count)))
+            : 1,
+        // Seeds only mean something to providers that honor them
+        seed: selected.capabilities.seed ? readSeed(seed) : undefined,
+        variationOf: selected.capabilities.seed ? readSeed(variationOf) : undefined,
+        source,
+      });
       if (result.success) {
         return Response.json(result);
       }
       return Response.json({ error: result.error }, { status: 500 });
     }
 
-    // Default: try both in parallel for speed, return first success
-    const [openaiResult, imagenResult] = await Promise.all([
-      generateWithOpenAI(prompt),
-      generateWithImagen(prompt),
-    ]);
-
-    // Return OpenAI result if successful
-    if (openaiResult.success) {
-      return Response.json(openaiResult);
+    if (source !== undefined) {
+      return Response.json(
+        { error: "Refining needs a provider" },
+        { status: 400 }
+      );
     }
 
-    // Fallback to Imagen
-    if (imagenResult.success) {
-      return Response.json(imagenResult);
+    // Default: try all enabled providers in parallel for speed, and return
+    // the first success in registry order (one image)
+    const providers = getEnabledProviders();
+    if (providers.length === 0) {
+      return Response.json(
+        { error: "No image providers are enabled" },
+        { status: 500 }
+      );
+    }
+    const results = await Promise.all(providers.map((p) => p.generate(prompt, { count: 1 })));
+    const success = results.find((result) => result.success);
+    if (success) {
+      return Response.json(success);
     }
 
-    // Both failed
+    // All failed
     return Response.json(
       {
-        error: `Both providers failed. OpenAI: ${openaiResult.error}, Imagen: ${imagenResult.error}`,
+        error: `All providers failed. ${providers
+          .map((p, i) => `${p.label}: ${results[i].error}`)
+          .join(", ")}`,
       },
       { status: 500 }
     );
@@ -1,9 +1,19 @@
-import { readFileSync } from "fs";
-import path from "path";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { getSystemPrompt } from "@/app/svgService/svgPrompt";
+import { parseRectGridSvg } from "@/app/svgService/rectSvg";
+import { processImageDataToQuiltSvg } from "@/app/util/imageProcessing";
+import { getFabricCatalog } from "@/app/util/fabricCatalog";
+import { COLOR_SPACES, type ColorSpace } from "@/app/util/colorSpace";
+import { MAX_SEED } from "@/app/util/random";
+import type { VectorizeOptions } from "@/app/util/vectorizeImageService";
+import { checkImageInput, MAX_IMAGE_BYTES, parseDataUrl, type ImageInput } from "@/app/util/dataUrl";
 
-const IMAGE_PATH = path.join(process.cwd(), "src", "assets", "input.JPG");
+/** Grid widths the model can write out in full within its output limit */
+const MIN_GRID_WIDTH = 8;
+const MAX_GRID_WIDTH = 40;
+/** Output tokens per <rect>, with headroom */
+const TOKENS_PER_RECT = 20;
+const MAX_OUTPUT_TOKENS = 65536;
 
 /** Extract raw SVG from model response (handles ```xml / ```svg code blocks). */
 function extractSvgFromResponse(text: string): string {
@@ -14,7 +24,61 @@ function extractSvgFromResponse(text: string): string {
   return text.trim();
 }
 
-export async function POST() {
+const clampInt = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+/**
+ * Keep only well-typed options; anything else falls back to the defaults
+ */
+function readOptions(fields: Record<string, unknown>): VectorizeOptions {
+  const lockedColors = Array.isArray(fields.lockedColors)
+    ? fields.lockedColors.filter((c): c is string => typeof c === "string").slice(0, 10)
+    : [];
+  return {
+    gridWidth: clampInt(fields.gridWidth, MIN_GRID_WIDTH, MAX_GRID_WIDTH, 30),
+    numColors: clampInt(fields.numColors, 2, 10, 6),
+    colorSpace: typeof fields.colorSpace === "string" && fields.colorSpace in COLOR_SPACES
+      ? (fields.colorSpace as ColorSpace)
+      : "rgb",
+    seed: clampInt(fields.seed, 0, MAX_SEED, 0),
+    cellSizeMm: clampInt(fields.cellSizeMm, 5, 200, 25),
+    seamAllowanceMm: typeof fields.seamAllowanceMm === "number" ? Math.min(25, Math.max(0, fields.seamAllowanceMm)) : 6.35,
+    minPieceAreaMm2: clampInt(fields.minPieceAreaMm2, 0, 100000, 0),
+    lockedColors,
+    fabricCatalogId: typeof fields.fabricCatalogId === "string" ? fields.fabricCatalogId : null,
+  };
+}
+
+/**
+ * Read the image and options from multipart form data (an "image" file
+ * plus fields) or JSON (an "image" data URL plus fields)
+ */
+async function readRequest(request: Request): Promise<{ image: ImageInput; options: VectorizeOptions } | string> {
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("image");
+    if (!(file instanceof File)) return "Missing image file";
+    if (file.size > MAX_IMAGE_BYTES) return "Image is too large";
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of form.entries()) {
+      if (key === "image" || typeof value !== "string") continue;
+      fields[key] = key === "lockedColors" || key === "colorSpace" || key === "fabricCatalogId" ? value : Number(value);
+    }
+    fields.lockedColors = form.getAll("lockedColors").filter((c) => typeof c === "string");
+    const data = Buffer.from(await file.arrayBuffer()).toString("base64");
+    return { image: { mimeType: file.type, data }, options: readOptions(fields) };
+  }
+
+  const body = await request.json();
+  if (typeof body !== "object" || body === null) return "Invalid request body";
+  const image = parseDataUrl(body.image);
+  if (!image) return "Missing or invalid image data URL";
+  return { image, options: readOptions(body) };
+}
+
+export async function POST(request: Request) {
   const apiKey = process.env.GOOGLE_API_KEY;
   if (!apiKey) {
     return Response.json(
@@ -23,53 +87,81 @@ export async function POST() {
     );
   }
 
-  let imageBase64: string;
+  let input: Awaited<ReturnType<typeof readRequest>>;
   try {
-    const buffer = readFileSync(IMAGE_PATH);
-    imageBase64 = buffer.toString("base64");
-  } catch (e) {
-    return Response.json(
-      {
-        error: `Failed to read image at ${IMAGE_PATH}: ${(e as Error).message}`,
-      },
-      { status: 500 },
-    );
+    input = await readRequest(request);
+  } catch {
+    return Response.json({ error: "Could not read the request" }, { status: 400 });
+  }
+  if (typeof input === "string") {
+    return Response.json({ error: input }, { status: 400 });
+  }
+  const { image, options } = input;
+  const imageError = checkImageInput(image);
+  if (imageError) {
+    return Response.json({ error: imageError }, { status: 400 });
   }
 
+  const gridWidth = options.gridWidth!;
   const systemPrompt = getSystemPrompt();
   const userPrompt =
-    "Convert this image to a quilting/stitching pattern SVG following the instructions. Use a small grid (e.g. WIDTH=20 or 30) so you can output the full SVG XML in this response—each pixel as its own <rect>. Reply with the complete <svg>...</svg> code.";
+    `Convert this image to a quilting/stitching pattern SVG following the instructions, with WIDTH=${gridWidth} ` +
+    `and at most ${options.numColors} colors. Keep the aspect ratio, at most ${gridWidth * 2} rows. ` +
+    `Use viewBox="0 0 W H" with one <rect width="1" height="1"> per cell and hex fills. ` +
+    `Output only <svg> and <rect> elements, no other elements, styles or comments. ` +
+    "Reply with the complete <svg>...</svg> code.";
 
   const genAI = new GoogleGenerativeAI(apiKey);
   const model = genAI.getGenerativeModel({
     model: "gemini-2.5-pro",
     systemInstruction: systemPrompt,
-    generationConfig: { maxOutputTokens: 4096 },
-  });
-
-  const result = await model.generateContent([
-    { text: userPrompt },
-    {
-      inlineData: {
-        mimeType: "image/jpeg",
-        data: imageBase64,
-      },
+    generationConfig: {
+      maxOutputTokens: Math.min(MAX_OUTPUT_TOKENS, gridWidth * gridWidth * 2 * TOKENS_PER_RECT + 2048),
     },
-  ]);
+  });
 
-  const rawContent = result.response.text();
-  const svg = extractSvgFromResponse(rawContent);
+  let rawContent: string;
+  try {
+    const result = await model.generateContent([{ text: userPrompt }, { inlineData: image }]);
+    rawContent = result.response.text();
+    console.log("Gemini usage:", JSON.stringify(result.response.usageMetadata));
+  } catch (error) {
+    console.error("Gemini error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Vectorizing failed" },
+      { status: 502 },
+    );
+  }
 
-  // Log the full model response as JSON (server console)
-  const responsePayload = {
-    candidates: result.response.candidates,
-    usageMetadata: result.response.usageMetadata,
-    rawContent,
-  };
-  console.log(
-    "Gemini model response (JSON):",
-    JSON.stringify(responsePayload, null, 2),
-  );
+  // The model output is untrusted: only a clean rect grid gets through
+  let grid;
+  try {
+    grid = parseRectGridSvg(extractSvgFromResponse(rawContent), {
+      maxLength: 2_000_000,
+      maxSide: gridWidth * 2,
+      maxUncovered: 0.05,
+    });
+  } catch (error) {
+    return Response.json(
+      { error: `The model returned an unusable SVG: ${(error as Error).message}` },
+      { status: 502 },
+    );
+  }
 
-  return Response.json({ svg, raw: rawContent });
+  // One pixel per cell, so the pixel pipeline keeps the model's grid as-is
+  try {
+    const { svg, design } = await processImageDataToQuiltSvg(grid, {
+      ...options,
+      gridWidth: grid.width,
+      shapeType: "pixel",
+      fabricCatalog: options.fabricCatalogId ? getFabricCatalog(options.fabricCatalogId) : undefined,
+    });
+    return Response.json({ svg, design });
+  } catch (error) {
+    console.error("Quilt pipeline error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Could not turn the traced image into a quilt" },
+      { status: 500 },
+    );
+  }
 }
@@ -0,0 +1,67 @@
+import { GoogleGenAI } from "@google/genai";
+import type { ImageProvider } from "./types";
+
+const IMAGEN_PROMPT_PREFIX = `Create an art quilt design with the vision of a professional quilting artist. The image should be visually striking and emotionally engaging.
+
+Requirements:
+- Bold, simplified composition with clear shapes and defined edges
+- Limited color palette (20-32 distinct colors maximum)
+- No fine details or intricate textures - only shapes that can be cut from fabric
+- Strong visual impact through color blocks and geometric/organic forms
+- High contrast between adjacent areas
+- Suitable for translation into fabric pieces
+
+Design concept: `;
+
+/**
+ * Google Imagen 4, configured with GOOGLE_API_KEY
+ */
+export const imagenProvider: ImageProvider = {
+  id: "imagen",
+  label: "Google Imagen 4",
+  capabilities: { maxImages: 4, seed: false, imageToImage: false },
+
+  isConfigured: () => !!process.env.GOOGLE_API_KEY,
+
+  async generate(prompt, { count }) {
+    const apiKey = process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      return { success: false, error: "GOOGLE_API_KEY not set" };
+    }
+
+    try {
+      const ai = new GoogleGenAI({ apiKey });
+      const fullPrompt = `${IMAGEN_PROMPT_PREFIX}${prompt}`;
+
+      const response = await ai.models.generateImages({
+        model: "imagen-4.0-generate-001",
+        prompt: fullPrompt,
+        config: {
+          numberOfImages: count,
+          aspectRatio: "1:1",
+        },
+      });
+
+      // imageBytes is already base64 encoded
+      const images = (response.generatedImages ?? [])
+        .map((generated) => generated.image?.imageBytes)
+        .filter((bytes): bytes is string => !!bytes)
+        .map((bytes) => ({ src: `data:image/png;base64,${bytes}` }));
+      if (images.length === 0) {
+        return { success: false, error: "No image generated by Imagen" };
+      }
+
+      return {
+        success: true,
+        images,
+        model: "Imagen 4",
+      };
+    } catch (error) {
+      console.error("Imagen error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Imagen failed",
+      };
+    }
+  },
+};
@@ -0,0 +1,121 @@
+import { parseDataUrl } from "@/app/util/dataUrl";
+import type { ImageProvider } from "./types";
+
+/**
+ * Self-hosted model behind an Automatic1111-compatible txt2img/img2img API
+ * (A1111, Forge, SD.Next, or ComfyUI with an A1111 API bridge).
+ *
+ * Configured with:
+ * - LOCAL_IMAGE_API_URL: base URL, e.g. http://127.0.0.1:7860
+ * - LOCAL_IMAGE_LABEL: name shown in the UI (optional)
+ */
+
+/** Stable Diffusion responds better to tag-style prompts than to prose */
+const SD_PROMPT_PREFIX =
+  "art quilt, fabric applique, bold simplified shapes, flat color blocks, clear edges, limited color palette, high contrast, ";
+const SD_NEGATIVE_PROMPT = "photo, photorealistic, fine detail, texture, noise, gradient, text, watermark, signature";
+
+/** How far "more like this" variations may drift from the original */
+const VARIATION_STRENGTH = 0.3;
+
+/** How much of a refined photo is repainted; lower keeps more of it */
+const REFINE_DENOISING = 0.6;
+/** A1111 "resize and fill": keep the whole photo, pad to the square */
+const RESIZE_AND_FILL = 2;
+
+/** Local generation on modest GPUs is slow; give up eventually */
+const REQUEST_TIMEOUT_MS = 180_000;
+
+export const localHttpProvider: ImageProvider = {
+  id: "local",
+  label: process.env.LOCAL_IMAGE_LABEL || "Local Model",
+  capabilities: { maxImages: 8, seed: true, imageToImage: true },
+
+  isConfigured: () => !!process.env.LOCAL_IMAGE_API_URL,
+
+  async generate(prompt, { count, seed, variationOf, source }) {
+    const baseUrl = process.env.LOCAL_IMAGE_API_URL;
+    if (!baseUrl) {
+      return { success: false, error: "LOCAL_IMAGE_API_URL not set" };
+    }
+
+    // Refining sends the photo as the starting point
+    const sourceImage = source ? parseDataUrl(source) : null;
+    if (source && !sourceImage) {
+      return { success: false, error: "Invalid source image" };
+    }
+
+    try {
+      const endpoint = sourceImage ? "/sdapi/v1/img2img" : "/sdapi/v1/txt2img";
+      const response = await fetch(new URL(endpoint, baseUrl), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: `${SD_PROMPT_PREFIX}${prompt}`,
+          negative_prompt: SD_NEGATIVE_PROMPT,
+          width: 1024,
+          height: 1024,
+          steps: 30,
+          batch_size: count,
+          // A1111 numbers batch images seed, seed + 1, ...; variations keep
+          // the original seed and mix in random subseeds
+          seed: variationOf ?? seed ?? -1,
+          ...(variationOf !== undefined && { subseed: -1, subseed_strength: VARIATION_STRENGTH }),
+          ...(sourceImage && {
+            init_images: [sourceImage.data],
+            denoising_strength: REFINE_DENOISING,
+            resize_mode: RESIZE_AND_FILL,
+          }),
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        return { success: false, error: `Local model responded with ${response.status}` };
+      }
+
+      const data = await response.json();
+      const seeds = reportedSeeds(data.info);
+      // Batches may start with a contact-sheet grid, so keep the last `count`
+      const images = (Array.isArray(data.images) ? data.images : [])
+        .filter((image: unknown): image is string => typeof image === "string" && !!image)
+        .slice(-count)
+        .map((image: string, i: number) => ({
+          // A1111 returns bare base64 PNGs
+          src: image.startsWith("data:") ? image : `data:image/png;base64,${image}`,
+          // A variation also depends on its random subseed, so no single
+          // seed reproduces it
+          seed: variationOf !== undefined ? undefined : (seeds[i] ?? (seed !== undefined ? seed + i : undefined)),
+        }));
+      if (images.length === 0) {
+        return { success: false, error: "No image generated by the local model" };
+      }
+
+      return {
+        success: true,
+        images,
+        model: localHttpProvider.label,
+      };
+    } catch (error) {
+      console.error("Local model error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Local model failed",
+      };
+    }
+  },
+};
+
+/**
+ * Seeds A1111 actually used, one per batch image, from the JSON string in
+ * the response's `info`
+ */
+function reportedSeeds(info: unknown): number[] {
+  if (typeof info !== "string") return [];
+  try {
+    const { all_seeds: seeds } = JSON.parse(info);
+    return Array.isArray(seeds) && seeds.every(Number.isInteger) ? seeds : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,91 @@
+import { inflateSync } from "zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mockProvider } from "./mock";
+
+/** Chunks of a PNG file, checking the signature */
+function readPng(src: string): { type: string; data: Buffer }[] {
+  const match = src.match(/^data:image\/png;base64,(.+)$/);
+  expect(match).not.toBeNull();
+  const file = Buffer.from(match![1], "base64");
+  expect([...file.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+  const chunks: { type: string; data: Buffer }[] = [];
+  for (let offset = 8; offset < file.length; ) {
+    const length = file.readUInt32BE(offset);
+    chunks.push({ type: file.toString("ascii", offset + 4, offset + 8), data: file.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+beforeEach(() => {
+  vi.stubEnv("MOCK_IMAGE_DELAY_MS", "0");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("mockProvider", () => {
+  it("paints a valid 512×512 RGB PNG", async () => {
+    const { images } = await mockProvider.generate("a red barn", { count: 1 });
+    const chunks = readPng(images![0].src);
+    const header = chunks.find((chunk) => chunk.type === "IHDR")!.data;
+    const rows = inflateSync(Buffer.concat(chunks.filter((chunk) => chunk.type === "IDAT").map((chunk) => chunk.data)));
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual(["IHDR", "IDAT", "IEND"]);
+    expect(header.readUInt32BE(0)).toBe(512);
+    expect(header.readUInt32BE(4)).toBe(512);
+    expect([...header.subarray(8)]).toEqual([8, 2, 0, 0, 0]);
+    expect(rows.length).toBe(512 * (512 * 3 + 1));
+  });
+
+  it("gives the same image for the same prompt and seed", async () => {
+    const first = await mockProvider.generate("ocean waves", { count: 1, seed: 9 });
+    const again = await mockProvider.generate("ocean waves", { count: 1, seed: 9 });
+    const other = await mockProvider.generate("ocean waves", { count: 1, seed: 10 });
+
+    expect(again.images).toEqual(first.images);
+    expect(other.images![0].src).not.toBe(first.images![0].src);
+  });
+
+  it("numbers the seeds of a batch from the first one", async () => {
+    const batch = await mockProvider.generate("ocean waves", { count: 2, seed: 9 });
+    const second = await mockProvider.generate("ocean waves", { count: 1, seed: 10 });
+
+    expect(batch.images!.map((image) => image.seed)).toEqual([9, 10]);
+    expect(batch.images![1]).toEqual(second.images![0]);
+  });
+
+  it("seeds unseeded requests from the prompt", async () => {
+    const first = await mockProvider.generate("forest path", { count: 1 });
+    const again = await mockProvider.generate("  Forest Path ", { count: 1 });
+
+    expect(again.images).toEqual(first.images);
+  });
+
+  it("reports no seed for variations, which differ from the original", async () => {
+    const original = await mockProvider.generate("ocean waves", { count: 1, seed: 9 });
+    const variation = await mockProvider.generate("ocean waves", { count: 1, seed: 3, variationOf: 9 });
+
+    expect(variation.success).toBe(true);
+    expect(variation.images![0].seed).toBeUndefined();
+    expect(variation.images![0].src).not.toBe(original.images![0].src);
+  });
+
+  it("fails on purpose when the prompt asks it to", async () => {
+    const result = await mockProvider.generate("sunset #fail", { count: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.images).toBeUndefined();
+    expect(result.error).toMatch(/#fail/);
+  });
+
+  it("waits MOCK_IMAGE_DELAY_MS before answering", async () => {
+    vi.stubEnv("MOCK_IMAGE_DELAY_MS", "50");
+    const start = Date.now();
+    await mockProvider.generate("sunset #fail", { count: 1 });
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+});
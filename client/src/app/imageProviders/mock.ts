@@ -0,0 +1,241 @@
+import { deflateSync } from "zlib";
+import { createRandom, type Random } from "@/app/util/random";
+import type { ImageProvider } from "./types";
+
+/**
+ * Offline provider for development: paints bold color blocks and shapes
+ * from a hash of the prompt, so the same prompt always gives the same image
+ * and no network or keys are needed.
+ *
+ * Refining does not look at the photo; it paints from a hash of it, so the
+ * refine flow can be exercised too.
+ *
+ * Never enabled implicitly; list "mock" in IMAGE_PROVIDERS. Optional:
+ * - MOCK_IMAGE_DELAY_MS: simulated latency, to see loading states (default 800)
+ * - a prompt containing "#fail" returns an error, to see error states
+ */
+
+const SIZE = 512;
+const DEFAULT_DELAY_MS = 800;
+/** Largest shift or resize of a shape in a "more like this" variation */
+const VARIATION_SHIFT = 0.08;
+
+/** Prompt words that steer the palette's base hue */
+const COLOR_WORDS: Record<string, number> = {
+  red: 0,
+  orange: 25,
+  sunset: 20,
+  yellow: 50,
+  gold: 45,
+  green: 120,
+  forest: 110,
+  teal: 175,
+  ocean: 195,
+  sea: 195,
+  blue: 220,
+  sky: 205,
+  night: 235,
+  purple: 275,
+  violet: 270,
+  pink: 330,
+};
+
+type Rgb = [number, number, number];
+
+type Shape =
+  | { kind: "rect"; x: number; y: number; w: number; h: number; color: Rgb }
+  | { kind: "circle"; cx: number; cy: number; r: number; color: Rgb }
+  | { kind: "triangle"; points: [number, number][]; color: Rgb };
+
+/** FNV-1a, to turn the prompt into a seed */
+function hashPrompt(prompt: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of prompt.trim().toLowerCase()) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/** A harmonious palette around the prompt's color words, or a random hue */
+function buildPalette(prompt: string, random: Random): Rgb[] {
+  const words = prompt.toLowerCase().match(/[a-z]+/g) ?? [];
+  const hues = words.filter((word) => word in COLOR_WORDS).map((word) => COLOR_WORDS[word]);
+  if (hues.length === 0) hues.push(Math.floor(random() * 360));
+
+  const size = 5 + Math.floor(random() * 3);
+  return Array.from({ length: size }, (_, i) => {
+    const hue = (hues[i % hues.length] + (random() - 0.5) * 60 + (i % 2) * 150 + 360) % 360;
+    return hslToRgb(hue, 0.55 + random() * 0.4, 0.25 + ((i * 0.15) % 0.55));
+  });
+}
+
+/** Shapes drawn from `random`; `jitter` nudges the foreground for variations */
+function buildShapes(palette: Rgb[], random: Random, jitter?: Random): Shape[] {
+  const pick = () => palette[Math.floor(random() * palette.length)];
+  const shapes: Shape[] = [];
+
+  // Background bands, horizontal or vertical
+  const bands = 2 + Math.floor(random() * 3);
+  const vertical = random() < 0.5;
+  for (let i = 0; i < bands; i++) {
+    const start = Math.round((i * SIZE) / bands);
+    const end = Math.round(((i + 1) * SIZE) / bands);
+    shapes.push(
+      vertical
+        ? { kind: "rect", x: start, y: 0, w: end - start, h: SIZE, color: palette[i % palette.length] }
+        : { kind: "rect", x: 0, y: start, w: SIZE, h: end - start, color: palette[i % palette.length] }
+    );
+  }
+
+  // Foreground shapes
+  const nudge = () => (jitter ? (jitter() - 0.5) * 2 * VARIATION_SHIFT : 0);
+  const count = 5 + Math.floor(random() * 5);
+  for (let i = 0; i < count; i++) {
+    const cx = random() * SIZE + nudge() * SIZE;
+    const cy = random() * SIZE + nudge() * SIZE;
+    const size = SIZE * (0.08 + random() * 0.22) * (1 + nudge());
+    const kind = random();
+    if (kind < 0.35) {
+      shapes.push({ kind: "circle", cx, cy, r: size, color: pick() });
+    } else if (kind < 0.7) {
+      shapes.push({ kind: "rect", x: cx - size, y: cy - size * 0.6, w: size * 2, h: size * 1.2, color: pick() });
+    } else {
+      const angle = random() * Math.PI * 2;
+      const points = [0, 1, 2].map((k): [number, number] => [
+        cx + size * 1.3 * Math.cos(angle + (k * 2 * Math.PI) / 3),
+        cy + size * 1.3 * Math.sin(angle + (k * 2 * Math.PI) / 3),
+      ]);
+      shapes.push({ kind: "triangle", points, color: pick() });
+    }
+  }
+  return shapes;
+}
+
+function contains(shape: Shape, x: number, y: number): boolean {
+  switch (shape.kind) {
+    case "rect":
+      return x >= shape.x && x < shape.x + shape.w && y >= shape.y && y < shape.y + shape.h;
+    case "circle":
+      return (x - shape.cx) ** 2 + (y - shape.cy) ** 2 <= shape.r ** 2;
+    case "triangle": {
+      const [[ax, ay], [bx, by], [cx, cy]] = shape.points;
+      const d1 = (x - bx) * (ay - by) - (ax - bx) * (y - by);
+      const d2 = (x - cx) * (by - cy) - (bx - cx) * (y - cy);
+      const d3 = (x - ax) * (cy - ay) - (cx - ax) * (y - ay);
+      return !((d1 < 0 || d2 < 0 || d3 < 0) && (d1 > 0 || d2 > 0 || d3 > 0));
+    }
+  }
+}
+
+/** RGB pixels, later shapes painted over earlier ones */
+function paint(shapes: Shape[]): Buffer {
+  const pixels = Buffer.alloc(SIZE * SIZE * 3);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      let color: Rgb = [255, 255, 255];
+      for (const shape of shapes) {
+        if (contains(shape, x + 0.5, y + 0.5)) color = shape.color;
+      }
+      pixels.set(color, (y * SIZE + x) * 3);
+    }
+  }
+  return pixels;
+}
+
+// =============================================================================
+// PNG ENCODING
+// =============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** Minimal 8-bit truecolor PNG, unfiltered rows */
+function encodePng(pixels: Buffer, width: number, height: number): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 2, 0, 0, 0], 8); // bit depth, RGB, deflate, no filter, no interlace
+
+  const rows = Buffer.alloc(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) {
+    pixels.copy(rows, y * (width * 3 + 1) + 1, y * width * 3, (y + 1) * width * 3);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(rows)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+export const mockProvider: ImageProvider = {
+  id: "mock",
+  label: "Mock (offline)",
+  capabilities: { maxImages: 8, seed: true, imageToImage: true },
+
+  isConfigured: () => false,
+
+  async generate(prompt, { count, seed, variationOf, source }) {
+    const delay = Number(process.env.MOCK_IMAGE_DELAY_MS ?? DEFAULT_DELAY_MS);
+    if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+
+    if (prompt.includes("#fail")) {
+      return { success: false, error: "Mock provider failed on purpose (#fail in prompt)" };
+    }
+
+    // Image i uses seed + i; variations keep the original's layout and
+    // palette and nudge its shapes. The nudge is not captured by a seed, so
+    // variations report none.
+    const baseSeed = seed ?? hashPrompt(source ? `${prompt}${source}` : prompt);
+    const images = Array.from({ length: count }, (_, i) => {
+      const imageSeed = variationOf ?? (baseSeed + i) >>> 0;
+      const random = createRandom(imageSeed);
+      const jitter = variationOf !== undefined ? createRandom(baseSeed + i + 1) : undefined;
+      const shapes = buildShapes(buildPalette(prompt, random), random, jitter);
+      const png = encodePng(paint(shapes), SIZE, SIZE);
+      return {
+        src: `data:image/png;base64,${png.toString("base64")}`,
+        seed: variationOf !== undefined ? undefined : imageSeed,
+      };
+    });
+
+    return {
+      success: true,
+      images,
+      model: "Mock",
+    };
+  },
+};
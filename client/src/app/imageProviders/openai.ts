@@ -0,0 +1,100 @@
+import OpenAI, { toFile } from "openai";
+import { parseDataUrl } from "@/app/util/dataUrl";
+import type { GenerateResult, ImageProvider } from "./types";
+
+const DALLE_PROMPT_PREFIX = `Generate images with the artistic vision and expressive style of a professional quilting artist. Each image should be visually striking and emotionally engaging.
+
+CRITICAL REQUIREMENTS:
+- Create bold, simplified compositions with clear, defined shapes and edges
+- Use a limited color palette (approximately 20-32 distinct colors maximum)
+- Avoid fine details, tiny patterns, or intricate textures that cannot be stitched or cut from fabric
+- Focus on strong visual impact through color blocks, geometric shapes, and clear boundaries
+- Ensure high contrast between adjacent areas for visibility and pattern clarity
+- Compositions should be suitable for translation into fabric pieces
+
+User Request: `;
+
+const REFINE_PROMPT = `Redraw this image as an art quilt design by a professional quilting artist. Keep the subject and composition, but simplify it into bold shapes with clear, defined edges and flat solid colors (about 8-16), with no photographic texture or fine detail and strong contrast between neighboring areas.`;
+
+/**
+ * Refine a source image with the GPT Image edit endpoint (DALL-E 3 has none)
+ */
+async function refineWithGptImage(openai: OpenAI, source: string, prompt: string, count: number): Promise<GenerateResult> {
+  const image = parseDataUrl(source);
+  if (!image) {
+    return { success: false, error: "Invalid source image" };
+  }
+
+  const response = await openai.images.edit({
+    model: "gpt-image-1",
+    image: await toFile(Buffer.from(image.data, "base64"), "source", { type: image.mimeType }),
+    prompt: prompt ? `${REFINE_PROMPT}\n\nUser Request: ${prompt}` : REFINE_PROMPT,
+    n: count,
+    size: "1024x1024",
+  });
+
+  // GPT Image models always return base64
+  const images = (response.data ?? [])
+    .map((item) => item.b64_json)
+    .filter((data): data is string => !!data)
+    .map((data) => ({ src: `data:image/png;base64,${data}` }));
+  if (images.length === 0) {
+    return { success: false, error: "No image refined by GPT Image" };
+  }
+
+  return { success: true, images, model: "GPT Image 1" };
+}
+
+/**
+ * OpenAI DALL-E 3 (GPT Image for refining), configured with OPENAI_API_KEY
+ */
+export const openAiProvider: ImageProvider = {
+  id: "openai",
+  label: "OpenAI DALL-E 3",
+  capabilities: { maxImages: 1, seed: false, imageToImage: true },
+
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+
+  // DALL-E 3 only makes one image per request; the registry batches more
+  async generate(prompt, { count, source }) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      return { success: false, error: "OPENAI_API_KEY not set" };
+    }
+
+    try {
+      const openai = new OpenAI({ apiKey });
+      if (source) return await refineWithGptImage(openai, source, prompt, count);
+
+      const fullPrompt = `${DALLE_PROMPT_PREFIX}${prompt}
+
+Execute this as a quilt-suitable design following all requirements above.`;
+
+      const response = await openai.images.generate({
+        model: "dall-e-3",
+        prompt: fullPrompt,
+        n: 1,
+        size: "1024x1024",
+        quality: "standard",
+        response_format: "b64_json",
+      });
+
+      const imageData = response.data?.[0]?.b64_json;
+      if (!imageData) {
+        return { success: false, error: "No image generated by DALL-E" };
+      }
+
+      return {
+        success: true,
+        images: [{ src: `data:image/png;base64,${imageData}` }],
+        model: "DALL-E 3",
+      };
+    } catch (error) {
+      console.error("OpenAI error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "OpenAI failed",
+      };
+    }
+  },
+};
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mockProvider } from "./mock";
+import { generateImages, getEnabledProvider, getEnabledProviders } from "./registry";
+import type { GenerateOptions, GenerateResult, ImageProvider } from "./types";
+
+/** The mock provider with a smaller per-request limit, recording its requests */
+function limitedMock(maxImages: number, generate: ImageProvider["generate"] = mockProvider.generate) {
+  const calls: GenerateOptions[] = [];
+  const provider: ImageProvider = {
+    ...mockProvider,
+    capabilities: { ...mockProvider.capabilities, maxImages },
+    generate: (prompt, options) => {
+      calls.push(options);
+      return generate(prompt, options);
+    },
+  };
+  return { provider, calls };
+}
+
+/** Stand-in for a provider request: one fake image per seed */
+const fakeImages = async (_: string, { count, seed }: GenerateOptions): Promise<GenerateResult> => ({
+  success: true,
+  model: "Fake",
+  images: Array.from({ length: count }, (_, i) => ({
+    src: `data:image/png;base64,${i}`,
+    seed: seed !== undefined ? seed + i : undefined,
+  })),
+});
+
+beforeEach(() => {
+  vi.stubEnv("MOCK_IMAGE_DELAY_MS", "0");
+  vi.stubEnv("IMAGE_PROVIDERS", "");
+  vi.stubEnv("OPENAI_API_KEY", "");
+  vi.stubEnv("GOOGLE_API_KEY", "");
+  vi.stubEnv("LOCAL_IMAGE_API_URL", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getEnabledProviders", () => {
+  it("enables the configured providers when IMAGE_PROVIDERS is unset", () => {
+    expect(getEnabledProviders()).toEqual([]);
+
+    vi.stubEnv("GOOGLE_API_KEY", "key");
+    vi.stubEnv("LOCAL_IMAGE_API_URL", "http://localhost:7860");
+    expect(getEnabledProviders().map((p) => p.id)).toEqual(["imagen", "local"]);
+  });
+
+  it("never enables the mock provider implicitly", () => {
+    expect(getEnabledProvider("mock")).toBeUndefined();
+  });
+
+  it("follows IMAGE_PROVIDERS, in its order, skipping unknown ids", () => {
+    vi.stubEnv("IMAGE_PROVIDERS", " mock, imagen ,nope,");
+
+    expect(getEnabledProviders().map((p) => p.id)).toEqual(["mock", "imagen"]);
+    expect(getEnabledProvider("mock")).toBe(mockProvider);
+    expect(getEnabledProvider("openai")).toBeUndefined();
+  });
+});
+
+describe("generateImages", () => {
+  it("splits a request into batches of the provider's limit", async () => {
+    const { provider, calls } = limitedMock(4, fakeImages);
+    const result = await generateImages(provider, "sea", { count: 10, seed: 100 });
+
+    expect(calls.map(({ count, seed }) => ({ count, seed }))).toEqual([
+      { count: 4, seed: 100 },
+      { count: 4, seed: 104 },
+      { count: 2, seed: 108 },
+    ]);
+    expect(result.images!.map((image) => image.seed)).toEqual([100, 101, 102, 103, 104, 105, 106, 107, 108, 109]);
+  });
+
+  it("sends one image per request to single-image providers", async () => {
+    const { provider, calls } = limitedMock(1, fakeImages);
+    await generateImages(provider, "sea", { count: 8, seed: 5 });
+
+    expect(calls.map((call) => call.count)).toEqual([1, 1, 1, 1, 1, 1, 1, 1]);
+    expect(calls.map((call) => call.seed)).toEqual([5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it("wraps seeds past the largest unsigned 32-bit value", async () => {
+    const { provider, calls } = limitedMock(1, fakeImages);
+    await generateImages(provider, "sea", { count: 2, seed: 0xffffffff });
+
+    expect(calls.map((call) => call.seed)).toEqual([0xffffffff, 0]);
+  });
+
+  it("leaves the seed unset when none was asked for, and passes variations on", async () => {
+    const { provider, calls } = limitedMock(4, fakeImages);
+    await generateImages(provider, "sea", { count: 8, variationOf: 42, source: "data:image/png;base64,AA" });
+
+    expect(calls).toEqual([
+      { count: 4, seed: undefined, variationOf: 42, source: "data:image/png;base64,AA" },
+      { count: 4, seed: undefined, variationOf: 42, source: "data:image/png;base64,AA" },
+    ]);
+  });
+
+  it("gives the same images in batches as in one request", async () => {
+    const { provider } = limitedMock(1);
+    const batched = await generateImages(provider, "teal night", { count: 3, seed: 7 });
+    const single = await mockProvider.generate("teal night", { count: 3, seed: 7 });
+
+    expect(batched.images).toEqual(single.images);
+  });
+
+  it("keeps the images of the batches that succeeded", async () => {
+    let request = 0;
+    const { provider } = limitedMock(2, async (prompt, options) =>
+      request++ === 1 ? { success: false, error: "Rate limited" } : fakeImages(prompt, options)
+    );
+    const result = await generateImages(provider, "sea", { count: 6, seed: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.model).toBe("Fake");
+    expect(result.images!.map((image) => image.seed)).toEqual([0, 1, 4, 5]);
+  });
+
+  it("reports the failure when every batch fails", async () => {
+    const { provider } = limitedMock(4);
+    const result = await generateImages(provider, "sea #fail", { count: 8 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/#fail/);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Registry of text-to-image providers, read by /api/generate-image
+ *
+ * Every known provider is listed here. Which ones are offered is set with
+ * IMAGE_PROVIDERS, a comma-separated list of ids in display order (e.g.
+ * "local,imagen"); when unset, every provider whose credentials are
+ * configured is enabled. Set it to "mock" to work offline.
+ */
+
+import { openAiProvider } from "./openai";
+import { imagenProvider } from "./imagen";
+import { localHttpProvider } from "./localHttp";
+import { mockProvider } from "./mock";
+import type { GenerateOptions, GenerateResult, ImageProvider, ImageProviderInfo } from "./types";
+
+const IMAGE_PROVIDERS: ImageProvider[] = [openAiProvider, imagenProvider, localHttpProvider, mockProvider];
+
+/**
+ * Providers enabled for this deployment, in display order
+ */
+export function getEnabledProviders(): ImageProvider[] {
+  const setting = process.env.IMAGE_PROVIDERS?.trim();
+  if (!setting) return IMAGE_PROVIDERS.filter((provider) => provider.isConfigured());
+
+  return setting
+    .split(",")
+    .map((id) => IMAGE_PROVIDERS.find((provider) => provider.id === id.trim()))
+    .filter((provider): provider is ImageProvider => !!provider);
+}
+
+export function getEnabledProvider(id: string): ImageProvider | undefined {
+  return getEnabledProviders().find((provider) => provider.id === id);
+}
+
+/**
+ * Generate `count` images, split into as many requests as the provider's
+ * per-request limit needs. Seeds continue across requests. Succeeds when
+ * any request does.
+ */
+export async function generateImages(
+  provider: ImageProvider,
+  prompt: string,
+  { count, seed, variationOf, source }: GenerateOptions
+): Promise<GenerateResult> {
+  const { maxImages } = provider.capabilities;
+  const batches = Array.from({ length: Math.ceil(count / maxImages) }, (_, i) => ({
+    count: Math.min(maxImages, count - i * maxImages),
+    seed: seed !== undefined ? (seed + i * maxImages) >>> 0 : undefined,
+    variationOf,
+    source,
+  }));
+  const results = await Promise.all(batches.map((batch) => provider.generate(prompt, batch)));
+
+  const images = results.flatMap((result) => result.images ?? []);
+  if (images.length === 0) return results[0];
+  return { success: true, images, model: results.find((result) => result.success)?.model };
+}
+
+/** Client-safe description of a provider */
+export function toProviderInfo({ id, label, capabilities }: ImageProvider): ImageProviderInfo {
+  return { id, label, capabilities };
+}
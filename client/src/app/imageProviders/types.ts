@@ -0,0 +1,58 @@
+/**
+ * Shared types for text-to-image providers
+ * Type-only, so client components can import them without pulling in SDKs
+ */
+
+/** What a provider can do, so the UI can offer only what works */
+export type ImageProviderCapabilities = {
+  /** Most images one request can return */
+  maxImages: number;
+  /** Whether a seed makes results repeatable */
+  seed: boolean;
+  /** Whether a source image can be refined instead of starting from text */
+  imageToImage: boolean;
+};
+
+/** Public description of a provider, as listed by GET /api/generate-image */
+export type ImageProviderInfo = {
+  id: string;
+  label: string;
+  capabilities: ImageProviderCapabilities;
+};
+
+export type GenerateOptions = {
+  /** Images to return, at most `capabilities.maxImages` */
+  count: number;
+  /** Seed of the first image; the others use the following seeds */
+  seed?: number;
+  /** Make close variations of the image with this seed (seeded providers only) */
+  variationOf?: number;
+  /**
+   * Image data URL to refine instead of starting from text (providers with
+   * `imageToImage` only); the prompt then only guides the refinement
+   */
+  source?: string;
+};
+
+export type GeneratedImage = {
+  src: string; // base64 data URL
+  /** Seed that reproduces the image, when the provider reports one */
+  seed?: number;
+};
+
+export type GenerateResult = {
+  success: boolean;
+  images?: GeneratedImage[];
+  model?: string;
+  error?: string;
+};
+
+/**
+ * A text-to-image backend. `isConfigured` reports whether its credentials
+ * or endpoint are set; `generate` never throws and reports failures in the
+ * result instead.
+ */
+export type ImageProvider = ImageProviderInfo & {
+  isConfigured: () => boolean;
+  generate: (prompt: string, options: GenerateOptions) => Promise<GenerateResult>;
+};
@@ -0,0 +1,5 @@
+import ProjectsPage from "@/app/ProjectsPage/ProjectsPage";
+
+export default function ProjectsRoute() {
+  return <ProjectsPage />;
+}
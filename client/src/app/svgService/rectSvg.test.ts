@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { parseRectGridSvg, type RectSvgLimits } from "./rectSvg";
+
+const LIMITS: RectSvgLimits = { maxLength: 10_000, maxSide: 8, maxUncovered: 0.25 };
+
+/** One rect per cell, colors by row */
+function gridSvg(rows: string[][], extra = ""): string {
+  const rects = rows
+    .flatMap((row, y) => row.map((fill, x) => `<rect x="${x}" y="${y}" width="1" height="1" fill="${fill}"/>`))
+    .join("\n  ");
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${rows[0].length} ${rows.length}">\n  ${rects}${extra}\n</svg>`;
+}
+
+const pixel = (data: Uint8ClampedArray, i: number) => [...data.slice(i * 4, i * 4 + 4)];
+
+const parse = (svg: string, limits: Partial<RectSvgLimits> = {}) => parseRectGridSvg(svg, { ...LIMITS, ...limits });
+
+describe("parseRectGridSvg", () => {
+  it("turns each cell into one RGBA pixel", () => {
+    const grid = parse(gridSvg([["#ff0000", "#0f0"], ["rgb(0, 0, 255)", "#ffffff"]]));
+
+    expect(grid.width).toBe(2);
+    expect(grid.height).toBe(2);
+    expect([0, 1, 2, 3].map((i) => pixel(grid.data, i))).toEqual([
+      [255, 0, 0, 255],
+      [0, 255, 0, 255],
+      [0, 0, 255, 255],
+      [255, 255, 255, 255],
+    ]);
+  });
+
+  it("accepts an XML declaration, rects spanning several cells and closing tags", () => {
+    const svg =
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<svg viewBox="0 0 3 1" width="300" height="100"><rect width="2" height="1" fill="#000"></rect>' +
+      '<rect x="2" width="1" height="1" fill="#fff"/></svg>';
+    const grid = parse(svg);
+
+    expect([0, 1, 2].map((i) => pixel(grid.data, i)[0])).toEqual([0, 0, 255]);
+  });
+
+  it("clips rects that reach past the grid", () => {
+    const grid = parse('<svg viewBox="0 0 2 1"><rect x="1" width="5" height="5" fill="#000"/><rect width="1" height="1" fill="#fff"/></svg>');
+
+    expect(pixel(grid.data, 1)).toEqual([0, 0, 0, 255]);
+  });
+
+  describe("rejects active content", () => {
+    const base = [["#000", "#fff"]];
+
+    it.each([
+      ["a script", gridSvg(base, "<script>alert(1)</script>")],
+      ["a foreign object", gridSvg(base, "<foreignObject><div>x</div></foreignObject>")],
+      ["an image", gridSvg(base, '<image href="x" onerror="alert(1)"/>')],
+      ["a group", gridSvg(base, "<g></g>")],
+      ["a style sheet", gridSvg(base, "<style>rect{fill:url(x)}</style>")],
+      ["a comment", gridSvg(base, "<!-- hidden -->")],
+      ["text", gridSvg(base, "hello")],
+      ["an entity", gridSvg(base, "&xxe;")],
+    ])("%s", (_, svg) => {
+      expect(() => parse(svg)).toThrow("SVG may only contain <rect> elements");
+    });
+
+    it.each([
+      ["an event handler on the root", '<svg viewBox="0 0 1 1" onload="alert(1)"><rect width="1" height="1" fill="#000"/></svg>'],
+      ["an event handler on a rect", '<svg viewBox="0 0 1 1"><rect width="1" height="1" fill="#000" onclick="alert(1)"/></svg>'],
+      ["a style attribute", '<svg viewBox="0 0 1 1"><rect width="1" height="1" fill="#000" style="fill:red"/></svg>'],
+      ["a link", '<svg viewBox="0 0 1 1"><rect width="1" height="1" fill="#000" href="javascript:alert(1)"/></svg>'],
+    ])("%s", (_, svg) => {
+      expect(() => parse(svg)).toThrow(/is not allowed/);
+    });
+
+    it("unquoted or escaped attribute values", () => {
+      expect(() => parse('<svg viewBox="0 0 1 1"><rect width=1 height="1" fill="#000"/></svg>')).toThrow(/Malformed attributes/);
+      expect(() => parse('<svg viewBox="0 0 1 1"><rect width="1" height="1" fill="#000&quot;"/></svg>')).toThrow(
+        /Malformed attributes/
+      );
+    });
+
+    it("a DOCTYPE or second root", () => {
+      expect(() => parse('<!DOCTYPE svg [<!ENTITY x "y">]>' + gridSvg(base))).toThrow("Expected a single <svg> element");
+      expect(() => parse(gridSvg(base) + "<svg></svg>")).toThrow();
+    });
+
+    it.each(["red", "url(#pattern)", "rgb(300, 0, 0)", "#12345"])("the fill %s", (fill) => {
+      expect(() => parse(gridSvg([[fill]]))).toThrow(/Unsupported fill/);
+    });
+  });
+
+  describe("limits", () => {
+    it("rejects documents over the length limit", () => {
+      expect(() => parse(gridSvg([["#000"]]), { maxLength: 50 })).toThrow("SVG is too large");
+    });
+
+    it("rejects grids larger than the side limit", () => {
+      expect(() => parse('<svg viewBox="0 0 9 1"></svg>')).toThrow("Grid must be between 1 and 8 cells per side");
+      expect(() => parse('<svg viewBox="0 0 0 1"></svg>')).toThrow("Grid must be between 1 and 8 cells per side");
+    });
+
+    it("requires a viewBox at the origin", () => {
+      expect(() => parse('<svg viewBox="1 0 2 2"></svg>')).toThrow(/viewBox/);
+      expect(() => parse('<svg width="2" height="2"></svg>')).toThrow(/viewBox/);
+    });
+
+    it("rejects more rects than the grid has cells", () => {
+      const svg = '<svg viewBox="0 0 1 1">' + '<rect width="1" height="1" fill="#000"/>'.repeat(2) + "</svg>";
+      expect(() => parse(svg)).toThrow("SVG has more rects than grid cells");
+    });
+  });
+
+  describe("gaps", () => {
+    it("fills an uncovered cell from the cell to its left", () => {
+      const svg = '<svg viewBox="0 0 2 2"><rect width="2" height="1" fill="#f00"/><rect y="1" width="1" height="1" fill="#00f"/></svg>';
+      const grid = parse(svg);
+
+      expect(pixel(grid.data, 3)).toEqual([0, 0, 255, 255]);
+    });
+
+    it("fills an uncovered first column from the cell above", () => {
+      const svg = '<svg viewBox="0 0 2 2"><rect width="2" height="1" fill="#f00"/><rect x="1" y="1" width="1" height="1" fill="#00f"/></svg>';
+      const grid = parse(svg);
+
+      expect(pixel(grid.data, 2)).toEqual([255, 0, 0, 255]);
+    });
+
+    it("makes an uncovered top-left cell white", () => {
+      const svg = '<svg viewBox="0 0 2 2"><rect x="1" width="1" height="2" fill="#000"/><rect y="1" width="1" height="1" fill="#000"/></svg>';
+      const grid = parse(svg);
+
+      expect(pixel(grid.data, 0)).toEqual([255, 255, 255, 255]);
+    });
+
+    it("rejects grids left mostly empty", () => {
+      const svg = '<svg viewBox="0 0 2 2"><rect width="1" height="1" fill="#000"/></svg>';
+      expect(() => parse(svg)).toThrow("SVG leaves too much of the grid empty");
+    });
+  });
+});
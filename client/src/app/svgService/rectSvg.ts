@@ -0,0 +1,133 @@
+/**
+ * Validation of model-written pixel-grid SVGs
+ *
+ * The vectorize model is asked for an SVG made only of <rect> cells. Its
+ * output is untrusted, so it is read with a strict tokenizer instead of
+ * being passed on: anything beyond an <svg> root with rect children and a
+ * small set of attributes (scripts, event handlers, links, entities,
+ * styles, other elements) rejects the whole document. What survives is
+ * turned into pixels; the SVG itself is never forwarded.
+ */
+
+import { parseColor } from "@/app/util/colorSpace";
+
+export type RectSvgLimits = {
+  /** Longest accepted document, in characters */
+  maxLength: number;
+  /** Largest accepted grid side, in cells */
+  maxSide: number;
+  /** Share of grid cells that may be left uncovered (filled from a neighbor) */
+  maxUncovered: number;
+};
+
+export const DEFAULT_RECT_SVG_LIMITS: RectSvgLimits = {
+  maxLength: 2_000_000,
+  maxSide: 120,
+  maxUncovered: 0.05,
+};
+
+/** RGBA pixels, one per grid cell, shaped like ImageData */
+export type RectGrid = {
+  width: number;
+  height: number;
+  data: ImageData["data"];
+};
+
+const SVG_ATTRIBUTES = new Set(["xmlns", "viewBox", "width", "height", "shape-rendering", "version"]);
+const RECT_ATTRIBUTES = new Set(["x", "y", "width", "height", "fill"]);
+
+const NUMBER = /^\d+(\.\d+)?$/;
+const COLOR = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|rgb\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*\))$/i;
+
+/**
+ * Parse attributes, requiring the whole string to be `name="value"` pairs
+ * from `allowed`
+ */
+function readAttributes(source: string, allowed: Set<string>, element: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const rest = source.replace(/\s*([\w:-]+)\s*=\s*"([^"<>&]*)"\s*/g, (_, name: string, value: string) => {
+    if (!allowed.has(name)) throw new Error(`Attribute "${name}" is not allowed on <${element}>`);
+    if (name in attributes) throw new Error(`Attribute "${name}" is repeated on <${element}>`);
+    attributes[name] = value;
+    return "";
+  });
+  if (rest.trim() !== "") throw new Error(`Malformed attributes on <${element}>`);
+  return attributes;
+}
+
+function readNumber(attributes: Record<string, string>, name: string, fallback?: number): number {
+  const value = attributes[name];
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (value === undefined || !NUMBER.test(value)) throw new Error(`<rect> needs a non-negative number for "${name}"`);
+  return Number(value);
+}
+
+/**
+ * Validate a pixel-grid SVG and rasterize it to one pixel per cell.
+ * Throws with the reason when the document is not acceptable.
+ */
+export function parseRectGridSvg(svg: string, limits: RectSvgLimits = DEFAULT_RECT_SVG_LIMITS): RectGrid {
+  if (svg.length > limits.maxLength) throw new Error("SVG is too large");
+
+  const body = svg.trim().replace(/^<\?xml[^?<>]*\?>\s*/, "");
+  const open = body.match(/^<svg\b([^<>]*)>/);
+  if (!open || !body.endsWith("</svg>")) throw new Error("Expected a single <svg> element");
+  const svgAttributes = readAttributes(open[1], SVG_ATTRIBUTES, "svg");
+
+  const viewBox = (svgAttributes.viewBox ?? "").trim().split(/[\s,]+/);
+  if (viewBox.length !== 4 || viewBox.some((v) => !/^\d+$/.test(v)) || viewBox[0] !== "0" || viewBox[1] !== "0") {
+    throw new Error('The <svg> needs a viewBox of the form "0 0 width height"');
+  }
+  const width = Number(viewBox[2]);
+  const height = Number(viewBox[3]);
+  if (width < 1 || height < 1 || width > limits.maxSide || height > limits.maxSide) {
+    throw new Error(`Grid must be between 1 and ${limits.maxSide} cells per side`);
+  }
+
+  const filled = new Uint8Array(width * height);
+  const data = new Uint8ClampedArray(width * height * 4);
+  let rects = 0;
+
+  // Children: self-closing or empty <rect> elements and whitespace only
+  const children = body.slice(open[0].length, -"</svg>".length);
+  const rest = children.replace(/<rect\b([^<>]*?)\/?>(\s*<\/rect>)?/g, (_, source: string) => {
+    if (++rects > width * height) throw new Error("SVG has more rects than grid cells");
+    const attributes = readAttributes(source.replace(/\/$/, ""), RECT_ATTRIBUTES, "rect");
+    const fill = attributes.fill ?? "";
+    if (!COLOR.test(fill)) throw new Error(`Unsupported fill "${fill}"`);
+    const [r, g, b] = parseColor(fill);
+    if ([r, g, b].some((c) => c > 255)) throw new Error(`Unsupported fill "${fill}"`);
+
+    const x = readNumber(attributes, "x", 0);
+    const y = readNumber(attributes, "y", 0);
+    const w = readNumber(attributes, "width");
+    const h = readNumber(attributes, "height");
+    // Cells whose centers the rect covers
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(width, Math.round(x + w));
+    const y1 = Math.min(height, Math.round(y + h));
+    for (let row = y0; row < y1; row++) {
+      for (let col = x0; col < x1; col++) {
+        const i = row * width + col;
+        filled[i] = 1;
+        data.set([r, g, b, 255], i * 4);
+      }
+    }
+    return "";
+  });
+  if (rest.trim() !== "") throw new Error("SVG may only contain <rect> elements");
+
+  const uncovered = filled.length - filled.reduce((sum, f) => sum + f, 0);
+  if (uncovered > filled.length * limits.maxUncovered) throw new Error("SVG leaves too much of the grid empty");
+
+  // Patch the odd gap with the cell to its left, or above
+  for (let i = 0; i < filled.length; i++) {
+    if (filled[i]) continue;
+    const from = i % width > 0 ? i - 1 : i - width;
+    if (from >= 0) data.copyWithin(i * 4, from * 4, from * 4 + 4);
+    else data.set([255, 255, 255, 255], 0);
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { createColorMetric, deltaE2000, deltaE76, labToRgb, parseColor, rgbToLab, type Lab } from "./colorSpace";
+import { createRandom } from "./random";
+
+type RGB = [number, number, number];
+
+/** Test data from Sharma, Wu and Dalal, "The CIEDE2000 Color-Difference Formula" (2005), table 1 */
+const SHARMA_PAIRS: [Lab, Lab, number][] = [
+  [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+  [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+  [[50, 2.8361, -74.02], [50, 0, -82.7485], 3.4412],
+  [[50, -1.3802, -84.2814], [50, 0, -82.7485], 1.0],
+  [[50, -1.1848, -84.8006], [50, 0, -82.7485], 1.0],
+  [[50, -0.9009, -85.5211], [50, 0, -82.7485], 1.0],
+  [[50, 0, 0], [50, -1, 2], 2.3669],
+  [[50, -1, 2], [50, 0, 0], 2.3669],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+  [[50, 2.49, -0.001], [50, -2.49, 0.001], 7.1792],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0011], 7.2195],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0012], 7.2195],
+  [[50, -0.001, 2.49], [50, 0.0009, -2.49], 4.8045],
+  [[50, -0.001, 2.49], [50, 0.001, -2.49], 4.8045],
+  [[50, -0.001, 2.49], [50, 0.0011, -2.49], 4.7461],
+  [[50, 2.5, 0], [50, 0, -2.5], 4.3065],
+  [[50, 2.5, 0], [73, 25, -18], 27.1492],
+  [[50, 2.5, 0], [61, -5, 29], 22.8977],
+  [[50, 2.5, 0], [56, -27, -3], 31.903],
+  [[50, 2.5, 0], [58, 24, 15], 19.4535],
+  [[50, 2.5, 0], [50, 3.1736, 0.5854], 1.0],
+  [[50, 2.5, 0], [50, 3.2972, 0], 1.0],
+  [[50, 2.5, 0], [50, 1.8634, 0.5757], 1.0],
+  [[50, 2.5, 0], [50, 3.2592, 0.335], 1.0],
+  [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+  [[63.0109, -31.0961, -5.8663], [62.8187, -29.7946, -4.0864], 1.263],
+  [[61.2901, 3.7196, -5.3901], [61.4292, 2.248, -4.962], 1.8731],
+  [[35.0831, -44.1164, 3.7933], [35.0232, -40.0716, 1.5901], 1.8645],
+  [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+  [[36.4612, 47.858, 18.3852], [36.2715, 50.5065, 21.2231], 1.4146],
+  [[90.8027, -2.0831, 1.441], [91.1528, -1.6435, 0.0447], 1.4441],
+  [[90.9257, -0.5406, -0.9208], [88.6381, -0.8985, -0.7239], 1.5381],
+  [[6.7747, -0.2908, -2.4247], [5.8714, -0.0985, -2.2286], 0.6377],
+  [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+];
+
+describe("deltaE2000", () => {
+  it.each(SHARMA_PAIRS)("matches the published difference for %j and %j", (lab1, lab2, expected) => {
+    expect(deltaE2000(lab1, lab2)).toBeCloseTo(expected, 4);
+    expect(deltaE2000(lab2, lab1)).toBeCloseTo(expected, 4);
+  });
+
+  it("is zero for identical colors", () => {
+    expect(deltaE2000([50, 10, -10], [50, 10, -10])).toBe(0);
+  });
+});
+
+describe("deltaE76", () => {
+  it("is the straight-line distance in Lab", () => {
+    expect(deltaE76([50, 0, 0], [53, 4, 0])).toBe(5);
+  });
+});
+
+describe("rgbToLab", () => {
+  it("maps black, white and sRGB red to their D65 Lab values", () => {
+    const expectLab = (actual: Lab, expected: Lab) => actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 1));
+
+    expectLab(rgbToLab([0, 0, 0]), [0, 0, 0]);
+    expectLab(rgbToLab([255, 255, 255]), [100, 0, 0]);
+    expectLab(rgbToLab([255, 0, 0]), [53.24, 80.09, 67.2]);
+  });
+
+  it("round-trips through labToRgb", () => {
+    const random = createRandom(3);
+    const colors: RGB[] = [
+      [0, 0, 0],
+      [255, 255, 255],
+      [255, 0, 0],
+      [0, 255, 0],
+      [0, 0, 255],
+      [1, 2, 3],
+      ...Array.from({ length: 200 }, (): RGB => [0, 0, 0].map(() => Math.floor(random() * 256)) as RGB),
+    ];
+
+    for (const rgb of colors) {
+      expect(labToRgb(rgbToLab(rgb))).toEqual(rgb);
+    }
+  });
+
+  it("clamps Lab values outside the sRGB gamut", () => {
+    expect(labToRgb([50, 200, -200]).every((v) => v >= 0 && v <= 255)).toBe(true);
+  });
+});
+
+describe("parseColor", () => {
+  it("reads hex, short hex and rgb() colors", () => {
+    expect(parseColor("#ff8000")).toEqual([255, 128, 0]);
+    expect(parseColor("#f80")).toEqual([255, 136, 0]);
+    expect(parseColor("rgb(12, 34, 56)")).toEqual([12, 34, 56]);
+  });
+});
+
+describe("createColorMetric", () => {
+  it("measures with the chosen color space", () => {
+    const red: RGB = [255, 0, 0];
+    const orange: RGB = [255, 128, 0];
+
+    expect(createColorMetric("rgb").distance(red, orange)).toBe(128);
+    expect(createColorMetric("lab76").distance(red, orange)).toBeCloseTo(deltaE76(rgbToLab(red), rgbToLab(orange)));
+    expect(createColorMetric("lab2000").distance(red, orange)).toBeCloseTo(deltaE2000(rgbToLab(red), rgbToLab(orange)));
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Color space conversions
+ *
+ * sRGB ↔ CIELAB (D65 white point) and perceptual color differences, for
+ * comparing colors the way the eye does rather than by raw RGB distance.
+ */
+
+export type Lab = [number, number, number];
+
+/**
+ * Space colors are compared in: Euclidean RGB, CIELAB with the CIE76
+ * difference, or CIELAB with the CIEDE2000 difference
+ */
+export type ColorSpace = "rgb" | "lab76" | "lab2000";
+
+export const COLOR_SPACES: Record<ColorSpace, { label: string; description: string }> = {
+  rgb: { label: "RGB", description: "Fast, but merges distinct darks" },
+  lab76: { label: "Lab ΔE76", description: "Perceptual, keeps value contrast" },
+  lab2000: { label: "ΔE2000", description: "Most accurate, slower" },
+};
+
+/** D65 reference white */
+const WHITE_X = 0.95047;
+const WHITE_Y = 1.0;
+const WHITE_Z = 1.08883;
+
+/**
+ * Parse "#rrggbb", "#rgb" or "rgb(r,g,b)" into an RGB triple
+ */
+export function parseColor(color: string): [number, number, number] {
+  const rgbMatch = color.match(/rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)/i);
+  if (rgbMatch) {
+    return [Number(rgbMatch[1]), Number(rgbMatch[2]), Number(rgbMatch[3])];
+  }
+  let hex = color.replace("#", "");
+  if (hex.length === 3) {
+    hex = hex.split("").map((c) => c + c).join("");
+  }
+  return [
+    parseInt(hex.slice(0, 2), 16) || 0,
+    parseInt(hex.slice(2, 4), 16) || 0,
+    parseInt(hex.slice(4, 6), 16) || 0,
+  ];
+}
+
+/**
+ * Convert an sRGB triple (0-255) to CIELAB
+ */
+export function rgbToLab(rgb: [number, number, number]): Lab {
+  const [r, g, b] = rgb.map((v) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+
+  const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / WHITE_X;
+  const y = (r * 0.2126729 + g * 0.7151522 + b * 0.072175) / WHITE_Y;
+  const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) / WHITE_Z;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * CIE76 color difference: Euclidean distance in Lab
+ */
+export function deltaE76(a: Lab, b: Lab): number {
+  const dL = a[0] - b[0];
+  const da = a[1] - b[1];
+  const db = a[2] - b[2];
+  return Math.sqrt(dL * dL + da * da + db * db);
+}
+
+/**
+ * Convert CIELAB back to an sRGB triple, clamped to the displayable range
+ */
+export function labToRgb(lab: Lab): [number, number, number] {
+  const fy = (lab[0] + 16) / 116;
+  const fx = fy + lab[1] / 500;
+  const fz = fy - lab[2] / 200;
+  const fInv = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+
+  const x = fInv(fx) * WHITE_X;
+  const y = fInv(fy) * WHITE_Y;
+  const z = fInv(fz) * WHITE_Z;
+
+  const linear = [
+    x * 3.2404542 - y * 1.5371385 - z * 0.4985314,
+    -x * 0.969266 + y * 1.8760108 + z * 0.041556,
+    x * 0.0556434 - y * 0.2040259 + z * 1.0572252,
+  ];
+
+  return linear.map((c) => {
+    const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.max(0, Math.min(255, Math.round(v * 255)));
+  }) as [number, number, number];
+}
+
+/**
+ * CIEDE2000 color difference (Sharma et al. 2005), with unit weights
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+  const rad = Math.PI / 180;
+
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const meanC7 = Math.pow((C1 + C2) / 2, 7);
+  const G = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + Math.pow(25, 7))));
+
+  const a1p = (1 + G) * a1;
+  const a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const meanLp = (L1 + L2) / 2;
+  const meanCp = (C1p + C2p) / 2;
+  let meanHp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) meanHp /= 2;
+    else meanHp = h1p + h2p < 360 ? (meanHp + 360) / 2 : (meanHp - 360) / 2;
+  }
+
+  const T =
+    1 -
+    0.17 * Math.cos((meanHp - 30) * rad) +
+    0.24 * Math.cos(2 * meanHp * rad) +
+    0.32 * Math.cos((3 * meanHp + 6) * rad) -
+    0.2 * Math.cos((4 * meanHp - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((meanHp - 275) / 25, 2));
+  const meanCp7 = Math.pow(meanCp, 7);
+  const RC = 2 * Math.sqrt(meanCp7 / (meanCp7 + Math.pow(25, 7)));
+  const SL = 1 + (0.015 * Math.pow(meanLp - 50, 2)) / Math.sqrt(20 + Math.pow(meanLp - 50, 2));
+  const SC = 1 + 0.045 * meanCp;
+  const SH = 1 + 0.015 * meanCp * T;
+  const RT = -Math.sin(2 * dTheta * rad) * RC;
+
+  const l = dLp / SL;
+  const c = dCp / SC;
+  const h = dHp / SH;
+  return Math.sqrt(l * l + c * c + h * h + RT * c * h);
+}
+
+/**
+ * Build a distance function for the given color space. Lab conversions
+ * are cached per metric since the same colors are compared many times.
+ */
+export function createColorMetric(space: ColorSpace): {
+  distance: (a: [number, number, number], b: [number, number, number]) => number;
+  toLab: (rgb: [number, number, number]) => Lab;
+} {
+  const cache = new Map<number, Lab>();
+  const toLab = (rgb: [number, number, number]) => {
+    const key = (rgb[0] << 16) | (rgb[1] << 8) | rgb[2];
+    let lab = cache.get(key);
+    if (!lab) {
+      lab = rgbToLab(rgb);
+      cache.set(key, lab);
+    }
+    return lab;
+  };
+
+  if (space === "lab76") return { distance: (a, b) => deltaE76(toLab(a), toLab(b)), toLab };
+  if (space === "lab2000") return { distance: (a, b) => deltaE2000(toLab(a), toLab(b)), toLab };
+  return {
+    distance: (a, b) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]),
+    toLab,
+  };
+}
@@ -0,0 +1,391 @@
+/**
+ * Cutting guide
+ *
+ * Turns a QuiltDesign into cut sizes per piece and the plain-text guide
+ * offered for download on the result page.
+ */
+
+import { fabricLabel } from "./fabricCatalog";
+import type { QuiltDesign } from "./imageProcessing";
+import { calculateYardage, DEFAULT_YARDAGE_OPTIONS, usableWidthMm, type CutPiece, type YardageOptions } from "./yardage";
+
+/**
+ * Generate a human-readable cutting guide
+ */
+export function generateCuttingGuide(design: QuiltDesign, options: YardageOptions = {}): string {
+  const lines: string[] = [];
+
+  lines.push("═══════════════════════════════════════════════════════════════");
+  lines.push("                    QUILT CUTTING GUIDE");
+  lines.push("═══════════════════════════════════════════════════════════════");
+  lines.push("");
+  lines.push("PATTERN SUMMARY");
+  lines.push("───────────────────────────────────────────────────────────────");
+  lines.push(`Pattern Type:      ${design.shapeType.toUpperCase()}`);
+  lines.push(`Grid Size:         ${design.gridWidth} × ${design.gridHeight}`);
+  lines.push(`Total Pieces:      ${design.shapes.length}`);
+  lines.push(`Colors Used:       ${design.colorPalette.length}`);
+  lines.push("");
+
+  lines.push("FINISHED DIMENSIONS");
+  lines.push("───────────────────────────────────────────────────────────────");
+  lines.push(
+    `Width:             ${Math.round(design.fabricData.totalWidthMm / 10)} cm (${Math.round(design.fabricData.totalWidthMm / 25.4)} inches)`
+  );
+  lines.push(
+    `Height:            ${Math.round(design.fabricData.totalHeightMm / 10)} cm (${Math.round(design.fabricData.totalHeightMm / 25.4)} inches)`
+  );
+  lines.push("");
+
+  lines.push("CUTTING SPECIFICATIONS");
+  lines.push("───────────────────────────────────────────────────────────────");
+  if (design.shapeType === "triangle") {
+    const tri = triangleCutDimensions(design.fabricData);
+    lines.push(`Triangle side (finished):  ${design.fabricData.cellSizeMm} mm`);
+    lines.push(`Triangle height (finished): ${tri.finishedHeightMm.toFixed(1)} mm`);
+    lines.push(`Seam allowance:            ${design.fabricData.seamAllowanceMm} mm`);
+    lines.push(`CUT SIDE (with seam):      ${tri.cutSideMm.toFixed(1)} mm (${(tri.cutSideMm / 25.4).toFixed(2)}")`);
+    lines.push(`STRIP WIDTH (with seam):   ${tri.stripWidthMm.toFixed(1)} mm (${(tri.stripWidthMm / 25.4).toFixed(2)}")`);
+    lines.push("");
+    lines.push("Cut strips at the strip width above. Align the 60° line of your");
+    lines.push("ruler with the strip edge, cut, then flip the ruler for the next");
+    lines.push(`cut. Each triangle uses about ${(tri.cutSideMm / 2).toFixed(1)} mm of strip length.`);
+  } else if (design.shapeType === "hexagon") {
+    const hex = hexagonCutDimensions(design.fabricData);
+    lines.push("English paper piecing: baste each fabric piece over a paper template.");
+    lines.push("");
+    lines.push(`Hexagon side (finished):   ${design.fabricData.cellSizeMm} mm (${(design.fabricData.cellSizeMm / 25.4).toFixed(2)}")`);
+    lines.push(`PAPER TEMPLATE:            side ${design.fabricData.cellSizeMm} mm, ${hex.templateWidthMm.toFixed(1)} mm flat to flat,`);
+    lines.push(`                           ${hex.templateHeightMm.toFixed(1)} mm point to point`);
+    lines.push(`Templates needed:          ${design.shapes.length}`);
+    lines.push(`Seam allowance:            ${design.fabricData.seamAllowanceMm} mm`);
+    lines.push(`FABRIC CUT (hexagon):      side ${hex.cutSideMm.toFixed(1)} mm`);
+    lines.push(`FABRIC CUT (rectangle):    ${hex.cutWidthMm.toFixed(1)} mm × ${hex.cutHeightMm.toFixed(1)} mm`);
+    lines.push(`                           ${(hex.cutWidthMm / 25.4).toFixed(2)}" × ${(hex.cutHeightMm / 25.4).toFixed(2)}"`);
+  } else if (design.shapeType === "hst") {
+    const cutSize = design.fabricData.cellSizeMm + design.fabricData.seamAllowanceMm * 2;
+    const plan = planHstCutting(design);
+    lines.push(`Unit size (finished):   ${design.fabricData.cellSizeMm} mm`);
+    lines.push(`Seam allowance:         ${design.fabricData.seamAllowanceMm} mm`);
+    lines.push(`SOLID SQUARES:          ${cutSize} mm × ${cutSize} mm (${plan.solidCount} pieces)`);
+    lines.push(`HST UNITS:              ${plan.pairs.reduce((s, p) => s + p.units, 0)} units`);
+    lines.push(`  Two-at-a-time square:   ${plan.twoSquareMm.toFixed(1)} mm (${(plan.twoSquareMm / 25.4).toFixed(2)}")`);
+    lines.push(`  Eight-at-a-time square: ${plan.eightSquareMm.toFixed(1)} mm (${(plan.eightSquareMm / 25.4).toFixed(2)}")`);
+    lines.push("");
+    lines.push("Two-at-a-time: pair one square of each color right sides together,");
+    lines.push("sew a seam allowance either side of the diagonal, cut on the line.");
+    lines.push("Eight-at-a-time: sew either side of both diagonals, then cut");
+    lines.push("horizontally, vertically and along both diagonals.");
+    lines.push("Trim every unit to the finished size plus seam allowance.");
+    lines.push("");
+    lines.push("HST UNITS PER COLOR PAIR");
+    for (const pair of plan.pairs) {
+      const methods = [
+        pair.eightSets > 0 ? `${pair.eightSets}× eight-at-a-time` : "",
+        pair.twoSets > 0 ? `${pair.twoSets}× two-at-a-time` : "",
+      ].filter(Boolean).join(" + ");
+      lines.push(`  ${pair.colors[0]} / ${pair.colors[1]} | ${String(pair.units).padStart(4)} units | ${methods}`);
+    }
+  } else if (design.shapeType === "rectangle") {
+    const plan = planRectangleCutting(design);
+    lines.push(`Grid unit (finished):   ${design.fabricData.cellSizeMm} mm`);
+    lines.push(`Seam allowance:         ${design.fabricData.seamAllowanceMm} mm`);
+    lines.push(`Distinct cut sizes:     ${plan.sizes.length}`);
+    lines.push("");
+    lines.push("CUT SIZES (with seam)   | pieces | by color");
+    for (const size of plan.sizes) {
+      const dims = `${size.cutWidthMm} × ${size.cutHeightMm} mm`;
+      const byColor = Object.entries(size.byColor)
+        .map(([color, count]) => `${count}× ${color}`)
+        .join(", ");
+      lines.push(`${dims.padEnd(23)} | ${String(size.count).padStart(6)} | ${byColor}`);
+    }
+  } else if (design.shapeType === "voronoi") {
+    lines.push("Every Voronoi cell is its own template. Print the SVG or PDF at full");
+    lines.push("size, or draft each piece from the edge lengths and corner angles");
+    lines.push("below. Corners are listed in order around the piece; edge i runs");
+    lines.push("from corner i to corner i + 1.");
+    lines.push(`Seam allowance:         ${design.fabricData.seamAllowanceMm} mm (added around every edge)`);
+    lines.push("");
+    lines.push("PIECE TEMPLATES (finished)");
+    for (const shape of design.shapes) {
+      if (!shape.template) continue;
+      const { edgeLengthsMm, cornerAnglesDeg, areaMm2 } = shape.template;
+      lines.push(
+        `${shape.id.padEnd(12)} ${shape.color.padEnd(18)} ${(areaMm2 / 100).toFixed(1)} cm² | neighbors: ${shape.stitchData.neighbors.join(", ")}`
+      );
+      lines.push(`  edges (mm):  ${edgeLengthsMm.map((l) => l.toFixed(1)).join(" · ")}`);
+      lines.push(`  angles (°):  ${cornerAnglesDeg.map((a) => a.toFixed(0)).join(" · ")}`);
+    }
+  } else {
+    const cutSize = design.fabricData.cellSizeMm + design.fabricData.seamAllowanceMm * 2;
+    lines.push(`Piece size (finished):  ${design.fabricData.cellSizeMm} mm`);
+    lines.push(`Seam allowance:         ${design.fabricData.seamAllowanceMm} mm`);
+    lines.push(`CUT SIZE (with seam):   ${cutSize} mm × ${cutSize} mm`);
+    lines.push(`                        ${(cutSize / 25.4).toFixed(2)}" × ${(cutSize / 25.4).toFixed(2)}"`);
+  }
+  lines.push("");
+
+  const colorCounts = countPiecesByColor(design);
+  const resolved = { ...DEFAULT_YARDAGE_OPTIONS, ...options };
+  const yardage = calculateYardage(cutPiecesByColor(design), resolved);
+
+  lines.push("FABRIC REQUIREMENTS BY COLOR");
+  lines.push("───────────────────────────────────────────────────────────────");
+  lines.push(
+    `Width of fabric:   ${resolved.widthOfFabricIn}" (${usableWidthMm(resolved).toFixed(0)} mm usable after trimming`
+  );
+  lines.push(
+    `                   ${resolved.selvageMm} mm selvage per side and ${resolved.shrinkagePercent}% shrinkage)`
+  );
+  lines.push("Cut strips across the width of fabric, then sub-cut them.");
+  lines.push("");
+  yardage.forEach((entry, i) => {
+    const fabric = design.fabrics?.[entry.color];
+    lines.push(
+      `Color ${i + 1}: ${entry.color.padEnd(8)} | ${String(colorCounts[entry.color] ?? 0).padStart(4)} pieces | buy ${entry.purchaseLabel}`
+    );
+    if (fabric) {
+      lines.push(`  Fabric: ${fabric.manufacturer} ${fabricLabel(fabric)}`);
+    }
+    for (const strip of entry.strips) {
+      const width = `${strip.stripWidthMm.toFixed(1)} mm (${(strip.stripWidthMm / 25.4).toFixed(2)}")`;
+      const cuts = strip.cuts
+        .map((cut) => `${cut.count} × ${cut.lengthMm.toFixed(1)} mm ${cut.label}`)
+        .join(", ");
+      if (strip.oversize) {
+        lines.push(`  ${cuts} × ${width}: wider than the fabric, piece them or use wide backing`);
+      } else {
+        lines.push(`  Cut ${strip.stripCount} strip${strip.stripCount === 1 ? "" : "s"} × ${width}, sub-cut ${cuts}`);
+      }
+    }
+  });
+  lines.push("");
+
+  lines.push("STITCHING ORDER (Row by Row)");
+  lines.push("───────────────────────────────────────────────────────────────");
+  lines.push("1. Cut all pieces with seam allowance");
+  lines.push("2. Organize by row");
+  if (design.shapeType === "triangle") {
+    lines.push("3. Sew triangles in each row left to right, alternating up and down");
+  } else if (design.shapeType === "hexagon") {
+    lines.push("3. Whip-stitch hexagons in each row; odd rows sit half a hexagon to the right");
+  } else {
+    lines.push("3. Sew pieces in each row left to right");
+  }
+  lines.push("4. Press seams in alternating directions per row");
+  lines.push("5. Join rows from top to bottom");
+  lines.push("6. Press final seams");
+  if (design.shapeType === "triangle") {
+    lines.push("7. Trim the overhanging half triangles at both sides square");
+  }
+  lines.push("");
+
+  lines.push("═══════════════════════════════════════════════════════════════");
+  lines.push(`Generated: ${new Date().toISOString()}`);
+  lines.push("═══════════════════════════════════════════════════════════════");
+
+  return lines.join("\n");
+}
+
+
+/**
+ * Cut dimensions for an equilateral triangle. Offsetting each edge outward
+ * by the seam allowance adds 3× the allowance to the height and 2√3× to the side.
+ */
+function triangleCutDimensions(fabricData: QuiltDesign["fabricData"]) {
+  const { cellSizeMm, seamAllowanceMm } = fabricData;
+  const finishedHeightMm = (cellSizeMm * Math.sqrt(3)) / 2;
+  const stripWidthMm = finishedHeightMm + 3 * seamAllowanceMm;
+  const cutSideMm = cellSizeMm + 2 * Math.sqrt(3) * seamAllowanceMm;
+  return {
+    finishedHeightMm,
+    stripWidthMm,
+    cutSideMm,
+    areaMm2: (cutSideMm * cutSideMm * Math.sqrt(3)) / 4,
+  };
+}
+
+/**
+ * Paper template and fabric cut dimensions for a pointy-top hexagon.
+ * Offsetting each edge outward by the seam allowance grows the side by
+ * 2/√3× the allowance; the rectangle is the easiest way to rotary cut it.
+ */
+function hexagonCutDimensions(fabricData: QuiltDesign["fabricData"]) {
+  const { cellSizeMm, seamAllowanceMm } = fabricData;
+  const cutSideMm = cellSizeMm + (2 * seamAllowanceMm) / Math.sqrt(3);
+  return {
+    templateWidthMm: cellSizeMm * Math.sqrt(3),
+    templateHeightMm: cellSizeMm * 2,
+    cutSideMm,
+    cutWidthMm: cutSideMm * Math.sqrt(3),
+    cutHeightMm: cutSideMm * 2,
+  };
+}
+
+/**
+ * Count pieces per fabric color. Half-square-triangle units count once
+ * for each of their two colors.
+ */
+export function countPiecesByColor(design: QuiltDesign): Record<string, number> {
+  const colorCounts: Record<string, number> = {};
+  for (const shape of design.shapes) {
+    const colors = shape.hst ? shape.hst.colors : [shape.color];
+    for (const color of colors) {
+      colorCounts[color] = (colorCounts[color] || 0) + 1;
+    }
+  }
+  return colorCounts;
+}
+
+/**
+ * Group half-square-triangle units by color pair and plan how to cut them:
+ * as many eight-at-a-time sets as possible, the rest two at a time.
+ * Cut squares are finished size plus (2 + √2)× the seam allowance, the exact
+ * form of the usual "finished + 7/8 inch" rule.
+ */
+function planHstCutting(design: QuiltDesign) {
+  const { cellSizeMm, seamAllowanceMm } = design.fabricData;
+  const twoSquareMm = cellSizeMm + (2 + Math.SQRT2) * seamAllowanceMm;
+  const eightSquareMm = twoSquareMm * 2;
+
+  const unitsByPair = new Map<string, { colors: [string, string]; units: number }>();
+  const solidByColor: Record<string, number> = {};
+  let solidCount = 0;
+
+  for (const shape of design.shapes) {
+    if (!shape.hst) {
+      solidCount++;
+      solidByColor[shape.color] = (solidByColor[shape.color] || 0) + 1;
+      continue;
+    }
+    const colors = [...shape.hst.colors].sort() as [string, string];
+    const key = colors.join("|");
+    const entry = unitsByPair.get(key) ?? { colors, units: 0 };
+    entry.units++;
+    unitsByPair.set(key, entry);
+  }
+
+  const pairs = [...unitsByPair.values()]
+    .sort((a, b) => b.units - a.units)
+    .map(({ colors, units }) => {
+      const eightSets = Math.floor(units / 8);
+      const twoSets = Math.ceil((units - eightSets * 8) / 2);
+      return { colors, units, eightSets, twoSets };
+    });
+
+  return { solidCount, solidByColor, pairs, twoSquareMm, eightSquareMm };
+}
+
+/**
+ * Group merged rectangles by cut size. Rotated pieces (2×3 and 3×2) share
+ * a size since they come from the same strip.
+ */
+function planRectangleCutting(design: QuiltDesign) {
+  const { seamAllowanceMm } = design.fabricData;
+  const bySize = new Map<
+    string,
+    { cutWidthMm: number; cutHeightMm: number; count: number; byColor: Record<string, number> }
+  >();
+
+  for (const shape of design.shapes) {
+    const widthMm = shape.stitchData.sizeMm;
+    const heightMm = shape.stitchData.heightMm ?? widthMm;
+    const cutShortMm = Math.round((Math.min(widthMm, heightMm) + seamAllowanceMm * 2) * 10) / 10;
+    const cutLongMm = Math.round((Math.max(widthMm, heightMm) + seamAllowanceMm * 2) * 10) / 10;
+    const key = `${cutShortMm}x${cutLongMm}`;
+
+    const entry = bySize.get(key) ?? {
+      cutWidthMm: cutShortMm,
+      cutHeightMm: cutLongMm,
+      count: 0,
+      byColor: {},
+    };
+    entry.count++;
+    entry.byColor[shape.color] = (entry.byColor[shape.color] || 0) + 1;
+    bySize.set(key, entry);
+  }
+
+  const sizes = [...bySize.values()].sort(
+    (a, b) => b.cutWidthMm * b.cutHeightMm - a.cutWidthMm * a.cutHeightMm
+  );
+
+  return { sizes };
+}
+
+/**
+ * Rotary-cut pieces per color for the yardage engine. Each piece is cut
+ * from a strip as wide as `widthMm`; irregular templates are cut from
+ * their bounding box, rounded up to 5 mm so similar pieces share strips.
+ */
+export function cutPiecesByColor(design: QuiltDesign): Record<string, CutPiece[]> {
+  const { cellSizeMm, seamAllowanceMm } = design.fabricData;
+  const cutsByColor: Record<string, CutPiece[]> = {};
+  const add = (color: string, piece: CutPiece) => {
+    (cutsByColor[color] ??= []).push(piece);
+  };
+
+  if (design.shapeType === "triangle") {
+    const tri = triangleCutDimensions(design.fabricData);
+    for (const [color, count] of Object.entries(countPiecesByColor(design))) {
+      // Alternating up and down triangles each use half a cut side of strip
+      add(color, {
+        label: "triangles",
+        widthMm: tri.stripWidthMm,
+        lengthMm: tri.cutSideMm / 2,
+        stripEndMm: tri.cutSideMm / 2,
+        count,
+      });
+    }
+  } else if (design.shapeType === "hexagon") {
+    const hex = hexagonCutDimensions(design.fabricData);
+    for (const [color, count] of Object.entries(countPiecesByColor(design))) {
+      add(color, { label: "rectangles", widthMm: hex.cutWidthMm, lengthMm: hex.cutHeightMm, count });
+    }
+  } else if (design.shapeType === "hst") {
+    const plan = planHstCutting(design);
+    const cutSize = cellSizeMm + seamAllowanceMm * 2;
+    for (const [color, count] of Object.entries(plan.solidByColor)) {
+      add(color, { label: "squares", widthMm: cutSize, lengthMm: cutSize, count });
+    }
+    // Each HST set takes one square of each color in the pair
+    for (const pair of plan.pairs) {
+      for (const color of pair.colors) {
+        add(color, {
+          label: "eight-at-a-time squares",
+          widthMm: plan.eightSquareMm,
+          lengthMm: plan.eightSquareMm,
+          count: pair.eightSets,
+        });
+        add(color, {
+          label: "two-at-a-time squares",
+          widthMm: plan.twoSquareMm,
+          lengthMm: plan.twoSquareMm,
+          count: pair.twoSets,
+        });
+      }
+    }
+  } else if (design.shapeType === "rectangle") {
+    for (const size of planRectangleCutting(design).sizes) {
+      for (const [color, count] of Object.entries(size.byColor)) {
+        add(color, { label: "rectangles", widthMm: size.cutWidthMm, lengthMm: size.cutHeightMm, count });
+      }
+    }
+  } else if (design.shapeType === "voronoi") {
+    for (const shape of design.shapes) {
+      if (!shape.template) continue;
+      const xs = shape.template.cutMm.map((p) => p.x);
+      const ys = shape.template.cutMm.map((p) => p.y);
+      const w = Math.ceil((Math.max(...xs) - Math.min(...xs)) / 5) * 5;
+      const h = Math.ceil((Math.max(...ys) - Math.min(...ys)) / 5) * 5;
+      add(shape.color, { label: "templates", widthMm: Math.min(w, h), lengthMm: Math.max(w, h), count: 1 });
+    }
+  } else {
+    const cutSize = cellSizeMm + seamAllowanceMm * 2;
+    for (const [color, count] of Object.entries(countPiecesByColor(design))) {
+      add(color, { label: "squares", widthMm: cutSize, lengthMm: cutSize, count });
+    }
+  }
+
+  return cutsByColor;
+}
@@ -0,0 +1,27 @@
+/**
+ * Base64 image data URLs, as passed between the pages and the API routes
+ */
+
+/** Image types the AI routes accept */
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+/** Largest accepted image, in bytes */
+export const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+export type ImageInput = { mimeType: string; data: string };
+
+/** Split a base64 data URL into its MIME type and payload */
+export function parseDataUrl(dataUrl: unknown): ImageInput | null {
+  if (typeof dataUrl !== "string") return null;
+  const match = dataUrl.match(/^data:([\w/+.-]+);base64,([A-Za-z0-9+/=]+)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
+/**
+ * Why an image can't be sent to a model, or null when it can
+ */
+export function checkImageInput(image: ImageInput): string | null {
+  if (!IMAGE_TYPES.includes(image.mimeType)) return `Unsupported image type ${image.mimeType}`;
+  if ((image.data.length * 3) / 4 > MAX_IMAGE_BYTES) return "Image is too large";
+  return null;
+}
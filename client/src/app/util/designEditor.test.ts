@@ -0,0 +1,283 @@
+import { describe, expect, it } from "vitest";
+import {
+  floodFillRegion,
+  paintPieces,
+  pieceColor,
+  recordEdit,
+  redoEdit,
+  renderDesignSvg,
+  replaceLockedColor,
+  replacePaletteColor,
+  undoEdit,
+  type EditHistory,
+} from "./designEditor";
+import {
+  generateHstDesign,
+  generateQuiltDesign,
+  processImageDataToQuiltSvg,
+  processImageToVoronoiSvg,
+  quiltDesignToSvg,
+  type PixelData,
+  type QuiltDesign,
+} from "./imageProcessing";
+
+type RGB = [number, number, number];
+
+const RED: RGB = [255, 0, 0];
+const BLUE: RGB = [0, 0, 255];
+const GREEN: RGB = [0, 255, 0];
+
+/**
+ * 2×2 grid whose top-left cell is split tl-br: its upper half (top and
+ * right edges) is red like the cell to its right, its lower half (bottom
+ * and left edges) blue like the row below
+ */
+function hstDesign(): QuiltDesign {
+  return generateHstDesign(
+    [
+      ["tl-br", null],
+      [null, null],
+    ],
+    [
+      [RED, RED],
+      [BLUE, BLUE],
+    ],
+    [
+      [BLUE, RED],
+      [BLUE, BLUE],
+    ],
+    [RED, BLUE]
+  );
+}
+
+const idAt = (design: QuiltDesign, row: number, col: number) =>
+  design.shapes.find((s) => s.stitchData.gridPosition.row === row && s.stitchData.gridPosition.col === col)!.id;
+
+/** Top third red, the rest blue */
+function bands(width: number, height: number): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set(i < (width * height) / 3 ? [200, 30, 30, 255] : [30, 30, 200, 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+describe("paintPieces", () => {
+  it("recolors whole shapes and leaves the input alone", () => {
+    const design = generateQuiltDesign([[RED, BLUE]], [RED, BLUE], "pixel");
+    const painted = paintPieces(design, [{ id: idAt(design, 0, 0) }], "#00ff00");
+
+    expect(pieceColor(painted, { id: idAt(design, 0, 0) })).toBe("#00ff00");
+    expect(pieceColor(painted, { id: idAt(design, 0, 1) })).toBe("#0000ff");
+    expect(pieceColor(design, { id: idAt(design, 0, 0) })).toBe("#ff0000");
+    expect(pieceColor(design, { id: "missing" })).toBeUndefined();
+  });
+
+  it("recolors one half of a split square", () => {
+    const design = hstDesign();
+    const id = idAt(design, 0, 0);
+    const painted = paintPieces(design, [{ id, half: 1 }], "#00ff00");
+
+    expect(painted.shapes.find((s) => s.id === id)!.hst!.colors).toEqual(["#ff0000", "#00ff00"]);
+    expect(pieceColor(painted, { id, half: 0 })).toBe("#ff0000");
+  });
+
+  it("turns a split square solid when both halves match", () => {
+    const design = hstDesign();
+    const id = idAt(design, 0, 0);
+
+    for (const painted of [paintPieces(design, [{ id, half: 1 }], "#ff0000"), paintPieces(design, [{ id }], "#ff0000")]) {
+      const shape = painted.shapes.find((s) => s.id === id)!;
+      expect(shape.hst).toBeUndefined();
+      expect(shape.color).toBe("#ff0000");
+      expect(shape.stitchData.angle).toBe(0);
+    }
+  });
+});
+
+describe("floodFillRegion", () => {
+  const sorted = (refs: { id: string; half?: 0 | 1 }[]) =>
+    refs.map((ref) => (ref.half === undefined ? ref.id : `${ref.id}:${ref.half}`)).sort();
+
+  it("spreads into the half of a split square that touches the region", () => {
+    const design = hstDesign();
+    const split = idAt(design, 0, 0);
+
+    expect(sorted(floodFillRegion(design, { id: idAt(design, 0, 1) }))).toEqual(sorted([{ id: idAt(design, 0, 1) }, { id: split, half: 0 }]));
+    expect(sorted(floodFillRegion(design, { id: idAt(design, 1, 1) }))).toEqual(
+      sorted([{ id: idAt(design, 1, 0) }, { id: idAt(design, 1, 1) }, { id: split, half: 1 }])
+    );
+  });
+
+  it("starts from one half of a split square", () => {
+    const design = hstDesign();
+    const split = idAt(design, 0, 0);
+
+    expect(sorted(floodFillRegion(design, { id: split, half: 1 }))).toEqual(
+      sorted([{ id: idAt(design, 1, 0) }, { id: idAt(design, 1, 1) }, { id: split, half: 1 }])
+    );
+  });
+
+  it("stops at other colors and finds nothing for a missing piece", () => {
+    const design = generateQuiltDesign(
+      [
+        [RED, BLUE, RED],
+        [RED, BLUE, RED],
+      ],
+      [RED, BLUE],
+      "pixel"
+    );
+
+    expect(floodFillRegion(design, { id: idAt(design, 0, 0) })).toHaveLength(2);
+    expect(floodFillRegion(design, { id: "missing" })).toEqual([]);
+  });
+});
+
+describe("edit history", () => {
+  const empty: EditHistory<string> = { past: [], future: [] };
+
+  it("undoes and redoes edits in order", () => {
+    // a -> b -> c
+    const history = recordEdit(recordEdit(empty, "a", 100), "b", 100);
+
+    const back = undoEdit(history, "c")!;
+    expect(back.restored).toBe("b");
+    const backAgain = undoEdit(back.history, back.restored)!;
+    expect(backAgain.restored).toBe("a");
+    expect(undoEdit(backAgain.history, backAgain.restored)).toBeUndefined();
+
+    const forward = redoEdit(backAgain.history, backAgain.restored)!;
+    expect(forward.restored).toBe("b");
+    expect(redoEdit(forward.history, forward.restored)!.restored).toBe("c");
+  });
+
+  it("drops the redo steps on a new edit", () => {
+    const { history } = undoEdit(recordEdit(empty, "a", 100), "b")!;
+
+    expect(history.future).toEqual(["b"]);
+    expect(recordEdit(history, "a", 100)).toEqual({ past: ["a"], future: [] });
+  });
+
+  it("keeps only the latest undo steps", () => {
+    let history = empty;
+    for (const step of ["a", "b", "c", "d"]) history = recordEdit(history, step, 3);
+
+    expect(history.past).toEqual(["b", "c", "d"]);
+    expect(redoEdit(history, "e")).toBeUndefined();
+  });
+});
+
+describe("renderDesignSvg", () => {
+  it("re-renders grid designs from the design", () => {
+    const original = hstDesign();
+    const design = paintPieces(original, [{ id: idAt(original, 1, 1) }], "#00ff00");
+
+    expect(renderDesignSvg(design, "<svg/>")).toBe(quiltDesignToSvg(design));
+  });
+
+  it("recolors Voronoi pieces in the generated SVG", async () => {
+    const { svg, design } = await processImageToVoronoiSvg(bands(60, 40), {
+      numSeeds: 20,
+      numColors: 2,
+      relaxationIterations: 1,
+      edgeWeighted: false,
+      borderWidth: 1,
+      cellSizeMm: 25,
+      seamAllowanceMm: 6.35,
+      seed: 1,
+    });
+    const [first, second] = design.shapes;
+    const edited = {
+      ...paintPieces(design, [{ id: first.id }], "rgb(0,255,0)"),
+      colorPalette: [...design.colorPalette, "rgb(0,255,0)"],
+    };
+    const rendered = renderDesignSvg(edited, svg);
+    const fillOf = (id: string) => rendered.match(new RegExp(`<path\\b[^>]*data-id="${id}"[^>]*>`))?.[0].match(/fill="([^"]*)"/)?.[1];
+
+    expect(fillOf(first.id)).toBe("rgb(0,255,0)");
+    expect(fillOf(second.id)).toBe(second.color);
+    expect(rendered).toContain(`"colorPalette":${JSON.stringify(edited.colorPalette)}`);
+    expect(rendered.match(/<path /g)).toHaveLength(svg.match(/<path /g)!.length);
+  });
+});
+
+describe("replacePaletteColor", () => {
+  const stripes = () =>
+    generateQuiltDesign(
+      [
+        [RED, BLUE, GREEN],
+        [RED, BLUE, GREEN],
+      ],
+      [RED, BLUE, GREEN],
+      "pixel"
+    );
+  const colors = (design: QuiltDesign) => design.shapes.map((shape) => shape.color);
+
+  it("recolors every piece of a color with a new color", () => {
+    const design = replacePaletteColor(stripes(), "#0000ff", "#ffff00");
+
+    expect(design.colorPalette).toEqual(["#ff0000", "#ffff00", "#00ff00"]);
+    expect(colors(design)).toEqual(["#ff0000", "#ffff00", "#00ff00", "#ff0000", "#ffff00", "#00ff00"]);
+  });
+
+  it("merges two palette colors into one entry", () => {
+    const design = replacePaletteColor(stripes(), "#0000ff", "#ff0000");
+
+    expect(design.colorPalette).toEqual(["#ff0000", "#00ff00"]);
+    expect(new Set(colors(design))).toEqual(new Set(["#ff0000", "#00ff00"]));
+  });
+
+  it("merges the halves of split squares, making them solid when they match", () => {
+    const design = replacePaletteColor(hstDesign(), "#0000ff", "#ff0000");
+
+    expect(design.colorPalette).toEqual(["#ff0000"]);
+    expect(design.shapes.every((shape) => !shape.hst && shape.color === "#ff0000")).toBe(true);
+  });
+
+  it("recolors only the matching half of a split square", () => {
+    const original = hstDesign();
+    const design = replacePaletteColor(original, "#0000ff", "#00ff00");
+    const split = design.shapes.find((shape) => shape.id === idAt(original, 0, 0))!;
+
+    expect(split.hst!.colors).toEqual(["#ff0000", "#00ff00"]);
+  });
+
+  it("drops the fabric match of the replaced color only", () => {
+    const fabric = (hex: string) => ({ name: hex, manufacturer: "Test", sku: hex, hex });
+    const design = replacePaletteColor(
+      { ...stripes(), fabrics: { "#ff0000": fabric("#ff0000"), "#0000ff": fabric("#0000ff") } },
+      "#0000ff",
+      "#ffff00"
+    );
+
+    expect(Object.keys(design.fabrics!)).toEqual(["#ff0000"]);
+  });
+
+  it("ignores colors that are not in the palette", () => {
+    const design = stripes();
+
+    expect(replacePaletteColor(design, "#123456", "#ff0000")).toBe(design);
+    expect(replacePaletteColor(design, "#ff0000", "#ff0000")).toBe(design);
+  });
+});
+
+describe("locked colors", () => {
+  it("follow a color when it is replaced", () => {
+    expect(replaceLockedColor(["#ff0000", "#0000ff"], "#0000ff", "#ffff00")).toEqual(["#ff0000", "#ffff00"]);
+  });
+
+  it("keep one lock when two locked colors merge", () => {
+    expect(replaceLockedColor(["#ff0000", "#0000ff"], "#0000ff", "#ff0000")).toEqual(["#ff0000"]);
+  });
+
+  it("survive a new run exactly", async () => {
+    const { design } = await processImageDataToQuiltSvg(bands(40, 40), {
+      gridWidth: 8,
+      numColors: 3,
+      lockedColors: ["#123456"],
+      seed: 1,
+    });
+
+    expect(design.colorPalette).toContain("#123456");
+  });
+});
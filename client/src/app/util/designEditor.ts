@@ -0,0 +1,246 @@
+/**
+ * Manual touch-ups of a generated design
+ *
+ * Pieces are recolored to palette colors one at a time or by flood filling
+ * a connected same-color region. Half-square triangles are edited per half.
+ * Edits return a new design; the SVG is re-rendered from it.
+ */
+
+import { quiltDesignToSvg, type QuiltDesign, type QuiltShape } from "./imageProcessing";
+import { parseColor } from "./colorSpace";
+
+/** A piece to edit: a shape, or one half of a half-square triangle */
+export type PieceRef = { id: string; half?: 0 | 1 };
+
+type Side = "top" | "right" | "bottom" | "left";
+
+const OPPOSITE: Record<Side, Side> = { top: "bottom", right: "left", bottom: "top", left: "right" };
+
+function pieceKey(ref: PieceRef): string {
+  return ref.half === undefined ? ref.id : `${ref.id}:${ref.half}`;
+}
+
+/**
+ * Current color of a piece, or undefined when the shape does not exist
+ */
+export function pieceColor(design: QuiltDesign, ref: PieceRef): string | undefined {
+  const shape = design.shapes.find((s) => s.id === ref.id);
+  return shape && colorOf(shape, ref.half);
+}
+
+function colorOf(shape: QuiltShape, half: 0 | 1 | undefined): string {
+  return shape.hst && half !== undefined ? shape.hst.colors[half] : shape.color;
+}
+
+/**
+ * Recolor pieces. Half-square triangles whose halves end up the same
+ * color become solid squares again.
+ */
+export function paintPieces(design: QuiltDesign, refs: PieceRef[], color: string): QuiltDesign {
+  const halvesById = new Map<string, (0 | 1 | undefined)[]>();
+  for (const ref of refs) {
+    halvesById.set(ref.id, [...(halvesById.get(ref.id) ?? []), ref.half]);
+  }
+
+  const shapes = design.shapes.map((shape): QuiltShape => {
+    const halves = halvesById.get(shape.id);
+    if (!halves) return shape;
+    if (!shape.hst) return { ...shape, color };
+
+    const colors: [string, string] = [...shape.hst.colors];
+    for (const half of halves) {
+      if (half === undefined) colors.fill(color);
+      else colors[half] = color;
+    }
+    if (colors[0] === colors[1]) {
+      const solid: QuiltShape = { ...shape, color: colors[0], stitchData: { ...shape.stitchData, angle: 0 } };
+      delete solid.hst;
+      return solid;
+    }
+    return { ...shape, color: colors[0], hst: { ...shape.hst, colors } };
+  });
+
+  return { ...design, shapes };
+}
+
+/**
+ * Any palette color as "#rrggbb", e.g. for a color input
+ */
+export function toHexColor(color: string): string {
+  return `#${parseColor(color).map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Write a color the way the design writes its palette: Voronoi designs
+ * use "rgb(r,g,b)", the other styles "#rrggbb"
+ */
+export function toDesignColor(design: QuiltDesign, color: string): string {
+  if (design.shapeType !== "voronoi") return toHexColor(color);
+  const [r, g, b] = parseColor(color);
+  return `rgb(${r},${g},${b})`;
+}
+
+/**
+ * Replace a palette color everywhere it is used. Replacing it with another
+ * palette color merges the two entries. The old color's fabric match is
+ * dropped, since the new color is no longer that fabric.
+ */
+export function replacePaletteColor(design: QuiltDesign, from: string, to: string): QuiltDesign {
+  if (from === to || !design.colorPalette.includes(from)) return design;
+
+  const refs: PieceRef[] = design.shapes.flatMap((shape): PieceRef[] => {
+    if (!shape.hst) return shape.color === from ? [{ id: shape.id }] : [];
+    return ([0, 1] as const).filter((half) => shape.hst!.colors[half] === from).map((half) => ({ id: shape.id, half }));
+  });
+  const painted = paintPieces(design, refs, to);
+
+  const colorPalette = design.colorPalette.includes(to)
+    ? design.colorPalette.filter((color) => color !== from)
+    : design.colorPalette.map((color) => (color === from ? to : color));
+
+  let fabrics = design.fabrics;
+  if (fabrics && from in fabrics) {
+    fabrics = { ...fabrics };
+    delete fabrics[from];
+  }
+
+  return { ...painted, colorPalette, fabrics };
+}
+
+/**
+ * Locked colors after `from` was replaced with `to`: the lock follows the
+ * color, and merging into another locked color leaves one lock
+ */
+export function replaceLockedColor(lockedColors: string[], from: string, to: string): string[] {
+  return [...new Set(lockedColors.map((color) => (color === from ? to : color)))];
+}
+
+/**
+ * All pieces in the connected same-color region around `start`
+ */
+export function floodFillRegion(design: QuiltDesign, start: PieceRef): PieceRef[] {
+  const byId = new Map(design.shapes.map((shape) => [shape.id, shape]));
+  const startShape = byId.get(start.id);
+  if (!startShape) return [];
+
+  const color = colorOf(startShape, start.half);
+  const queue: PieceRef[] =
+    startShape.hst && start.half === undefined
+      ? [{ id: start.id, half: 0 }, { id: start.id, half: 1 }]
+      : [start];
+  const seen = new Set(queue.map(pieceKey));
+  const region: PieceRef[] = [];
+
+  while (queue.length > 0) {
+    const ref = queue.shift()!;
+    if (colorOf(byId.get(ref.id)!, ref.half) !== color) continue;
+    region.push(ref);
+    for (const neighbor of pieceNeighbors(byId, ref)) {
+      const key = pieceKey(neighbor);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      queue.push(neighbor);
+    }
+  }
+
+  return region;
+}
+
+/**
+ * Pieces sharing an edge with a piece. Grid neighbors are placed by their
+ * grid position, so each side of a split cell only meets the half of the
+ * next cell on that side.
+ */
+function pieceNeighbors(byId: Map<string, QuiltShape>, ref: PieceRef): PieceRef[] {
+  const shape = byId.get(ref.id);
+  if (!shape) return [];
+
+  const neighbors: PieceRef[] = [];
+  if (shape.hst && ref.half !== undefined) neighbors.push({ id: ref.id, half: ref.half === 0 ? 1 : 0 });
+
+  for (const id of shape.stitchData.neighbors) {
+    const other = byId.get(id);
+    if (!other) continue;
+    const side = shape.hst || other.hst ? sideOf(shape, other) : undefined;
+    if (side && shape.hst && halfOnSide(shape, side) !== ref.half) continue;
+    if (side && other.hst) {
+      neighbors.push({ id, half: halfOnSide(other, OPPOSITE[side]) });
+    } else {
+      neighbors.push({ id });
+    }
+  }
+  return neighbors;
+}
+
+/**
+ * Side of `shape` that `other` lies on, for cells of a square grid
+ */
+function sideOf(shape: QuiltShape, other: QuiltShape): Side | undefined {
+  const a = shape.stitchData.gridPosition;
+  const b = other.stitchData.gridPosition;
+  if (b.col === a.col && b.row === a.row - 1) return "top";
+  if (b.row === a.row && b.col === a.col + 1) return "right";
+  if (b.col === a.col && b.row === a.row + 1) return "bottom";
+  if (b.row === a.row && b.col === a.col - 1) return "left";
+  return undefined;
+}
+
+/**
+ * Which half of a split cell has an edge on `side`: the upper half always
+ * has the top edge, plus the right edge when the diagonal runs tl-br
+ */
+function halfOnSide(shape: QuiltShape, side: Side): 0 | 1 {
+  const tlbr = shape.hst?.diagonal !== "tr-bl";
+  if (side === "top") return 0;
+  if (side === "bottom") return 1;
+  if (side === "right") return tlbr ? 0 : 1;
+  return tlbr ? 1 : 0;
+}
+
+/** Undo and redo stacks: `past` ends with the latest step, `future` starts with the next one */
+export type EditHistory<T> = { past: T[]; future: T[] };
+
+/**
+ * Record `current` before an edit replaces it. A new edit drops the redo
+ * steps, and only the last `limit` undo steps are kept.
+ */
+export function recordEdit<T>(history: EditHistory<T>, current: T, limit: number): EditHistory<T> {
+  return { past: [...history.past, current].slice(-limit), future: [] };
+}
+
+/**
+ * Step back from `current`, or undefined when there is nothing to undo
+ */
+export function undoEdit<T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; restored: T } | undefined {
+  if (history.past.length === 0) return undefined;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    restored: history.past[history.past.length - 1],
+  };
+}
+
+/**
+ * Step forward from `current`, or undefined when there is nothing to redo
+ */
+export function redoEdit<T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; restored: T } | undefined {
+  const [next, ...future] = history.future;
+  if (next === undefined) return undefined;
+  return { history: { past: [...history.past, current], future }, restored: next };
+}
+
+/**
+ * SVG for an edited design. Voronoi outlines only exist in the generated
+ * SVG, so its pieces are recolored in place; other styles are re-rendered.
+ */
+export function renderDesignSvg(design: QuiltDesign, previousSvg: string): string {
+  if (design.shapeType !== "voronoi") return quiltDesignToSvg(design);
+
+  const colorById = new Map(design.shapes.map((shape) => [shape.id, shape.color]));
+  return previousSvg
+    .replace(/<path\b[^>]*>/g, (tag) => {
+      const id = tag.match(/data-id="([^"]+)"/)?.[1];
+      const color = id ? colorById.get(id) : undefined;
+      return color ? tag.replace(/fill="[^"]*"/, `fill="${color}"`) : tag;
+    })
+    .replace(/"colorPalette":\[[^\]]*\]/, `"colorPalette":${JSON.stringify(design.colorPalette)}`);
+}
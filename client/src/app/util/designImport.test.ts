@@ -0,0 +1,227 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from "vitest";
+import { parseQuiltJson, parseQuiltSvg, validateQuiltDesign } from "./designImport";
+import {
+  generateHstDesign,
+  generateQuiltDesign,
+  processImageToVoronoiSvg,
+  quiltDesignToSvg,
+  type PieceTemplate,
+  type PixelData,
+  type Point,
+  type QuiltDesign,
+  type QuiltShape,
+} from "./imageProcessing";
+
+type RGB = [number, number, number];
+
+const RED: RGB = [200, 30, 30];
+const BLUE: RGB = [30, 30, 200];
+
+function pixelDesign(): QuiltDesign {
+  return generateQuiltDesign(
+    [
+      [RED, BLUE],
+      [BLUE, RED],
+    ],
+    [RED, BLUE],
+    "pixel"
+  );
+}
+
+/** Striped test image: red on the left, blue on the right */
+function stripes(width: number, height: number): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([...(i % width < width / 2 ? RED : BLUE), 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+async function voronoiDesign(): Promise<{ svg: string; design: QuiltDesign }> {
+  return processImageToVoronoiSvg(stripes(60, 40), {
+    numSeeds: 30,
+    numColors: 2,
+    relaxationIterations: 1,
+    edgeWeighted: false,
+    borderWidth: 1,
+    cellSizeMm: 25,
+    seamAllowanceMm: 6.35,
+    seed: 1,
+  });
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe("parseQuiltJson", () => {
+  it("reads back the JSON download", () => {
+    const design = pixelDesign();
+    const imported = parseQuiltJson(JSON.stringify(design));
+
+    expect(imported.design).toEqual(design);
+    expect(imported.svg).toBe(quiltDesignToSvg(design));
+  });
+
+  it("redraws Voronoi outlines from the cutting templates", async () => {
+    const { design } = await voronoiDesign();
+    const imported = parseQuiltJson(JSON.stringify(design));
+
+    expect(imported.svg.match(/<path /g)).toHaveLength(design.shapes.length);
+  });
+
+  it("says what is wrong with a file", () => {
+    expect(() => parseQuiltJson("{")).toThrow("File is not valid JSON.");
+    expect(() => parseQuiltJson("[]")).toThrow("Not a quilt design: expected an object.");
+    expect(() => parseQuiltJson(JSON.stringify({ ...pixelDesign(), shapes: [] }))).toThrow("shapes must be a non-empty list");
+  });
+});
+
+describe("validateQuiltDesign", () => {
+  it("adds shape colors missing from the palette", () => {
+    const design = pixelDesign();
+    design.colorPalette = [design.colorPalette[0]];
+
+    expect(validateQuiltDesign(design).colorPalette).toEqual(pixelDesign().colorPalette);
+  });
+
+  it("accepts every color format the pipeline writes", () => {
+    const design = pixelDesign();
+    design.shapes[0].color = "#abc";
+    design.shapes[1].color = "rgb(10, 20, 30)";
+
+    expect(() => validateQuiltDesign(design)).not.toThrow();
+  });
+
+  it.each([
+    ["a shape color", (d: QuiltDesign) => (d.shapes[0].color = 'red" onmouseover="alert(1)')],
+    ["a palette color", (d: QuiltDesign) => (d.colorPalette[0] = "url(javascript:alert(1))")],
+    ["a shape id", (d: QuiltDesign) => (d.shapes[0].id = '"><script>alert(1)</script>')],
+    ["a neighbor id", (d: QuiltDesign) => (d.shapes[0].stitchData.neighbors = ['x" onclick="alert(1)'])],
+    ["a seed", (d: QuiltDesign) => Object.assign(d, { seed: "--><script>alert(1)</script>" })],
+    [
+      "a fabric",
+      (d: QuiltDesign) => (d.fabrics = { "#c81e1e": { name: "Red", manufacturer: "X", sku: "1", hex: "<b>" } }),
+    ],
+  ])("rejects markup in %s", (_, tamper) => {
+    const design = clone(pixelDesign());
+    tamper(design);
+
+    expect(() => validateQuiltDesign(design)).toThrow(/Not a quilt design/);
+  });
+
+  it("rejects markup in split square colors", () => {
+    const design = clone(generateHstDesign([["tl-br"]], [[RED]], [[BLUE]], [RED, BLUE]));
+    design.shapes[0].hst!.colors[1] = '#fff"/><script>alert(1)</script>';
+
+    expect(() => validateQuiltDesign(design)).toThrow("shapes[0].hst is damaged");
+  });
+});
+
+describe("validateQuiltDesign with Voronoi templates", () => {
+  it("keeps the templates of an untouched design", async () => {
+    const { design } = await voronoiDesign();
+    const imported = validateQuiltDesign(clone(design));
+
+    imported.shapes.forEach((shape, i) => {
+      const original = design.shapes[i].template!;
+      expect(shape.template!.finishedMm).toEqual(original.finishedMm);
+      expect(shape.template!.cutMm).toHaveLength(original.cutMm.length);
+      expect(shape.template!.areaMm2).toBeCloseTo(original.areaMm2);
+    });
+  });
+
+  it.each(["cutMm", "edgeLengthsMm", "cornerAnglesDeg", "areaMm2"] as const)("rebuilds a missing %s from the outline", async (key) => {
+    const { design } = await voronoiDesign();
+    const tampered = clone(design);
+    delete tampered.shapes[0].template![key];
+    const template = validateQuiltDesign(tampered).shapes[0].template!;
+
+    expect(template.cutMm.length).toBeGreaterThanOrEqual(template.finishedMm.length);
+    expect(template.edgeLengthsMm).toHaveLength(template.finishedMm.length);
+    expect(template.cornerAnglesDeg).toHaveLength(template.finishedMm.length);
+    expect(template.areaMm2).toBeCloseTo(design.shapes[0].template!.areaMm2);
+  });
+
+  it("ignores measurements that do not match the outline", async () => {
+    const { design } = await voronoiDesign();
+    const tampered = clone(design);
+    Object.assign(tampered.shapes[0].template!, { cutMm: "x", edgeLengthsMm: [NaN], areaMm2: -1 });
+
+    expect(validateQuiltDesign(tampered).shapes[0].template).toEqual(validateQuiltDesign(clone(design)).shapes[0].template);
+  });
+
+  it.each([
+    ["no template", (shape: QuiltShape) => delete shape.template],
+    ["no outline", (shape: QuiltShape) => delete (shape.template as Partial<PieceTemplate>).finishedMm],
+    ["too few corners", (shape: QuiltShape) => shape.template!.finishedMm.splice(2)],
+    ["a corner that is not a point", (shape: QuiltShape) => (shape.template!.finishedMm[1] = { x: 1 } as Point)],
+    ["a corner at infinity", (shape: QuiltShape) => (shape.template!.finishedMm[1] = { x: 1, y: Infinity })],
+  ])("rejects a cell with %s", async (_, tamper) => {
+    const { design } = await voronoiDesign();
+    // JSON turns Infinity into null, so tamper after cloning
+    const tampered = clone(design);
+    tamper(tampered.shapes[0]);
+
+    expect(() => validateQuiltDesign(tampered)).toThrow("shapes[0].template must have an outline of points");
+  });
+
+  it("rejects shapes of another style", async () => {
+    const { design } = await voronoiDesign();
+    const tampered = clone(design);
+    tampered.shapes[0].type = "pixel";
+
+    expect(() => validateQuiltDesign(tampered)).toThrow('shapes[0].type must be "voronoi"');
+  });
+
+  it("rejects a height that is not a number", () => {
+    const design = clone(pixelDesign());
+    Object.assign(design.shapes[0].stitchData, { heightMm: "25" });
+
+    expect(() => validateQuiltDesign(design)).toThrow("shapes[0].stitchData.heightMm must be a number");
+  });
+});
+
+describe("parseQuiltSvg", () => {
+  it("reads back an exported SVG", () => {
+    const design = pixelDesign();
+    const imported = parseQuiltSvg(quiltDesignToSvg(design));
+
+    expect(imported.design.shapes).toEqual(design.shapes);
+    expect(imported.design.colorPalette).toEqual(design.colorPalette);
+    expect(imported.svg).toBe(quiltDesignToSvg(design));
+  });
+
+  it("rejects SVGs that were not exported from the app", () => {
+    expect(() => parseQuiltSvg('<svg xmlns="http://www.w3.org/2000/svg"/>')).toThrow("not exported from ArtQuilt");
+    expect(() => parseQuiltSvg("<svg")).toThrow("File is not a valid SVG.");
+  });
+
+  it("rejects shapes with markup in their fill", () => {
+    const svg = quiltDesignToSvg(pixelDesign()).replace('fill="#c81e1e"', "fill=\"#c81e1e&quot; onmouseover=&quot;alert(1)\"");
+
+    expect(() => parseQuiltSvg(svg)).toThrow(/color must be a color/);
+  });
+
+  it("redraws Voronoi designs instead of passing the file through", async () => {
+    const { svg } = await voronoiDesign();
+    const tampered = svg.replace(
+      "</svg>",
+      '<image href="x" onerror="alert(1)"/><script>alert(1)</script><foreignObject><div>hi</div></foreignObject></svg>'
+    );
+    const imported = parseQuiltSvg(tampered);
+
+    expect(imported.design.shapeType).toBe("voronoi");
+    expect(imported.svg).not.toMatch(/onerror|<script|<image|foreignObject/);
+    expect(imported.svg.match(/<path /g)).toHaveLength(imported.design.shapes.length);
+  });
+
+  it("keeps strings in the metadata from closing its comment", () => {
+    const design = pixelDesign();
+    const [red] = design.colorPalette;
+    design.fabrics = { [red]: { name: "--><script>alert(1)</script>", manufacturer: "X", sku: "1", hex: red } };
+    const svg = quiltDesignToSvg(design);
+
+    expect(svg.match(/-->/g)).toHaveLength(1);
+    expect(parseQuiltSvg(svg).design.fabrics?.[red].name).toBe("--><script>alert(1)</script>");
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Re-import of exported designs
+ *
+ * Reads back the JSON download (a full QuiltDesign) or an exported SVG,
+ * whose per-shape data-* attributes and metadata comment carry enough to
+ * rebuild the design. Both paths are validated against the QuiltDesign
+ * shape before anything is opened in the editor, and the SVG is always
+ * redrawn from the validated design: imported files are untrusted and the
+ * SVG ends up in the page as markup.
+ */
+
+import {
+  buildPieceTemplate,
+  quiltDesignToSvg,
+  svgMetadataJson,
+  type Point,
+  type QuiltDesign,
+  type QuiltShape,
+  type ShapeType,
+} from "./imageProcessing";
+
+const SHAPE_TYPES: ShapeType[] = ["pixel", "triangle", "hexagon", "voronoi", "hst", "rectangle"];
+
+/** Files larger than this are not quilt exports */
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Read an exported .json or .svg file. Rejects with a message saying what
+ * is wrong with the file.
+ */
+export async function importDesignFile(file: File): Promise<{ design: QuiltDesign; svg: string }> {
+  if (file.size > MAX_IMPORT_BYTES) throw new Error("File is too large to be a quilt design.");
+  const text = await file.text();
+  const isSvg = file.name.toLowerCase().endsWith(".svg") || file.type === "image/svg+xml" || text.trimStart().startsWith("<");
+  return isSvg ? parseQuiltSvg(text) : parseQuiltJson(text);
+}
+
+/**
+ * Parse the JSON download. Voronoi outlines only exist in the SVG, so they
+ * are redrawn from the cutting templates.
+ */
+export function parseQuiltJson(text: string): { design: QuiltDesign; svg: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  const design = validateQuiltDesign(value);
+  return { design, svg: designToSvg(design) };
+}
+
+/**
+ * Parse an SVG written by `quiltDesignToSvg` or the Voronoi pipeline
+ */
+export function parseQuiltSvg(text: string): { design: QuiltDesign; svg: string } {
+  const doc = new DOMParser().parseFromString(text, "image/svg+xml");
+  const root = doc.documentElement;
+  if (doc.querySelector("parsererror") || root.nodeName !== "svg") throw new Error("File is not a valid SVG.");
+  if (root.getAttribute("data-quilt-design") !== "true") {
+    throw new Error("This SVG was not exported from ArtQuilt.");
+  }
+
+  const metadata = readMetadata(root);
+  const shapeType = root.getAttribute("data-shape-type") as ShapeType;
+  if (!SHAPE_TYPES.includes(shapeType)) throw new Error(`Unknown quilt style "${shapeType}".`);
+
+  const design = validateQuiltDesign(
+    shapeType === "voronoi" ? voronoiFromSvg(root, metadata) : gridDesignFromSvg(root, shapeType, metadata)
+  );
+  return { design, svg: designToSvg(design) };
+}
+
+function designToSvg(design: QuiltDesign): string {
+  return design.shapeType === "voronoi" ? voronoiDesignToSvg(design) : quiltDesignToSvg(design);
+}
+
+// ============================================================================
+// SVG Reading
+// ============================================================================
+
+type SvgMetadata = Record<string, unknown>;
+
+/** JSON from the "Design Metadata" comment, or {} when there is none */
+function readMetadata(root: Element): SvgMetadata {
+  for (const node of Array.from(root.childNodes)) {
+    if (node.nodeType !== Node.COMMENT_NODE) continue;
+    const match = node.textContent?.match(/Design Metadata:\s*([\s\S]*)$/);
+    if (!match) continue;
+    try {
+      return JSON.parse(match[1].trim());
+    } catch {
+      throw new Error("The design metadata in this SVG is damaged.");
+    }
+  }
+  return {};
+}
+
+function numberAttr(el: Element, name: string): number {
+  const value = Number(el.getAttribute(name));
+  if (el.getAttribute(name) === null || !Number.isFinite(value)) {
+    throw new Error(`Shape ${el.getAttribute("data-id") ?? "?"} is missing "${name}".`);
+  }
+  return value;
+}
+
+function neighborsAttr(el: Element): string[] {
+  return (el.getAttribute("data-neighbors") ?? "").split(",").filter(Boolean);
+}
+
+function parsePoints(points: string): Point[] {
+  const values = points.trim().split(/[\s,]+/).map(Number);
+  const result: Point[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) result.push({ x: values[i], y: values[i + 1] });
+  return result;
+}
+
+function bounds(points: Point[]): { x: number; y: number; width: number; height: number } {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Pixel, rectangle, HST, triangle and hexagon designs: one element per shape
+ */
+function gridDesignFromSvg(root: Element, shapeType: ShapeType, metadata: SvgMetadata): unknown {
+  const width = Number(root.getAttribute("width"));
+  const height = Number(root.getAttribute("height"));
+  const gridWidth = Number(root.getAttribute("data-grid-width"));
+  const gridHeight = Number(root.getAttribute("data-grid-height"));
+
+  const shapes: QuiltShape[] = Array.from(root.querySelectorAll("[data-id]")).map((el) => {
+    let box: { x: number; y: number; width: number; height: number };
+    let color = el.getAttribute("fill") ?? "";
+    let hst: QuiltShape["hst"];
+
+    if (el.nodeName === "rect") {
+      box = { x: numberAttr(el, "x"), y: numberAttr(el, "y"), width: numberAttr(el, "width"), height: numberAttr(el, "height") };
+    } else if (el.nodeName === "g") {
+      const halves = Array.from(el.querySelectorAll("polygon"));
+      box = bounds(halves.flatMap((polygon) => parsePoints(polygon.getAttribute("points") ?? "")));
+      const colors = (el.getAttribute("data-colors") ?? "").split(",");
+      const diagonal = el.getAttribute("data-diagonal");
+      if (colors.length !== 2 || (diagonal !== "tl-br" && diagonal !== "tr-bl")) {
+        throw new Error(`Split square ${el.getAttribute("data-id")} is damaged.`);
+      }
+      hst = { diagonal, colors: [colors[0], colors[1]] };
+      color = colors[0];
+    } else {
+      box = bounds(parsePoints(el.getAttribute("points") ?? ""));
+    }
+
+    const heightMm = el.getAttribute("data-height-mm");
+    const shape: QuiltShape = {
+      id: el.getAttribute("data-id") ?? "",
+      type: shapeType,
+      ...box,
+      color,
+      stitchData: {
+        angle: el.hasAttribute("data-angle")
+          ? numberAttr(el, "data-angle")
+          : shapeType === "hexagon"
+            ? 120
+            : hst
+              ? 45
+              : 0,
+        sizeMm: numberAttr(el, "data-size-mm"),
+        ...(heightMm !== null && { heightMm: Number(heightMm) }),
+        seamAllowanceMm: numberAttr(el, "data-seam-mm"),
+        edges: numberAttr(el, "data-edges"),
+        neighbors: neighborsAttr(el),
+        gridPosition: { row: numberAttr(el, "data-row"), col: numberAttr(el, "data-col") },
+      },
+    };
+    if (hst) shape.hst = hst;
+    return shape;
+  });
+
+  // Display size of one grid unit, as the generators set it
+  const first = shapes[0];
+  const cellSize =
+    shapeType === "triangle" ? first?.width : shapeType === "hexagon" ? (first?.height ?? 0) / 2 : width / gridWidth;
+
+  return {
+    width,
+    height,
+    gridWidth,
+    gridHeight,
+    cellSize,
+    shapeType,
+    colorPalette: metadata.colorPalette ?? [...new Set(shapes.flatMap((s) => (s.hst ? s.hst.colors : [s.color])))],
+    shapes,
+    fabricData: metadata.fabricData,
+    ...(typeof metadata.seed === "number" && { seed: metadata.seed }),
+    ...(metadata.fabrics !== undefined && { fabrics: metadata.fabrics }),
+  };
+}
+
+/**
+ * Voronoi designs: one path per cell, in SVG coordinates. Templates are
+ * rebuilt from the outlines at the quilt's real size.
+ */
+function voronoiFromSvg(root: Element, metadata: SvgMetadata): unknown {
+  const width = Number(root.getAttribute("width"));
+  const height = Number(root.getAttribute("height"));
+  const fabricData = metadata.fabricData as QuiltDesign["fabricData"] | undefined;
+  if (!fabricData || typeof fabricData.totalWidthMm !== "number") {
+    throw new Error("This SVG has no fabric measurements.");
+  }
+  const mmPerUnit = fabricData.totalWidthMm / width;
+
+  const paths = Array.from(root.querySelectorAll("path[data-id]"));
+  const gridSize = Math.ceil(Math.sqrt(paths.length));
+  // Seeds and areas are in source image pixels; the cells tile the whole image
+  const imageArea = paths.reduce((sum, el) => sum + numberAttr(el, "data-area"), 0);
+  const imageScale = Math.sqrt(imageArea / (width * height));
+
+  const shapes: QuiltShape[] = paths.map((el) => {
+    const polygon = parsePoints((el.getAttribute("d") ?? "").replace(/[MLZ]/gi, " "));
+    if (polygon.length < 3) throw new Error(`Cell ${el.getAttribute("data-id")} has no outline.`);
+    const template = buildPieceTemplate(polygon, mmPerUnit, fabricData.seamAllowanceMm);
+    const seed = { x: numberAttr(el, "data-seed-x"), y: numberAttr(el, "data-seed-y") };
+    const side = Math.sqrt(numberAttr(el, "data-area"));
+
+    return {
+      id: el.getAttribute("data-id") ?? "",
+      type: "voronoi",
+      x: seed.x,
+      y: seed.y,
+      width: side,
+      height: side,
+      color: el.getAttribute("fill") ?? "",
+      template,
+      stitchData: {
+        angle: 0,
+        sizeMm: Math.round(Math.sqrt(template.areaMm2)),
+        seamAllowanceMm: fabricData.seamAllowanceMm,
+        edges: template.finishedMm.length,
+        neighbors: neighborsAttr(el),
+        gridPosition: {
+          row: Math.min(gridSize - 1, Math.floor((seed.y / (height * imageScale)) * gridSize)),
+          col: Math.min(gridSize - 1, Math.floor((seed.x / (width * imageScale)) * gridSize)),
+        },
+      },
+    };
+  });
+
+  return {
+    width,
+    height,
+    gridWidth: gridSize,
+    gridHeight: gridSize,
+    cellSize: 20,
+    shapeType: "voronoi",
+    colorPalette: metadata.colorPalette ?? [...new Set(shapes.map((s) => s.color))],
+    shapes,
+    fabricData,
+  };
+}
+
+/**
+ * Redraw a Voronoi design from its templates, in the layout the Voronoi
+ * pipeline writes (so the piece editor can recolor it by data-id)
+ */
+function voronoiDesignToSvg(design: QuiltDesign): string {
+  const scale = design.width / design.fabricData.totalWidthMm;
+  let pathsXml = "";
+  for (const shape of design.shapes) {
+    const outline = shape.template?.finishedMm ?? [];
+    if (outline.length < 3) continue;
+    const d =
+      outline.map((p, i) => `${i === 0 ? "M" : "L"} ${(p.x * scale).toFixed(2)} ${(p.y * scale).toFixed(2)}`).join(" ") +
+      " Z";
+    pathsXml += `  <path d="${d}" fill="${shape.color}"
+      data-id="${shape.id}"
+      data-seed-x="${shape.x.toFixed(1)}"
+      data-seed-y="${shape.y.toFixed(1)}"
+      data-area="${(shape.width * shape.height).toFixed(0)}"
+      data-neighbors="${shape.stitchData.neighbors.join(",")}"
+    />\n`;
+  }
+
+  const metadata = {
+    type: "voronoi",
+    fabricData: design.fabricData,
+    colorPalette: design.colorPalette,
+    numCells: design.shapes.length,
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg"
+     width="${design.width}"
+     height="${design.height}"
+     viewBox="0 0 ${design.width} ${design.height}"
+     data-quilt-design="true"
+     data-shape-type="voronoi"
+     data-num-cells="${design.shapes.length}">
+  <!-- Voronoi Design Metadata: ${svgMetadataJson(metadata)} -->
+${pathsXml}</svg>`;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/** Colors as the pipeline writes them: "#rgb", "#rrggbb" or "rgb(r,g,b)" */
+const COLOR_PATTERN = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|rgb\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*\))$/i;
+/** Shape ids, e.g. "shape-3-7" or "voronoi-12" */
+const ID_PATTERN = /^[\w-]+$/;
+
+const isColor = (value: unknown): value is string => typeof value === "string" && COLOR_PATTERN.test(value);
+const isId = (value: unknown): value is string => typeof value === "string" && ID_PATTERN.test(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPoint = (value: unknown): value is Point =>
+  isObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+
+function check(condition: boolean, message: string): asserts condition {
+  if (!condition) throw new Error(`Not a quilt design: ${message}.`);
+}
+
+function expectNumber(obj: Record<string, unknown>, key: string, path: string): void {
+  check(typeof obj[key] === "number" && Number.isFinite(obj[key]), `${path}.${key} must be a number`);
+}
+
+/**
+ * Check that `value` has the QuiltDesign shape, so the editor, cutting
+ * guide and PDF can rely on it. Colors and ids are written into SVG
+ * attributes, so only the formats the pipeline produces are accepted.
+ * Shape colors missing from the palette are added to it, and cutting
+ * templates are rebuilt from their finished outlines.
+ */
+export function validateQuiltDesign(value: unknown): QuiltDesign {
+  check(isObject(value), "expected an object");
+  check(Array.isArray(value.shapes) && value.shapes.length > 0, "shapes must be a non-empty list");
+  for (const key of ["width", "height", "gridWidth", "gridHeight", "cellSize"]) expectNumber(value, key, "design");
+  check((value.width as number) > 0 && (value.height as number) > 0, "design must have a size");
+  check(SHAPE_TYPES.includes(value.shapeType as ShapeType), "unknown shapeType");
+  check(Array.isArray(value.colorPalette) && value.colorPalette.every(isColor), "colorPalette must be a list of colors");
+  if (value.seed !== undefined) expectNumber(value, "seed", "design");
+  if (value.fabrics !== undefined) {
+    check(isObject(value.fabrics), "fabrics must map colors to fabrics");
+    for (const [color, fabric] of Object.entries(value.fabrics)) {
+      check(
+        isColor(color) &&
+          isObject(fabric) &&
+          ["name", "manufacturer", "sku"].every((key) => typeof fabric[key] === "string") &&
+          isColor(fabric.hex),
+        `fabrics["${color}"] is damaged`
+      );
+    }
+  }
+
+  const fabricData = value.fabricData;
+  check(isObject(fabricData), "fabricData is missing");
+  for (const key of ["totalWidthMm", "totalHeightMm", "cellSizeMm", "seamAllowanceMm"]) {
+    expectNumber(fabricData, key, "fabricData");
+  }
+
+  const ids = new Set<string>();
+  value.shapes.forEach((shape: unknown, i: number) => {
+    const path = `shapes[${i}]`;
+    check(isObject(shape), `${path} must be an object`);
+    check(isId(shape.id), `${path}.id must be letters, digits, "_" or "-"`);
+    check(!ids.has(shape.id), `${path}.id "${shape.id}" is used twice`);
+    ids.add(shape.id);
+    check(shape.type === value.shapeType, `${path}.type must be "${value.shapeType}"`);
+    check(isColor(shape.color), `${path}.color must be a color`);
+    for (const key of ["x", "y", "width", "height"]) expectNumber(shape, key, path);
+
+    const stitch = shape.stitchData;
+    check(isObject(stitch), `${path}.stitchData is missing`);
+    for (const key of ["angle", "sizeMm", "seamAllowanceMm", "edges"]) expectNumber(stitch, key, `${path}.stitchData`);
+    if (stitch.heightMm !== undefined) expectNumber(stitch, "heightMm", `${path}.stitchData`);
+    check(
+      Array.isArray(stitch.neighbors) && stitch.neighbors.every(isId),
+      `${path}.stitchData.neighbors must be a list of ids`
+    );
+    const position = stitch.gridPosition;
+    check(isObject(position), `${path}.stitchData.gridPosition is missing`);
+    expectNumber(position, "row", `${path}.stitchData.gridPosition`);
+    expectNumber(position, "col", `${path}.stitchData.gridPosition`);
+
+    if (shape.hst !== undefined) {
+      check(
+        isObject(shape.hst) &&
+          (shape.hst.diagonal === "tl-br" || shape.hst.diagonal === "tr-bl") &&
+          Array.isArray(shape.hst.colors) &&
+          shape.hst.colors.length === 2 &&
+          shape.hst.colors.every(isColor),
+        `${path}.hst is damaged`
+      );
+    }
+    if (value.shapeType === "voronoi" || shape.template !== undefined) {
+      const template = shape.template;
+      check(
+        isObject(template) &&
+          Array.isArray(template.finishedMm) &&
+          template.finishedMm.length >= 3 &&
+          template.finishedMm.every(isPoint),
+        `${path}.template must have an outline of points`
+      );
+    }
+  });
+
+  const design = value as QuiltDesign;
+  // Only the outline is trusted; seam lines and measurements are derived from it
+  const shapes = design.shapes.map((shape) =>
+    shape.template
+      ? { ...shape, template: buildPieceTemplate(shape.template.finishedMm, 1, shape.stitchData.seamAllowanceMm) }
+      : shape
+  );
+  const used = shapes.flatMap((s) => (s.hst ? s.hst.colors : [s.color]));
+  const missing = [...new Set(used)].filter((c) => !design.colorPalette.includes(c));
+  return { ...design, shapes, colorPalette: [...design.colorPalette, ...missing] };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { despeckle, type SpeckPiece } from "./despeckle";
+
+type RGB = [number, number, number];
+
+const COLORS: Record<string, RGB> = {
+  W: [255, 255, 255],
+  K: [0, 0, 0],
+  R: [255, 0, 0],
+  P: [255, 128, 128],
+  B: [0, 0, 255],
+};
+
+const euclidean = (a: RGB, b: RGB) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/** Square pieces of 1 mm² from rows of color letters, linked to their 4 neighbors */
+function grid(rows: string[]): SpeckPiece[] {
+  const height = rows.length;
+  const width = rows[0].length;
+  return rows.flatMap((row, y) =>
+    [...row].map((letter, x) => ({
+      color: COLORS[letter],
+      areaMm2: 1,
+      neighbors: [
+        [x - 1, y],
+        [x + 1, y],
+        [x, y - 1],
+        [x, y + 1],
+      ]
+        .filter(([nx, ny]) => nx >= 0 && nx < width && ny >= 0 && ny < height)
+        .map(([nx, ny]) => ny * width + nx),
+    }))
+  );
+}
+
+const letters = (colors: RGB[], width: number) => {
+  const names = colors.map((color) => Object.keys(COLORS).find((key) => COLORS[key] === color)!);
+  return Array.from({ length: colors.length / width }, (_, y) => names.slice(y * width, (y + 1) * width).join(""));
+};
+
+describe("despeckle", () => {
+  it("absorbs an isolated piece into its surroundings", () => {
+    const { colors, stats } = despeckle(grid(["WWW", "WKW", "WWW"]), 2, euclidean);
+
+    expect(letters(colors, 3)).toEqual(["WWW", "WWW", "WWW"]);
+    expect(stats).toEqual({ minPieceAreaMm2: 2, smallPiecesBefore: 1, smallPiecesAfter: 0 });
+  });
+
+  it("keeps regions that are already large enough", () => {
+    const rows = ["WWKK", "WWKK"];
+    const { colors, stats } = despeckle(grid(rows), 4, euclidean);
+
+    expect(letters(colors, 4)).toEqual(rows);
+    expect(stats.smallPiecesBefore).toBe(0);
+  });
+
+  it("merges into the closest neighboring color", () => {
+    // The pink speck touches red and blue; red is nearer
+    const { colors } = despeckle(grid(["RRRR", "RPBB", "BBBB"]), 2, euclidean);
+
+    expect(letters(colors, 4)[1]).toBe("RRBB");
+  });
+
+  it("breaks distance ties by the neighbor sharing most edges", () => {
+    // Red and blue are equally far from black; the black region touches
+    // blue along two edges and red along one
+    const pieces: SpeckPiece[] = [
+      { color: COLORS.R, areaMm2: 10, neighbors: [2] },
+      { color: COLORS.B, areaMm2: 10, neighbors: [2, 3] },
+      { color: COLORS.K, areaMm2: 0.5, neighbors: [0, 1, 3] },
+      { color: COLORS.K, areaMm2: 0.5, neighbors: [1, 2] },
+    ];
+    const { colors } = despeckle(pieces, 2, euclidean);
+
+    expect(letters(colors, 4)).toEqual(["RBBB"]);
+  });
+
+  it("counts a connected region, not single pieces, against the minimum", () => {
+    const { colors, stats } = despeckle(grid(["WWWWW", "WKKKW", "WWWWW"]), 3, euclidean);
+
+    expect(letters(colors, 5)[1]).toBe("WKKKW");
+    expect(stats.smallPiecesBefore).toBe(0);
+  });
+
+  it("reports what is left when nothing can merge", () => {
+    const { colors, stats } = despeckle(grid(["K"]), 5, euclidean);
+
+    expect(letters(colors, 1)).toEqual(["K"]);
+    expect(stats).toEqual({ minPieceAreaMm2: 5, smallPiecesBefore: 1, smallPiecesAfter: 1 });
+  });
+
+  it("does not change the input pieces", () => {
+    const pieces = grid(["WWW", "WKW", "WWW"]);
+    despeckle(pieces, 2, euclidean);
+
+    expect(pieces[4].color).toBe(COLORS.K);
+  });
+});
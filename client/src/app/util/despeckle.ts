@@ -0,0 +1,127 @@
+/**
+ * Despeckle pass
+ *
+ * Quantization leaves isolated pieces of one color inside another region,
+ * which are fiddly to cut and sew. Connected same-color regions smaller
+ * than a minimum area are recolored to their best-matching neighbor until
+ * every region is large enough (or has nothing to merge into).
+ */
+
+type RGB = [number, number, number];
+
+/** One piece of the design as a node in its adjacency graph */
+export type SpeckPiece = {
+  color: RGB;
+  areaMm2: number;
+  /** Indices of pieces sharing an edge with this one */
+  neighbors: number[];
+};
+
+export type DespeckleStats = {
+  minPieceAreaMm2: number;
+  /** Pieces in regions below the minimum, before and after cleanup */
+  smallPiecesBefore: number;
+  smallPiecesAfter: number;
+};
+
+/** Merges always reduce the region count; this only bounds pathological inputs */
+const MAX_PASSES = 8;
+
+type Region = { color: RGB; members: number[]; areaMm2: number };
+
+/**
+ * Recolor pieces so no connected same-color region is smaller than
+ * `minAreaMm2`. A small region takes the neighboring color closest to its
+ * own under `distance`, preferring the neighbor it shares most edges with
+ * on ties. Smallest regions merge first.
+ */
+export function despeckle(
+  pieces: SpeckPiece[],
+  minAreaMm2: number,
+  distance: (a: RGB, b: RGB) => number
+): { colors: RGB[]; stats: DespeckleStats } {
+  const colors = pieces.map((piece) => piece.color);
+  const countSmall = (regions: Region[]) =>
+    regions.reduce((sum, r) => sum + (r.areaMm2 < minAreaMm2 ? r.members.length : 0), 0);
+
+  let { regions, regionOf } = findRegions(pieces, colors);
+  const smallPiecesBefore = countSmall(regions);
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const small = regions
+      .map((region, index) => ({ region, index }))
+      .filter(({ region }) => region.areaMm2 < minAreaMm2)
+      .sort((a, b) => a.region.areaMm2 - b.region.areaMm2);
+
+    let changed = false;
+    for (const { region, index } of small) {
+      // Colors around the region (current, so earlier merges this pass count)
+      const candidates = new Map<string, { color: RGB; links: number }>();
+      for (const member of region.members) {
+        for (const neighbor of pieces[member].neighbors) {
+          if (regionOf[neighbor] === index) continue;
+          const color = colors[neighbor];
+          if (sameColor(color, region.color)) continue;
+          const key = color.join(",");
+          const entry = candidates.get(key) ?? { color, links: 0 };
+          entry.links++;
+          candidates.set(key, entry);
+        }
+      }
+
+      let best: { color: RGB; links: number; distance: number } | null = null;
+      for (const candidate of candidates.values()) {
+        const d = distance(region.color, candidate.color);
+        if (!best || d < best.distance || (d === best.distance && candidate.links > best.links)) {
+          best = { ...candidate, distance: d };
+        }
+      }
+      if (!best) continue;
+
+      for (const member of region.members) colors[member] = best.color;
+      changed = true;
+    }
+
+    if (!changed) break;
+    ({ regions, regionOf } = findRegions(pieces, colors));
+  }
+
+  return {
+    colors,
+    stats: { minPieceAreaMm2: minAreaMm2, smallPiecesBefore, smallPiecesAfter: countSmall(regions) },
+  };
+}
+
+function sameColor(a: RGB, b: RGB): boolean {
+  return a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+}
+
+/**
+ * Flood-fill connected same-color regions
+ */
+function findRegions(pieces: SpeckPiece[], colors: RGB[]): { regions: Region[]; regionOf: Int32Array } {
+  const regionOf = new Int32Array(pieces.length).fill(-1);
+  const regions: Region[] = [];
+
+  for (let start = 0; start < pieces.length; start++) {
+    if (regionOf[start] !== -1) continue;
+    const region: Region = { color: colors[start], members: [], areaMm2: 0 };
+    const index = regions.length;
+    const stack = [start];
+    regionOf[start] = index;
+
+    while (stack.length > 0) {
+      const piece = stack.pop()!;
+      region.members.push(piece);
+      region.areaMm2 += pieces[piece].areaMm2;
+      for (const neighbor of pieces[piece].neighbors) {
+        if (regionOf[neighbor] !== -1 || !sameColor(colors[neighbor], region.color)) continue;
+        regionOf[neighbor] = index;
+        stack.push(neighbor);
+      }
+    }
+    regions.push(region);
+  }
+
+  return { regions, regionOf };
+}
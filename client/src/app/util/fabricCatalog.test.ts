@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { FABRIC_CATALOGS, fabricLabel, getFabricCatalog, matchPaletteToCatalog, type FabricCatalog } from "./fabricCatalog";
+
+const catalog: FabricCatalog = {
+  id: "test",
+  name: "Test Solids",
+  manufacturer: "Test",
+  fabrics: [
+    { name: "Snow", manufacturer: "Test", sku: "T-1", hex: "#ffffff" },
+    { name: "Ink", manufacturer: "Test", sku: "T-2", hex: "#000000" },
+    { name: "Poppy", manufacturer: "Test", sku: "T-3", hex: "#e02020" },
+    { name: "Brick", manufacturer: "Test", sku: "T-4", hex: "#a03020" },
+  ],
+};
+
+const names = (palette: [number, number, number][], from = catalog) =>
+  matchPaletteToCatalog(palette, from).map((fabric) => fabric.name);
+
+describe("matchPaletteToCatalog", () => {
+  it("snaps each color to the perceptually nearest fabric", () => {
+    expect(names([[250, 250, 250], [10, 10, 10], [230, 30, 30]])).toEqual(["Snow", "Ink", "Poppy"]);
+  });
+
+  it("gives a fabric to the closest color and the runner-up its next best", () => {
+    // Both reds are nearest to Poppy; the closer one keeps it
+    expect(names([[200, 40, 30], [226, 32, 32]])).toEqual(["Brick", "Poppy"]);
+  });
+
+  it("reuses the nearest fabrics when the palette outgrows the catalog", () => {
+    const small: FabricCatalog = { ...catalog, fabrics: catalog.fabrics.slice(0, 2) };
+    expect(names([[255, 255, 255], [0, 0, 0], [240, 240, 240]], small)).toEqual(["Snow", "Ink", "Snow"]);
+  });
+
+  it("prefers a measured Lab value over the screen hex", () => {
+    const measured: FabricCatalog = {
+      ...catalog,
+      fabrics: [
+        { name: "Looks white", manufacturer: "Test", sku: "M-1", hex: "#ffffff", lab: [0, 0, 0] },
+        { name: "Gray", manufacturer: "Test", sku: "M-2", hex: "#808080" },
+      ],
+    };
+    expect(names([[0, 0, 0]], measured)).toEqual(["Looks white"]);
+  });
+});
+
+describe("built-in catalogs", () => {
+  it("are found by id and have unique SKUs", () => {
+    for (const { id, fabrics } of FABRIC_CATALOGS) {
+      expect(getFabricCatalog(id)?.id).toBe(id);
+      expect(new Set(fabrics.map((fabric) => fabric.sku)).size).toBe(fabrics.length);
+    }
+    expect(getFabricCatalog("missing")).toBeUndefined();
+  });
+
+  it("label fabrics with name and SKU", () => {
+    expect(fabricLabel(catalog.fabrics[2])).toBe("Poppy (T-3)");
+  });
+});
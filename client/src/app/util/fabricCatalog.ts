@@ -0,0 +1,134 @@
+/**
+ * Fabric catalogs
+ *
+ * A catalog is a line of solid fabrics you can actually buy. Quantized
+ * palettes can be snapped to the perceptually nearest fabrics (CIELAB) so
+ * the pattern names real products instead of arbitrary RGB centroids.
+ */
+
+import { deltaE76, parseColor, rgbToLab, type Lab } from "./colorSpace";
+
+export type Fabric = {
+  name: string;
+  manufacturer: string;
+  sku: string;
+  /** Screen approximation of the fabric color, "#rrggbb" */
+  hex: string;
+  /** Measured CIELAB value; derived from `hex` when absent */
+  lab?: Lab;
+};
+
+export type FabricCatalog = {
+  id: string;
+  name: string;
+  manufacturer: string;
+  fabrics: Fabric[];
+};
+
+type Swatch = [sku: string, name: string, hex: string];
+
+function solidsLine(id: string, name: string, manufacturer: string, swatches: Swatch[]): FabricCatalog {
+  return {
+    id,
+    name,
+    manufacturer,
+    fabrics: swatches.map(([sku, fabricName, hex]) => ({ name: fabricName, manufacturer, sku, hex })),
+  };
+}
+
+/** Built-in solids line covering the hue wheel plus neutrals */
+const ARTQUILT_SOLIDS = solidsLine("artquilt-solids", "ArtQuilt Essential Solids", "ArtQuilt", [
+  ["AQS-001", "Snow", "#fbfaf5"],
+  ["AQS-002", "Natural", "#efe6d2"],
+  ["AQS-003", "Oatmeal", "#d8c9ad"],
+  ["AQS-004", "Fog", "#c9cccd"],
+  ["AQS-005", "Pewter", "#9a9c9e"],
+  ["AQS-006", "Slate", "#6b7075"],
+  ["AQS-007", "Charcoal", "#3f4144"],
+  ["AQS-008", "Ink", "#1d1e22"],
+  ["AQS-009", "Lemon", "#f7e35a"],
+  ["AQS-010", "Butter", "#f5e6a3"],
+  ["AQS-011", "Sunflower", "#f2b705"],
+  ["AQS-012", "Mustard", "#c99a2e"],
+  ["AQS-013", "Tangerine", "#f28c28"],
+  ["AQS-014", "Apricot", "#f6b889"],
+  ["AQS-015", "Rust", "#b5532a"],
+  ["AQS-016", "Terracotta", "#c8714f"],
+  ["AQS-017", "Coral", "#f07167"],
+  ["AQS-018", "Poppy", "#e03a2f"],
+  ["AQS-019", "Cherry", "#b3172b"],
+  ["AQS-020", "Wine", "#6e1f2e"],
+  ["AQS-021", "Blush", "#f4c7c3"],
+  ["AQS-022", "Peony", "#e8779b"],
+  ["AQS-023", "Magenta", "#c2185b"],
+  ["AQS-024", "Plum", "#6a2c5a"],
+  ["AQS-025", "Lilac", "#c8b6e2"],
+  ["AQS-026", "Violet", "#7b4fa3"],
+  ["AQS-027", "Aubergine", "#3e2347"],
+  ["AQS-028", "Periwinkle", "#8f9fe0"],
+  ["AQS-029", "Cobalt", "#2a4fb0"],
+  ["AQS-030", "Navy", "#1c2a4a"],
+  ["AQS-031", "Sky", "#a9d3ee"],
+  ["AQS-032", "Cornflower", "#5b8fd6"],
+  ["AQS-033", "Denim", "#3d5a80"],
+  ["AQS-034", "Aqua", "#6fd0d1"],
+  ["AQS-035", "Teal", "#12807f"],
+  ["AQS-036", "Deep Teal", "#0b4f52"],
+  ["AQS-037", "Mint", "#bfe6cd"],
+  ["AQS-038", "Jade", "#3fa573"],
+  ["AQS-039", "Kelly", "#2e8b3a"],
+  ["AQS-040", "Forest", "#1f4d2c"],
+  ["AQS-041", "Lime", "#b5d94a"],
+  ["AQS-042", "Pistachio", "#c9d8a0"],
+  ["AQS-043", "Olive", "#7a7a34"],
+  ["AQS-044", "Sage", "#9fb39a"],
+  ["AQS-045", "Tan", "#c4a27a"],
+  ["AQS-046", "Caramel", "#a26b3c"],
+  ["AQS-047", "Chocolate", "#5a3825"],
+  ["AQS-048", "Espresso", "#35231a"],
+]);
+
+export const FABRIC_CATALOGS: FabricCatalog[] = [ARTQUILT_SOLIDS];
+
+export function getFabricCatalog(id: string): FabricCatalog | undefined {
+  return FABRIC_CATALOGS.find((catalog) => catalog.id === id);
+}
+
+/**
+ * Snap each palette color to a catalog fabric, nearest pairs first, so
+ * every color gets the closest fabric not already taken by a closer one.
+ * Falls back to reusing fabrics when the palette is larger than the catalog.
+ */
+export function matchPaletteToCatalog(
+  palette: [number, number, number][],
+  catalog: FabricCatalog
+): Fabric[] {
+  const fabricLabs = catalog.fabrics.map((fabric) => fabric.lab ?? rgbToLab(parseColor(fabric.hex)));
+  const paletteLabs = palette.map(rgbToLab);
+
+  const pairs: { color: number; fabric: number; distance: number }[] = [];
+  paletteLabs.forEach((lab, color) => {
+    fabricLabs.forEach((fabricLab, fabric) => {
+      pairs.push({ color, fabric, distance: deltaE76(lab, fabricLab) });
+    });
+  });
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const matches: (Fabric | undefined)[] = new Array(palette.length).fill(undefined);
+  const taken = new Set<number>();
+  for (const { color, fabric } of pairs) {
+    if (matches[color] || taken.has(fabric)) continue;
+    matches[color] = catalog.fabrics[fabric];
+    taken.add(fabric);
+  }
+
+  // More colors than fabrics: the rest share their nearest fabric
+  return matches.map((match, color) => match ?? catalog.fabrics[pairs.find((p) => p.color === color)!.fabric]);
+}
+
+/**
+ * Short label for a fabric, e.g. "Cobalt (AQS-029)"
+ */
+export function fabricLabel(fabric: Fabric): string {
+  return `${fabric.name} (${fabric.sku})`;
+}
@@ -1,22 +1,36 @@
 /**
  * Service for generating images from text prompts
- * Uses the /api/generate-image endpoint which calls Google Gemini
+ * Uses the /api/generate-image endpoint, which calls the enabled image providers
  */
 
+import type { GeneratedImage, GenerateOptions, ImageProviderInfo } from "@/app/imageProviders/types";
+
+export type GenerateImageRequest = Partial<GenerateOptions> & {
+  /** Id of a style preset whose prompt fragment is added */
+  stylePreset?: string | null;
+};
+
 export type GenerateImageResult = {
   success: boolean;
-  image?: string; // base64 data URL
+  images?: GeneratedImage[];
+  model?: string;
   error?: string;
 };
 
+/**
+ * Generate images with one provider, or a single image from the first
+ * enabled provider that succeeds when none is given
+ */
 export const generateImageService = async (
-  userPrompt: string
+  userPrompt: string,
+  provider?: string,
+  options?: GenerateImageRequest
 ): Promise<GenerateImageResult> => {
   try {
     const response = await fetch("/api/generate-image", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ prompt: userPrompt }),
+      body: JSON.stringify({ prompt: userPrompt, provider, ...options }),
     });
 
     const data = await response.json();
@@ -30,7 +44,8 @@ export const generateImageService = async (
 
     return {
       success: true,
-      image: data.image,
+      images: data.images,
+      model: data.model,
     };
   } catch (error) {
     return {
@@ -39,3 +54,13 @@ export const generateImageService = async (
     };
   }
 };
+
+/**
+ * Providers enabled on the server, in display order
+ */
+export const fetchImageProviders = async (): Promise<ImageProviderInfo[]> => {
+  const response = await fetch("/api/generate-image");
+  if (!response.ok) throw new Error("Could not load image providers");
+  const data = await response.json();
+  return data.providers;
+};
@@ -0,0 +1,489 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPieceTemplate,
+  delaunayTriangulation,
+  generateHexagonDesign,
+  generateHstDesign,
+  generateRectangleDesign,
+  generateTriangleDesign,
+  hexagonizeImage,
+  lloydRelaxation,
+  mergeUniformRectangles,
+  offsetPolygon,
+  pixelateImage,
+  shapeOutlines,
+  splitCellsAlongEdges,
+  triangulateImage,
+  type PixelData,
+  type Point,
+  type QuiltDesign,
+  type QuiltShape,
+  type Triangle,
+} from "./imageProcessing";
+import { createRandom } from "./random";
+
+type RGB = [number, number, number];
+
+const RED: RGB = [255, 0, 0];
+const BLUE: RGB = [0, 0, 255];
+
+/** Image whose pixel colors come from `color(x, y)` */
+function paintImage(width: number, height: number, color: (x: number, y: number) => RGB): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...color(x, y), 255], (y * width + x) * 4);
+  }
+  return { width, height, data };
+}
+
+/** Color grid with `color(row, col)` in every cell */
+const colorGrid = (rows: number, cols: number, color: (row: number, col: number) => RGB = () => RED): RGB[][] =>
+  Array.from({ length: rows }, (_, row) => Array.from({ length: cols }, (_, col) => color(row, col)));
+
+const pointKey = (p: Point) => `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
+
+/**
+ * Ids of the shapes sharing an edge (two outline corners) with each shape,
+ * as the outlines draw them
+ */
+function edgeNeighbors(design: QuiltDesign): Map<string, string[]> {
+  const corners = design.shapes.map((shape) => new Set(shapeOutlines(shape).flatMap((o) => o.points.map(pointKey))));
+  return new Map(
+    design.shapes.map((shape, i) => [
+      shape.id,
+      design.shapes
+        .filter((_, j) => j !== i && [...corners[j]].filter((key) => corners[i].has(key)).length >= 2)
+        .map((other) => other.id)
+        .sort(),
+    ])
+  );
+}
+
+function expectNeighborsShareEdges(design: QuiltDesign): void {
+  const expected = edgeNeighbors(design);
+  for (const shape of design.shapes) {
+    expect([...shape.stitchData.neighbors].sort(), shape.id).toEqual(expected.get(shape.id));
+  }
+}
+
+function randomPoints(count: number, width: number, height: number, seed = 1): Point[] {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => ({ x: random() * width, y: random() * height }));
+}
+
+const corners = (width: number, height: number): Point[] => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height },
+];
+
+function area(points: Point[], { p1, p2, p3 }: Triangle): number {
+  const a = points[p1], b = points[p2], c = points[p3];
+  return Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+}
+
+/** Distance from p to the circumcenter minus the circumradius; negative inside */
+function circumcircleMargin(points: Point[], { p1, p2, p3 }: Triangle, p: Point): number {
+  const a = points[p1], b = points[p2], c = points[p3];
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  const ux = ((a.x ** 2 + a.y ** 2) * (b.y - c.y) + (b.x ** 2 + b.y ** 2) * (c.y - a.y) + (c.x ** 2 + c.y ** 2) * (a.y - b.y)) / d;
+  const uy = ((a.x ** 2 + a.y ** 2) * (c.x - b.x) + (b.x ** 2 + b.y ** 2) * (a.x - c.x) + (c.x ** 2 + c.y ** 2) * (b.x - a.x)) / d;
+  return Math.hypot(p.x - ux, p.y - uy) - Math.hypot(a.x - ux, a.y - uy);
+}
+
+describe("delaunayTriangulation", () => {
+  it("needs three points that are not all in a line", () => {
+    expect(delaunayTriangulation([])).toEqual([]);
+    expect(delaunayTriangulation([{ x: 0, y: 0 }, { x: 1, y: 1 }])).toEqual([]);
+    expect(delaunayTriangulation([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }])).toEqual([]);
+    expect(delaunayTriangulation([{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }])).toEqual([]);
+  });
+
+  it("splits a square into two triangles", () => {
+    const points = corners(10, 10);
+    const triangles = delaunayTriangulation(points);
+
+    expect(triangles).toHaveLength(2);
+    expect(triangles.reduce((sum, t) => sum + area(points, t), 0)).toBeCloseTo(100);
+  });
+
+  it("tiles the convex hull without overlap", () => {
+    const points = [...corners(200, 100), ...randomPoints(300, 200, 100)];
+    const triangles = delaunayTriangulation(points);
+
+    // Euler: 2n - 2 - h triangles for n points with h on the hull
+    expect(triangles).toHaveLength(2 * points.length - 2 - 4);
+    expect(triangles.reduce((sum, t) => sum + area(points, t), 0)).toBeCloseTo(200 * 100, 4);
+  });
+
+  it("leaves every circumcircle empty of other points", () => {
+    const points = randomPoints(200, 100, 100, 7);
+    const triangles = delaunayTriangulation(points);
+
+    let closest = Infinity;
+    for (const t of triangles) {
+      points.forEach((p, i) => {
+        if (i !== t.p1 && i !== t.p2 && i !== t.p3) closest = Math.min(closest, circumcircleMargin(points, t, p));
+      });
+    }
+    expect(triangles.length).toBeGreaterThan(0);
+    expect(closest).toBeGreaterThan(-1e-6);
+  });
+
+  it("skips coincident points", () => {
+    const points = [...corners(10, 10), { x: 5, y: 5 }, { x: 5, y: 5 }];
+    const triangles = delaunayTriangulation(points);
+    const used = new Set(triangles.flatMap(({ p1, p2, p3 }) => [p1, p2, p3]));
+
+    expect(triangles).toHaveLength(4);
+    expect(used.has(4) !== used.has(5)).toBe(true);
+  });
+
+  it("handles thousands of cells", () => {
+    const points = [...corners(1000, 1000), ...randomPoints(5000, 1000, 1000, 3)];
+    const triangles = delaunayTriangulation(points);
+
+    expect(triangles.reduce((sum, t) => sum + area(points, t), 0)).toBeCloseTo(1000 * 1000, 0);
+  });
+});
+
+describe("lloydRelaxation", () => {
+  it("returns the seeds untouched with no iterations", () => {
+    const seeds = randomPoints(10, 50, 50);
+    expect(lloydRelaxation(seeds, 50, 50, 0)).toBe(seeds);
+  });
+
+  it("spreads crowded seeds evenly over the image", () => {
+    const seeds = [
+      { x: 1, y: 5 },
+      { x: 2, y: 5 },
+    ];
+    const [left, right] = lloydRelaxation(seeds, 100, 10, 30);
+
+    expect(left.x).toBeCloseTo(24.5, 0);
+    expect(right.x).toBeCloseTo(74.5, 0);
+    expect(left.y).toBeCloseTo(4.5, 0);
+  });
+
+  it("keeps every seed inside the image and reports each iteration", () => {
+    const iterations: number[] = [];
+    const relaxed = lloydRelaxation(randomPoints(500, 300, 200, 11), 300, 200, 3, (i) => iterations.push(i));
+
+    expect(iterations).toEqual([0, 1, 2]);
+    expect(relaxed).toHaveLength(500);
+    for (const p of relaxed) {
+      expect(p.x).toBeGreaterThanOrEqual(0);
+      expect(p.x).toBeLessThan(300);
+      expect(p.y).toBeGreaterThanOrEqual(0);
+      expect(p.y).toBeLessThan(200);
+    }
+  });
+
+  it("is deterministic for the same seeds", () => {
+    const seeds = randomPoints(100, 120, 80, 5);
+    expect(lloydRelaxation(seeds, 120, 80, 4)).toEqual(lloydRelaxation(seeds, 120, 80, 4));
+  });
+});
+
+describe("triangle mode", () => {
+  it("fits rows of equilateral triangles, offset by half a side, across the image", () => {
+    const { colors, side, rowHeight } = triangulateImage(paintImage(100, 100, () => RED), 5);
+
+    expect(side).toBe(20);
+    expect(rowHeight).toBeCloseTo(10 * Math.sqrt(3));
+    expect(colors).toHaveLength(5);
+    expect(colors.every((row) => row.length === 11)).toBe(true);
+  });
+
+  it("averages the image inside each triangle", () => {
+    const { colors } = triangulateImage(paintImage(100, 100, (x) => (x < 50 ? RED : BLUE)), 5);
+
+    expect(colors[0][1]).toEqual(RED);
+    expect(colors[0][9]).toEqual(BLUE);
+  });
+
+  it("alternates up and down triangles with equal sides", () => {
+    const design = generateTriangleDesign(colorGrid(3, 7), [RED]);
+
+    for (const shape of design.shapes) {
+      const [outline] = shapeOutlines(shape);
+      const sides = outline.points.map((p, i) => {
+        const q = outline.points[(i + 1) % 3];
+        return Math.hypot(q.x - p.x, q.y - p.y);
+      });
+      for (const length of sides) expect(length).toBeCloseTo(design.cellSize);
+
+      const { row, col } = shape.stitchData.gridPosition;
+      expect(shape.stitchData.angle).toBe((row + col) % 2 === 0 ? 60 : 120);
+      expect(shape.stitchData.edges).toBe(3);
+    }
+  });
+
+  it("lists the triangles sharing each edge as neighbors", () => {
+    const design = generateTriangleDesign(colorGrid(4, 9), [RED]);
+
+    expectNeighborsShareEdges(design);
+    expect(design.shapes.find((s) => s.id === "shape-1-3")!.stitchData.neighbors).toHaveLength(3);
+  });
+
+  it("sizes the quilt by whole sides across and row heights down", () => {
+    const design = generateTriangleDesign(colorGrid(4, 11), [RED], 50);
+
+    expect(design.fabricData.totalWidthMm).toBe(250);
+    expect(design.fabricData.totalHeightMm).toBe(Math.round(4 * 25 * Math.sqrt(3)));
+  });
+});
+
+describe("hexagon mode", () => {
+  it("fits every row, shifted or not, inside the image", () => {
+    const { colors, side } = hexagonizeImage(paintImage(200, 150, () => RED), 5);
+    const hexWidth = side * Math.sqrt(3);
+
+    expect(colors.every((row) => row.length === 5)).toBe(true);
+    expect(5.5 * hexWidth).toBeCloseTo(200);
+    // The last row still fits: first row 2 sides tall, then 1.5 sides per row
+    expect(2 * side + (colors.length - 1) * 1.5 * side).toBeLessThanOrEqual(150);
+    expect(2 * side + colors.length * 1.5 * side).toBeGreaterThan(150);
+  });
+
+  it("shifts odd rows right by half a hexagon", () => {
+    const design = generateHexagonDesign(colorGrid(3, 4), [RED]);
+    const at = (row: number, col: number) => design.shapes.find((s) => s.id === `shape-${row}-${col}`)!;
+    const hexWidth = design.cellSize * Math.sqrt(3);
+
+    expect(at(1, 0).x - at(0, 0).x).toBeCloseTo(hexWidth / 2);
+    expect(at(2, 0).x).toBe(at(0, 0).x);
+    expect(at(1, 0).y - at(0, 0).y).toBeCloseTo(1.5 * design.cellSize);
+  });
+
+  it("draws regular hexagons with the side as the cell size", () => {
+    const design = generateHexagonDesign(colorGrid(2, 2), [RED], 38);
+
+    for (const shape of design.shapes) {
+      const [{ points }] = shapeOutlines(shape);
+      expect(points).toHaveLength(6);
+      points.forEach((p, i) => {
+        const q = points[(i + 1) % 6];
+        expect(Math.hypot(q.x - p.x, q.y - p.y)).toBeCloseTo(design.cellSize);
+      });
+      expect(shape.stitchData).toMatchObject({ sizeMm: 38, edges: 6, angle: 120 });
+    }
+  });
+
+  it("lists the hexagons sharing each edge as neighbors", () => {
+    const design = generateHexagonDesign(colorGrid(5, 5), [RED]);
+
+    expectNeighborsShareEdges(design);
+    // Interior hexagons in even and odd rows
+    expect(design.shapes.find((s) => s.id === "shape-2-2")!.stitchData.neighbors).toHaveLength(6);
+    expect(design.shapes.find((s) => s.id === "shape-1-2")!.stitchData.neighbors).toHaveLength(6);
+  });
+});
+
+describe("half-square-triangle mode", () => {
+  // Halves average in the pixels along the diagonal, so compare the dominant channel
+  const hue = ([r, , b]: RGB) => (r > b ? "red" : "blue");
+
+  it("splits cells crossed by a falling diagonal from top-left to bottom-right", () => {
+    const { diagonals, upper, lower } = splitCellsAlongEdges(paintImage(80, 80, (x, y) => (x > y ? RED : BLUE)), 4);
+
+    for (let i = 0; i < 4; i++) {
+      expect(diagonals[i][i]).toBe("tl-br");
+      expect(hue(upper[i][i])).toBe("red");
+      expect(hue(lower[i][i])).toBe("blue");
+    }
+    expect(diagonals[0][3]).toBeNull();
+    expect(diagonals[3][0]).toBeNull();
+  });
+
+  it("splits cells crossed by a rising diagonal from top-right to bottom-left", () => {
+    const { diagonals, upper, lower } = splitCellsAlongEdges(paintImage(80, 80, (x, y) => (x + y < 79 ? RED : BLUE)), 4);
+
+    for (let i = 0; i < 4; i++) {
+      expect(diagonals[i][3 - i]).toBe("tr-bl");
+      expect(hue(upper[i][3 - i])).toBe("red");
+      expect(hue(lower[i][3 - i])).toBe("blue");
+    }
+    expect(diagonals[0][0]).toBeNull();
+  });
+
+  it("leaves cells crossed by straight edges whole", () => {
+    const { diagonals, upper, lower } = splitCellsAlongEdges(paintImage(80, 80, (x) => (x < 50 ? RED : BLUE)), 4);
+
+    expect(diagonals.flat().every((d) => d === null)).toBe(true);
+    expect(upper).toEqual(lower);
+  });
+
+  it("keeps squares solid when both halves quantize to one color", () => {
+    const design = generateHstDesign(
+      [["tl-br", "tr-bl", null]],
+      [[RED, RED, RED]],
+      [[BLUE, RED, BLUE]],
+      [RED, BLUE]
+    );
+    const [split, samecolor, unsplit] = design.shapes;
+
+    expect(split.hst).toEqual({ diagonal: "tl-br", colors: ["#ff0000", "#0000ff"] });
+    expect(split.stitchData.angle).toBe(45);
+    expect(samecolor.hst).toBeUndefined();
+    expect(unsplit.hst).toBeUndefined();
+    expect(shapeOutlines(split).map((o) => o.color)).toEqual(["#ff0000", "#0000ff"]);
+  });
+});
+
+describe("rectangle mode", () => {
+  const GREEN: RGB = [0, 255, 0];
+  const blotchy = (rows: number, cols: number, seed: number) => {
+    const random = createRandom(seed);
+    const colors = [RED, BLUE, GREEN];
+    // Mostly one color so that large runs appear next to single cells
+    return colorGrid(rows, cols, () => (random() < 0.7 ? RED : colors[Math.floor(random() * 3)]));
+  };
+
+  it("covers every cell exactly once with uniform rectangles", () => {
+    for (const seed of [1, 2, 3]) {
+      const grid = blotchy(17, 23, seed);
+      const count = grid.map((row) => row.map(() => 0));
+
+      for (const rect of mergeUniformRectangles(grid, 5)) {
+        expect(rect.rows).toBeLessThanOrEqual(5);
+        expect(rect.cols).toBeLessThanOrEqual(5);
+        for (let r = rect.row; r < rect.row + rect.rows; r++) {
+          for (let c = rect.col; c < rect.col + rect.cols; c++) {
+            count[r][c]++;
+            expect(grid[r][c]).toEqual(grid[rect.row][rect.col]);
+          }
+        }
+      }
+      expect(count.flat().every((n) => n === 1)).toBe(true);
+    }
+  });
+
+  it("merges a flat area into pieces no longer than the span", () => {
+    const rects = mergeUniformRectangles(colorGrid(10, 12), 8);
+
+    expect(rects[0]).toEqual({ row: 0, col: 0, rows: 8, cols: 8 });
+    expect(rects).toHaveLength(4);
+  });
+
+  it("sizes pieces by their cell span and lists touching pieces as neighbors", () => {
+    const design = generateRectangleDesign(blotchy(12, 14, 5), [RED, BLUE, GREEN], 30, 5);
+    const byId = new Map(design.shapes.map((shape) => [shape.id, shape]));
+    // Two rectangles touch when they share a side of positive length
+    const overlap = (a1: number, a2: number, b1: number, b2: number) => Math.min(a2, b2) - Math.max(a1, b1) > 0;
+    const touching = (a: QuiltShape, b: QuiltShape) =>
+      ((a.x + a.width === b.x || b.x + b.width === a.x) && overlap(a.y, a.y + a.height, b.y, b.y + b.height)) ||
+      ((a.y + a.height === b.y || b.y + b.height === a.y) && overlap(a.x, a.x + a.width, b.x, b.x + b.width));
+
+    expect(design.shapes.reduce((sum, shape) => sum + shape.width * shape.height, 0)).toBe(design.width * design.height);
+    for (const shape of design.shapes) {
+      expect(shape.stitchData.sizeMm).toBe((shape.width / 20) * 30);
+      expect(shape.stitchData.heightMm).toBe((shape.height / 20) * 30);
+      const expected = design.shapes.filter((other) => other !== shape && touching(shape, other)).map((other) => other.id);
+      expect([...shape.stitchData.neighbors].sort(), shape.id).toEqual(expected.sort());
+      for (const id of shape.stitchData.neighbors) {
+        expect(byId.get(id)!.stitchData.neighbors).toContain(shape.id);
+      }
+    }
+  });
+});
+
+describe("seam allowance templates", () => {
+  const square = (size: number): Point[] => corners(size, size);
+  const polygonArea = (points: Point[]) =>
+    Math.abs(points.reduce((sum, p, i) => {
+      const q = points[(i + 1) % points.length];
+      return sum + p.x * q.y - q.x * p.y;
+    }, 0)) / 2;
+  const hexagon = (radius: number): Point[] =>
+    Array.from({ length: 6 }, (_, i) => ({
+      x: 50 + radius * Math.cos((i * Math.PI) / 3),
+      y: 50 + radius * Math.sin((i * Math.PI) / 3),
+    }));
+
+  it("offsets a square outward by the seam whichever way it winds", () => {
+    const grown = [
+      { x: -2, y: -2 },
+      { x: 12, y: -2 },
+      { x: 12, y: 12 },
+      { x: -2, y: 12 },
+    ];
+    const expectPoints = (actual: Point[], expected: Point[]) => {
+      expect(actual).toHaveLength(expected.length);
+      actual.forEach((p, i) => {
+        expect(p.x).toBeCloseTo(expected[i].x);
+        expect(p.y).toBeCloseTo(expected[i].y);
+      });
+    };
+
+    expectPoints(offsetPolygon(square(10), 2), grown);
+    expectPoints(offsetPolygon([...square(10)].reverse(), 2), [...grown].reverse());
+  });
+
+  it("blunts corners whose miter would run past the limit", () => {
+    const spike = [
+      { x: 0, y: 0 },
+      { x: 100, y: 5 },
+      { x: 0, y: 10 },
+    ];
+    const cut = offsetPolygon(spike, 2);
+
+    expect(cut).toHaveLength(4);
+    for (const p of cut) {
+      const nearest = Math.min(...spike.map((s) => Math.hypot(p.x - s.x, p.y - s.y)));
+      expect(nearest).toBeLessThanOrEqual(2 * 3 + 1e-9);
+    }
+  });
+
+  it("measures edges, corners and area of the finished piece in millimeters", () => {
+    const template = buildPieceTemplate(hexagon(10), 2, 6);
+
+    expect(template.finishedMm).toHaveLength(6);
+    template.edgeLengthsMm.forEach((length) => expect(length).toBeCloseTo(20));
+    template.cornerAnglesDeg.forEach((angle) => expect(angle).toBeCloseTo(120));
+    expect(template.cornerAnglesDeg.reduce((a, b) => a + b, 0)).toBeCloseTo((6 - 2) * 180);
+    expect(template.areaMm2).toBeCloseTo(((3 * Math.sqrt(3)) / 2) * 20 ** 2);
+    expect(polygonArea(template.cutMm)).toBeGreaterThan(template.areaMm2);
+  });
+
+  it("adds the seam allowance around the cut outline", () => {
+    const template = buildPieceTemplate(square(10), 2, 6);
+
+    expect(template.areaMm2).toBeCloseTo(20 * 20);
+    expect(polygonArea(template.cutMm)).toBeCloseTo(32 * 32);
+    expect(template.cornerAnglesDeg).toEqual([90, 90, 90, 90]);
+  });
+
+  it("merges vertices closer than half a millimeter", () => {
+    const [a, b, c, d] = square(10);
+    const template = buildPieceTemplate([a, b, { x: b.x + 0.1, y: b.y + 0.1 }, c, d, { x: a.x, y: a.y + 0.1 }], 2, 6);
+
+    expect(template.finishedMm).toHaveLength(4);
+    expect(template.edgeLengthsMm).toHaveLength(4);
+    expect(template.areaMm2).toBeCloseTo(20 * 20, 0);
+  });
+});
+
+describe("pixel mode", () => {
+  it("averages each square cell", () => {
+    const { colors, cellWidth, cellHeight } = pixelateImage(paintImage(40, 20, (x) => (x < 10 ? RED : BLUE)), 4);
+
+    expect(cellWidth).toBe(10);
+    expect(cellHeight).toBe(10);
+    expect(colors).toEqual(colorGrid(2, 4, (_, col) => (col === 0 ? RED : BLUE)));
+  });
+
+  it("caps the grid at one cell per pixel when the image is narrower than the grid", () => {
+    const image = paintImage(30, 400, () => RED);
+    const { colors, cellWidth } = pixelateImage(image, 80);
+
+    expect(cellWidth).toBe(1);
+    expect(colors).toHaveLength(400);
+    expect(colors.every((row) => row.length === 30)).toBe(true);
+
+    const { diagonals, upper } = splitCellsAlongEdges(image, 80);
+    expect(diagonals).toHaveLength(400);
+    expect(upper[0]).toHaveLength(30);
+  });
+});
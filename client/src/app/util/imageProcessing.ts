@@ -8,13 +8,24 @@
  * 4. Voronoi diagrams - organic cell-based patterns from seed points
  */
 
-export type ShapeType = "pixel" | "triangle" | "hexagon" | "voronoi";
+import { createColorMetric, labToRgb, parseColor, type ColorSpace } from "./colorSpace";
+import { createRandom, randomSeed, type Random } from "./random";
+import { despeckle, type DespeckleStats, type SpeckPiece } from "./despeckle";
+import { matchPaletteToCatalog, type Fabric, type FabricCatalog } from "./fabricCatalog";
+
+export type ShapeType = "pixel" | "triangle" | "hexagon" | "voronoi" | "hst" | "rectangle";
+
+/**
+ * Seam of a half-square triangle: "tl-br" runs from the top-left to the
+ * bottom-right corner, "tr-bl" from the top-right to the bottom-left corner
+ */
+export type HstDiagonal = "tl-br" | "tr-bl";
 
 /**
  * Settings specific to Voronoi diagram generation
  */
 export type VoronoiSettings = {
-  /** Number of seed points (cells) - 20 to 500 */
+  /** Number of seed points (cells) - 20 to 5000 */
   numSeeds: number;
   /** Lloyd's relaxation iterations for more uniform cells - 0 to 10 */
   relaxationIterations: number;
@@ -39,12 +50,22 @@ export type QuiltShape = {
   width: number;
   height: number;
   color: string;
+  /** Half-square-triangle split (hst only; absent for solid squares) */
+  hst?: {
+    diagonal: HstDiagonal;
+    /** Fabric above the diagonal, then below it; colors[0] equals `color` */
+    colors: [string, string];
+  };
+  /** Cutting template (voronoi only; other modes use regular cut sizes) */
+  template?: PieceTemplate;
   // Stitching metadata
   stitchData: {
     /** Angle in degrees for the stitch direction */
     angle: number;
-    /** Size in mm for real-world fabrication */
+    /** Size in mm for real-world fabrication (the width for rectangles) */
     sizeMm: number;
+    /** Finished height in mm when it differs from sizeMm (rectangle only) */
+    heightMm?: number;
     /** Seam allowance in mm */
     seamAllowanceMm: number;
     /** Number of edges (4 for pixel, 3 for triangle, 6 for hexagon) */
@@ -56,6 +77,23 @@ export type QuiltShape = {
   };
 };
 
+/**
+ * Full-size template for an irregular piece, in quilt millimetres
+ * measured from the top-left corner of the finished quilt
+ */
+export type PieceTemplate = {
+  /** Finished outline (the sewing line) */
+  finishedMm: Point[];
+  /** Cutting line: the finished outline offset outward by the seam allowance */
+  cutMm: Point[];
+  /** Finished edge lengths; edge i runs from vertex i to vertex i + 1 */
+  edgeLengthsMm: number[];
+  /** Interior angle at each finished vertex, in degrees */
+  cornerAnglesDeg: number[];
+  /** Finished area in mm² */
+  areaMm2: number;
+};
+
 export type QuiltDesign = {
   width: number;
   height: number;
@@ -72,10 +110,19 @@ export type QuiltDesign = {
     cellSizeMm: number;
     seamAllowanceMm: number;
   };
+  /** PRNG seed the design was generated with; reruns with it reproduce the design */
+  seed?: number;
+  /** Catalog fabric chosen for each palette color, keyed by color string */
+  fabrics?: Record<string, Fabric>;
+  /** Small-piece cleanup that was applied, if any */
+  despeckle?: DespeckleStats;
 };
 
 type RGB = [number, number, number];
 
+/** RGBA pixels the pipeline reads: an ImageData, or anything shaped like one */
+export type PixelData = Pick<ImageData, "width" | "height" | "data">;
+
 /**
  * Load an image from a data URL into an ImageData object
  */
@@ -99,15 +146,59 @@ export function loadImageData(dataUrl: string): Promise<ImageData> {
   });
 }
 
+/**
+ * Shrink an image so its longer side is at most `maxSide` pixels, averaging
+ * each block of source pixels. Returns a copy even when no shrinking is
+ * needed, so the result can be transferred to a worker.
+ */
+export function downsampleImageData(imageData: ImageData, maxSide: number): ImageData {
+  const { width, height, data } = imageData;
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  if (scale === 1) return new ImageData(new Uint8ClampedArray(data), width, height);
+
+  const outWidth = Math.max(1, Math.round(width * scale));
+  const outHeight = Math.max(1, Math.round(height * scale));
+  const out = new Uint8ClampedArray(outWidth * outHeight * 4);
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    const y0 = Math.floor((oy * height) / outHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((oy + 1) * height) / outHeight));
+    for (let ox = 0; ox < outWidth; ox++) {
+      const x0 = Math.floor((ox * width) / outWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((ox + 1) * width) / outWidth));
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const idx = (y * width + x) * 4;
+          r += data[idx];
+          g += data[idx + 1];
+          b += data[idx + 2];
+          a += data[idx + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (oy * outWidth + ox) * 4;
+      out[o] = r / count;
+      out[o + 1] = g / count;
+      out[o + 2] = b / count;
+      out[o + 3] = a / count;
+    }
+  }
+
+  return new ImageData(out, outWidth, outHeight);
+}
+
 /**
  * Pixelate an image by averaging colors in grid cells
  */
 export function pixelateImage(
-  imageData: ImageData,
+  imageData: PixelData,
   gridWidth: number
 ): { colors: RGB[][]; cellWidth: number; cellHeight: number } {
   const { width, height, data } = imageData;
-  const cellWidth = Math.floor(width / gridWidth);
+  // A grid finer than the image would leave cells zero pixels wide
+  const columns = Math.max(1, Math.min(gridWidth, width));
+  const cellWidth = Math.floor(width / columns);
   const gridHeight = Math.floor(height / cellWidth);
   const cellHeight = cellWidth; // Keep cells square
 
@@ -115,7 +206,7 @@ export function pixelateImage(
 
   for (let row = 0; row < gridHeight; row++) {
     const rowColors: RGB[] = [];
-    for (let col = 0; col < gridWidth; col++) {
+    for (let col = 0; col < columns; col++) {
       // Sample all pixels in this cell and average them
       let r = 0, g = 0, b = 0, count = 0;
 
@@ -148,6 +239,283 @@ export function pixelateImage(
   return { colors, cellWidth, cellHeight };
 }
 
+/**
+ * Average the image colors whose pixel centers fall inside a polygon.
+ * Polygons that cover no pixel centers (slivers at the image border)
+ * fall back to the pixel nearest to their centroid.
+ */
+function averagePolygonColor(imageData: PixelData, polygon: Point[]): RGB {
+  const { width, height, data } = imageData;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of polygon) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+
+  const startX = Math.max(0, Math.floor(minX));
+  const startY = Math.max(0, Math.floor(minY));
+  const endX = Math.min(width, Math.ceil(maxX));
+  const endY = Math.min(height, Math.ceil(maxY));
+
+  let r = 0, g = 0, b = 0, count = 0;
+
+  for (let py = startY; py < endY; py++) {
+    for (let px = startX; px < endX; px++) {
+      // Test the pixel center so shared edges are not counted twice
+      if (!pointInPolygon({ x: px + 0.5, y: py + 0.5 }, polygon)) continue;
+      const i = (py * width + px) * 4;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      count++;
+    }
+  }
+
+  if (count === 0) {
+    const cx = polygon.reduce((s, p) => s + p.x, 0) / polygon.length;
+    const cy = polygon.reduce((s, p) => s + p.y, 0) / polygon.length;
+    const px = Math.min(width - 1, Math.max(0, Math.floor(cx)));
+    const py = Math.min(height - 1, Math.max(0, Math.floor(cy)));
+    const i = (py * width + px) * 4;
+    return [data[i], data[i + 1], data[i + 2]];
+  }
+
+  return [
+    Math.round(r / count),
+    Math.round(g / count),
+    Math.round(b / count),
+  ];
+}
+
+/**
+ * Vertices of an equilateral triangle inside its bounding box.
+ * Up triangles have the apex at the top, down triangles at the bottom.
+ */
+function triangleVertices(
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  isUp: boolean
+): Point[] {
+  return isUp
+    ? [{ x: x + w / 2, y }, { x: x + w, y: y + h }, { x, y: y + h }]
+    : [{ x, y }, { x: x + w, y }, { x: x + w / 2, y: y + h }];
+}
+
+/**
+ * Whether the triangle at (row, col) points up.
+ * Up and down triangles alternate along each row and between rows.
+ */
+function isUpTriangle(row: number, col: number): boolean {
+  return (row + col) % 2 === 0;
+}
+
+/**
+ * Average the image colors inside each triangle of an equilateral grid.
+ *
+ * `gridWidth` is the number of triangle sides across the image. Each row
+ * holds 2 * gridWidth + 1 triangles offset by half a side, so the first
+ * and last triangle overhang the image edges and are trimmed after piecing.
+ */
+export function triangulateImage(
+  imageData: PixelData,
+  gridWidth: number
+): { colors: RGB[][]; side: number; rowHeight: number } {
+  const { width, height } = imageData;
+  const side = width / gridWidth;
+  const rowHeight = (side * Math.sqrt(3)) / 2;
+  const gridHeight = Math.floor(height / rowHeight);
+  const numCols = gridWidth * 2 + 1;
+
+  const colors: RGB[][] = [];
+
+  for (let row = 0; row < gridHeight; row++) {
+    const rowColors: RGB[] = [];
+    for (let col = 0; col < numCols; col++) {
+      const x = ((col - 1) * side) / 2;
+      const y = row * rowHeight;
+      const polygon = triangleVertices(x, y, side, rowHeight, isUpTriangle(row, col));
+      rowColors.push(averagePolygonColor(imageData, polygon));
+    }
+    colors.push(rowColors);
+  }
+
+  return { colors, side, rowHeight };
+}
+
+/**
+ * Vertices of a pointy-top regular hexagon inside its bounding box
+ * (width = √3 × side, height = 2 × side).
+ */
+function hexagonVertices(x: number, y: number, w: number, h: number): Point[] {
+  const cx = x + w / 2;
+  const cy = y + h / 2;
+  const r = h / 2;
+  return Array.from({ length: 6 }, (_, i) => {
+    const angle = (Math.PI / 3) * i - Math.PI / 6;
+    return { x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) };
+  });
+}
+
+/**
+ * Row/column offsets of the six hexagons sharing an edge with (row, col).
+ * Odd rows are shifted right by half a hexagon ("odd-r" offset layout).
+ */
+function hexagonNeighborOffsets(row: number): [number, number][] {
+  return row % 2 === 0
+    ? [[-1, -1], [-1, 0], [0, 1], [1, 0], [1, -1], [0, -1]]
+    : [[-1, 0], [-1, 1], [0, 1], [1, 1], [1, 0], [0, -1]];
+}
+
+/**
+ * Average the image colors inside each hexagon of an offset hex grid.
+ *
+ * `gridWidth` is the number of hexagons per row. Odd rows are shifted by
+ * half a hexagon, and the side length is chosen so every row, shifted or
+ * not, fits within the image width.
+ */
+export function hexagonizeImage(
+  imageData: PixelData,
+  gridWidth: number
+): { colors: RGB[][]; side: number } {
+  const { width, height } = imageData;
+  const side = width / ((gridWidth + 0.5) * Math.sqrt(3));
+  const hexWidth = side * Math.sqrt(3);
+  const hexHeight = side * 2;
+  const rowStep = side * 1.5;
+  const gridHeight = Math.max(1, Math.floor((height - hexHeight) / rowStep) + 1);
+
+  const colors: RGB[][] = [];
+
+  for (let row = 0; row < gridHeight; row++) {
+    const rowColors: RGB[] = [];
+    const offsetX = row % 2 === 0 ? 0 : hexWidth / 2;
+    for (let col = 0; col < gridWidth; col++) {
+      const polygon = hexagonVertices(col * hexWidth + offsetX, row * rowStep, hexWidth, hexHeight);
+      rowColors.push(averagePolygonColor(imageData, polygon));
+    }
+    colors.push(rowColors);
+  }
+
+  return { colors, side };
+}
+
+/**
+ * The two halves of a square cell split along a diagonal: above, then below
+ */
+function hstHalves(
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  diagonal: HstDiagonal
+): [Point[], Point[]] {
+  const tl = { x, y };
+  const tr = { x: x + w, y };
+  const br = { x: x + w, y: y + h };
+  const bl = { x, y: y + h };
+  return diagonal === "tl-br"
+    ? [[tl, tr, br], [tl, br, bl]]
+    : [[tl, tr, bl], [tr, br, bl]];
+}
+
+/** Minimum cell edge strength, relative to the strongest cell, for a split */
+const HST_EDGE_THRESHOLD = 0.25;
+/** Minimum RGB distance between the two halves for a split to be worth sewing */
+const HST_MIN_CONTRAST = 24;
+
+/**
+ * Sample the same grid as pixelateImage, but split cells crossed by a
+ * diagonal contour into half-square triangles.
+ *
+ * The dominant gradient orientation of each cell comes from the Sobel data
+ * (structure tensor); cells with a strong edge within 22.5° of a diagonal
+ * are split along it and each half is averaged on its own. Solid cells get
+ * the same color for both halves.
+ */
+export function splitCellsAlongEdges(
+  imageData: PixelData,
+  gridWidth: number
+): { diagonals: (HstDiagonal | null)[][]; upper: RGB[][]; lower: RGB[][] } {
+  const { width, height } = imageData;
+  const columns = Math.max(1, Math.min(gridWidth, width));
+  const cellSize = Math.floor(width / columns);
+  const gridHeight = Math.floor(height / cellSize);
+  const { colors } = pixelateImage(imageData, columns);
+  const { magnitude, direction } = computeEdgeData(imageData);
+
+  // Structure tensor per cell: mean edge strength and gradient orientation
+  const strength: number[][] = [];
+  const orientation: number[][] = [];
+  let maxStrength = 0;
+
+  for (let row = 0; row < gridHeight; row++) {
+    strength.push([]);
+    orientation.push([]);
+    for (let col = 0; col < columns; col++) {
+      let jxx = 0, jyy = 0, jxy = 0, sum = 0, count = 0;
+      for (let y = row * cellSize; y < Math.min((row + 1) * cellSize, height); y++) {
+        for (let x = col * cellSize; x < Math.min((col + 1) * cellSize, width); x++) {
+          const idx = y * width + x;
+          const gx = magnitude[idx] * Math.cos(direction[idx]);
+          const gy = magnitude[idx] * Math.sin(direction[idx]);
+          jxx += gx * gx;
+          jyy += gy * gy;
+          jxy += gx * gy;
+          sum += magnitude[idx];
+          count++;
+        }
+      }
+      const mean = count > 0 ? sum / count : 0;
+      strength[row].push(mean);
+      orientation[row].push((0.5 * Math.atan2(2 * jxy, jxx - jyy) * 180) / Math.PI);
+      maxStrength = Math.max(maxStrength, mean);
+    }
+  }
+
+  const diagonals: (HstDiagonal | null)[][] = [];
+  const upper: RGB[][] = [];
+  const lower: RGB[][] = [];
+
+  for (let row = 0; row < gridHeight; row++) {
+    diagonals.push([]);
+    upper.push([]);
+    lower.push([]);
+    for (let col = 0; col < columns; col++) {
+      let diagonal: HstDiagonal | null = null;
+
+      if (strength[row][col] >= maxStrength * HST_EDGE_THRESHOLD) {
+        // The seam runs perpendicular to the gradient (y points down)
+        const angle = orientation[row][col];
+        if (Math.abs(angle + 45) < 22.5) diagonal = "tl-br";
+        else if (Math.abs(angle - 45) < 22.5) diagonal = "tr-bl";
+      }
+
+      if (diagonal) {
+        const [above, below] = hstHalves(col * cellSize, row * cellSize, cellSize, cellSize, diagonal);
+        const aboveColor = averagePolygonColor(imageData, above);
+        const belowColor = averagePolygonColor(imageData, below);
+        if (colorDistance(aboveColor, belowColor) >= HST_MIN_CONTRAST) {
+          diagonals[row].push(diagonal);
+          upper[row].push(aboveColor);
+          lower[row].push(belowColor);
+          continue;
+        }
+      }
+
+      diagonals[row].push(null);
+      upper[row].push(colors[row][col]);
+      lower[row].push(colors[row][col]);
+    }
+  }
+
+  return { diagonals, upper, lower };
+}
+
 /**
  * Calculate color distance (Euclidean in RGB space)
  */
@@ -161,11 +529,15 @@ function colorDistance(c1: RGB, c2: RGB): number {
 /**
  * Find the closest color in a palette
  */
-function findClosestColor(color: RGB, palette: RGB[]): RGB {
+function findClosestColor(
+  color: RGB,
+  palette: RGB[],
+  distance: (a: RGB, b: RGB) => number = colorDistance
+): RGB {
   let minDist = Infinity;
   let closest = palette[0];
   for (const p of palette) {
-    const dist = colorDistance(color, p);
+    const dist = distance(color, p);
     if (dist < minDist) {
       minDist = dist;
       closest = p;
@@ -175,11 +547,17 @@ function findClosestColor(color: RGB, palette: RGB[]): RGB {
 }
 
 /**
- * K-means clustering for color quantization
+ * K-means clustering for color quantization. In the Lab color spaces
+ * centroids are averaged in Lab and compared with the chosen ΔE.
+ * `fixedColors` are kept as centroids that never move and lead the
+ * palette; they count towards `numColors`.
  */
 export function quantizeColors(
   colors: RGB[][],
-  numColors: number
+  numColors: number,
+  colorSpace: ColorSpace = "rgb",
+  random: Random = Math.random,
+  fixedColors: RGB[] = []
 ): { quantized: RGB[][]; palette: RGB[] } {
   // Flatten all colors
   const allColors: RGB[] = colors.flat();
@@ -188,20 +566,32 @@ export function quantizeColors(
     return { quantized: [], palette: [] };
   }
 
+  const { distance, toLab } = createColorMetric(colorSpace);
+  const mean = (cluster: RGB[]): RGB => {
+    const coords = colorSpace === "rgb" ? cluster : cluster.map(toLab);
+    const avg: [number, number, number] = [0, 1, 2].map(
+      (k) => coords.reduce((s, c) => s + c[k], 0) / coords.length
+    ) as [number, number, number];
+    return colorSpace === "rgb" ? (avg.map(Math.round) as RGB) : labToRgb(avg);
+  };
+
   // Initialize centroids with k-means++ style selection
-  const centroids: RGB[] = [];
+  const centroids: RGB[] = [...fixedColors];
+  const k = Math.max(numColors, fixedColors.length);
   
-  // First centroid: random
-  centroids.push(allColors[Math.floor(Math.random() * allColors.length)]);
+  // First centroid: random, unless fixed colors already seed the set
+  if (centroids.length === 0) {
+    centroids.push(allColors[Math.floor(random() * allColors.length)]);
+  }
   
   // Remaining centroids: choose colors far from existing centroids
-  while (centroids.length < numColors) {
+  while (centroids.length < k) {
     let maxDist = -1;
     let bestColor = allColors[0];
     
     for (const color of allColors) {
       const minDistToCentroid = Math.min(
-        ...centroids.map((c) => colorDistance(color, c))
+        ...centroids.map((c) => distance(color, c))
       );
       if (minDistToCentroid > maxDist) {
         maxDist = minDistToCentroid;
@@ -215,13 +605,13 @@ export function quantizeColors(
   const MAX_ITERATIONS = 20;
   for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
     // Assign each color to nearest centroid
-    const clusters: RGB[][] = Array.from({ length: numColors }, () => []);
+    const clusters: RGB[][] = Array.from({ length: k }, () => []);
     
     for (const color of allColors) {
       let minDist = Infinity;
       let closestIdx = 0;
       for (let i = 0; i < centroids.length; i++) {
-        const dist = colorDistance(color, centroids[i]);
+        const dist = distance(color, centroids[i]);
         if (dist < minDist) {
           minDist = dist;
           closestIdx = i;
@@ -230,18 +620,14 @@ export function quantizeColors(
       clusters[closestIdx].push(color);
     }
 
-    // Update centroids
+    // Update centroids (fixed colors stay put)
     let converged = true;
-    for (let i = 0; i < numColors; i++) {
+    for (let i = fixedColors.length; i < k; i++) {
       if (clusters[i].length === 0) continue;
       
-      const newCentroid: RGB = [
-        Math.round(clusters[i].reduce((s, c) => s + c[0], 0) / clusters[i].length),
-        Math.round(clusters[i].reduce((s, c) => s + c[1], 0) / clusters[i].length),
-        Math.round(clusters[i].reduce((s, c) => s + c[2], 0) / clusters[i].length),
-      ];
+      const newCentroid = mean(clusters[i]);
       
-      if (colorDistance(newCentroid, centroids[i]) > 1) {
+      if (distance(newCentroid, centroids[i]) > 1) {
         converged = false;
       }
       centroids[i] = newCentroid;
@@ -252,12 +638,157 @@ export function quantizeColors(
 
   // Quantize all colors to nearest centroid
   const quantized: RGB[][] = colors.map((row) =>
-    row.map((color) => findClosestColor(color, centroids))
+    row.map((color) => findClosestColor(color, centroids, distance))
   );
 
   return { quantized, palette: centroids };
 }
 
+/**
+ * Replace quantized palette colors with their matched catalog fabrics.
+ * The first `lockedCount` colors keep their exact color; they only get a
+ * fabric if one has that very color, and it is not offered to the others.
+ */
+function snapToCatalog(
+  { quantized, palette }: { quantized: RGB[][]; palette: RGB[] },
+  catalog: FabricCatalog,
+  lockedCount: number = 0
+): { quantized: RGB[][]; palette: RGB[]; fabrics: (Fabric | undefined)[] } {
+  const locked = palette.slice(0, lockedCount);
+  const lockedFabrics = locked.map((color) =>
+    catalog.fabrics.find((fabric) => parseColor(fabric.hex).join(",") === color.join(","))
+  );
+  const remaining = catalog.fabrics.filter((fabric) => !lockedFabrics.includes(fabric));
+  const fabrics = [
+    ...lockedFabrics,
+    ...matchPaletteToCatalog(palette.slice(lockedCount), { ...catalog, fabrics: remaining }),
+  ];
+  const snapped = fabrics.map((fabric, i) => (i < lockedCount || !fabric ? palette[i] : parseColor(fabric.hex)));
+  const indexByColor = new Map(palette.map((c, i) => [c.join(","), i]));
+  return {
+    quantized: quantized.map((row) => row.map((c) => snapped[indexByColor.get(c.join(",")) ?? 0])),
+    palette: snapped,
+    fabrics,
+  };
+}
+
+/**
+ * Key matched fabrics by the design's color strings
+ */
+function fabricsByColor(colorPalette: string[], fabrics: (Fabric | undefined)[]): Record<string, Fabric> {
+  return Object.fromEntries(
+    colorPalette.flatMap((color, i) => (fabrics[i] ? [[color, fabrics[i]]] : []))
+  );
+}
+
+/**
+ * Row/column offsets of the grid cells sharing an edge with (row, col)
+ */
+type GridNeighbors = (row: number, col: number) => [number, number][];
+
+const squareNeighborOffsets: GridNeighbors = () => [[-1, 0], [0, 1], [1, 0], [0, -1]];
+
+/** Left and right slants, plus the flat edge below (up) or above (down) */
+const triangleNeighborOffsets: GridNeighbors = (row, col) =>
+  isUpTriangle(row, col) ? [[1, 0], [0, 1], [0, -1]] : [[-1, 0], [0, 1], [0, -1]];
+
+/**
+ * Merge small same-color regions of a quantized grid into their
+ * best-matching neighbors (see despeckle)
+ */
+function despeckleGrid(
+  quantized: RGB[][],
+  neighborOffsets: GridNeighbors,
+  pieceAreaMm2: number,
+  minAreaMm2: number,
+  distance: (a: RGB, b: RGB) => number
+): { quantized: RGB[][]; stats: DespeckleStats } {
+  const rowStart: number[] = [];
+  let count = 0;
+  for (const row of quantized) {
+    rowStart.push(count);
+    count += row.length;
+  }
+
+  const pieces = quantized.flatMap((rowColors, row) =>
+    rowColors.map((color, col) => ({
+      color,
+      areaMm2: pieceAreaMm2,
+      neighbors: neighborOffsets(row, col)
+        .map(([dRow, dCol]) => [row + dRow, col + dCol])
+        .filter(([r, c]) => r >= 0 && r < quantized.length && c >= 0 && c < quantized[r].length)
+        .map(([r, c]) => rowStart[r] + c),
+    }))
+  );
+
+  const { colors, stats } = despeckle(pieces, minAreaMm2, distance);
+  return {
+    quantized: quantized.map((rowColors, row) => rowColors.map((_, col) => colors[rowStart[row] + col])),
+    stats,
+  };
+}
+
+type HstSide = "top" | "right" | "bottom" | "left";
+
+/**
+ * Despeckle half-square-triangle cells, treating each half as a piece.
+ * Solid cells are split along tl-br too; their halves always share a color.
+ */
+function despeckleHst(
+  diagonals: (HstDiagonal | null)[][],
+  upper: RGB[][],
+  lower: RGB[][],
+  cellSizeMm: number,
+  minAreaMm2: number,
+  distance: (a: RGB, b: RGB) => number
+): { upper: RGB[][]; lower: RGB[][]; stats: DespeckleStats } {
+  const gridHeight = upper.length;
+  const gridWidth = upper[0]?.length || 0;
+  const index = (row: number, col: number, half: 0 | 1) => (row * gridWidth + col) * 2 + half;
+
+  // Which half touches each side: the upper one always has the top edge,
+  // and the right edge too when the diagonal runs tl-br
+  const halfOnSide = (row: number, col: number, side: HstSide): 0 | 1 => {
+    const tlbr = diagonals[row][col] !== "tr-bl";
+    if (side === "top") return 0;
+    if (side === "bottom") return 1;
+    if (side === "right") return tlbr ? 0 : 1;
+    return tlbr ? 1 : 0;
+  };
+
+  const pieces: SpeckPiece[] = [];
+  for (let row = 0; row < gridHeight; row++) {
+    for (let col = 0; col < gridWidth; col++) {
+      for (const half of [0, 1] as const) {
+        const neighbors = [index(row, col, half === 0 ? 1 : 0)];
+        const sides: [HstSide, number, number, HstSide][] = [
+          ["top", row - 1, col, "bottom"],
+          ["right", row, col + 1, "left"],
+          ["bottom", row + 1, col, "top"],
+          ["left", row, col - 1, "right"],
+        ];
+        for (const [side, nRow, nCol, opposite] of sides) {
+          if (halfOnSide(row, col, side) !== half) continue;
+          if (nRow < 0 || nRow >= gridHeight || nCol < 0 || nCol >= gridWidth) continue;
+          neighbors.push(index(nRow, nCol, halfOnSide(nRow, nCol, opposite)));
+        }
+        pieces.push({
+          color: (half === 0 ? upper : lower)[row][col],
+          areaMm2: (cellSizeMm * cellSizeMm) / 2,
+          neighbors,
+        });
+      }
+    }
+  }
+
+  const { colors, stats } = despeckle(pieces, minAreaMm2, distance);
+  return {
+    upper: upper.map((rowColors, row) => rowColors.map((_, col) => colors[index(row, col, 0)])),
+    lower: lower.map((rowColors, row) => rowColors.map((_, col) => colors[index(row, col, 1)])),
+    stats,
+  };
+}
+
 /**
  * Convert RGB to hex color string
  */
@@ -315,23 +846,346 @@ export function generateQuiltDesign(
           angle: 0, // Straight stitch for pixels
           sizeMm: cellSizeMm,
           seamAllowanceMm,
-          edges: shapeType === "pixel" ? 4 : shapeType === "triangle" ? 3 : 6,
+          edges: shapeType === "triangle" ? 3 : shapeType === "hexagon" ? 6 : 4,
           neighbors,
           gridPosition: { row, col },
         },
       };
 
-      shapes.push(shape);
+      shapes.push(shape);
+    }
+  }
+
+  return {
+    width: gridWidth * cellSize,
+    height: gridHeight * cellSize,
+    gridWidth,
+    gridHeight,
+    cellSize,
+    shapeType,
+    colorPalette,
+    shapes,
+    fabricData: {
+      totalWidthMm: gridWidth * cellSizeMm,
+      totalHeightMm: gridHeight * cellSizeMm,
+      cellSizeMm,
+      seamAllowanceMm,
+    },
+  };
+}
+
+/**
+ * Generate a QuiltDesign of equilateral triangles from triangulated colors
+ * (see triangulateImage). `cellSizeMm` is the finished side length.
+ */
+export function generateTriangleDesign(
+  quantizedColors: RGB[][],
+  palette: RGB[],
+  cellSizeMm: number = 25,
+  seamAllowanceMm: number = 6.35
+): QuiltDesign {
+  const gridHeight = quantizedColors.length;
+  const gridWidth = quantizedColors[0]?.length || 0;
+  const cellSize = 20; // side length in pixels for SVG display
+  const rowHeight = (cellSize * Math.sqrt(3)) / 2;
+  const sidesAcross = (gridWidth - 1) / 2;
+
+  const shapes: QuiltShape[] = [];
+  const colorPalette = palette.map(rgbToHex);
+
+  for (let row = 0; row < gridHeight; row++) {
+    for (let col = 0; col < gridWidth; col++) {
+      const isUp = isUpTriangle(row, col);
+      const id = `shape-${row}-${col}`;
+
+      // Neighbors share an edge: left and right slants, plus the flat edge
+      // (below for up triangles, above for down triangles)
+      const neighbors: string[] = [];
+      if (isUp && row < gridHeight - 1) neighbors.push(`shape-${row + 1}-${col}`); // bottom
+      if (!isUp && row > 0) neighbors.push(`shape-${row - 1}-${col}`); // top
+      if (col < gridWidth - 1) neighbors.push(`shape-${row}-${col + 1}`); // right
+      if (col > 0) neighbors.push(`shape-${row}-${col - 1}`); // left
+
+      shapes.push({
+        id,
+        type: "triangle",
+        x: ((col - 1) * cellSize) / 2,
+        y: row * rowHeight,
+        width: cellSize,
+        height: rowHeight,
+        color: rgbToHex(quantizedColors[row][col]),
+        stitchData: {
+          // Sub-cut angle from the strip edge; the ruler flips for every triangle
+          angle: isUp ? 60 : 120,
+          sizeMm: cellSizeMm,
+          seamAllowanceMm,
+          edges: 3,
+          neighbors,
+          gridPosition: { row, col },
+        },
+      });
+    }
+  }
+
+  return {
+    width: sidesAcross * cellSize,
+    height: Math.round(gridHeight * rowHeight * 100) / 100,
+    gridWidth,
+    gridHeight,
+    cellSize,
+    shapeType: "triangle",
+    colorPalette,
+    shapes,
+    fabricData: {
+      totalWidthMm: Math.round(sidesAcross * cellSizeMm),
+      totalHeightMm: Math.round((gridHeight * cellSizeMm * Math.sqrt(3)) / 2),
+      cellSizeMm,
+      seamAllowanceMm,
+    },
+  };
+}
+
+/**
+ * Generate a QuiltDesign of pointy-top hexagons in offset rows from
+ * hexagonized colors (see hexagonizeImage). `cellSizeMm` is the finished
+ * side length, which is how English paper piecing templates are sized.
+ */
+export function generateHexagonDesign(
+  quantizedColors: RGB[][],
+  palette: RGB[],
+  cellSizeMm: number = 25,
+  seamAllowanceMm: number = 6.35
+): QuiltDesign {
+  const gridHeight = quantizedColors.length;
+  const gridWidth = quantizedColors[0]?.length || 0;
+  const cellSize = 20; // side length in pixels for SVG display
+  const hexWidth = cellSize * Math.sqrt(3);
+  const hexHeight = cellSize * 2;
+  const rowStep = cellSize * 1.5;
+
+  const shapes: QuiltShape[] = [];
+  const colorPalette = palette.map(rgbToHex);
+
+  for (let row = 0; row < gridHeight; row++) {
+    const offsetX = row % 2 === 0 ? 0 : hexWidth / 2;
+    for (let col = 0; col < gridWidth; col++) {
+      const neighbors: string[] = [];
+      for (const [dRow, dCol] of hexagonNeighborOffsets(row)) {
+        const nRow = row + dRow;
+        const nCol = col + dCol;
+        if (nRow < 0 || nRow >= gridHeight || nCol < 0 || nCol >= gridWidth) continue;
+        neighbors.push(`shape-${nRow}-${nCol}`);
+      }
+
+      shapes.push({
+        id: `shape-${row}-${col}`,
+        type: "hexagon",
+        x: col * hexWidth + offsetX,
+        y: row * rowStep,
+        width: hexWidth,
+        height: hexHeight,
+        color: rgbToHex(quantizedColors[row][col]),
+        stitchData: {
+          angle: 120, // Interior angle at every corner
+          sizeMm: cellSizeMm,
+          seamAllowanceMm,
+          edges: 6,
+          neighbors,
+          gridPosition: { row, col },
+        },
+      });
+    }
+  }
+
+  const widthFactor = (gridHeight > 1 ? gridWidth + 0.5 : gridWidth) * Math.sqrt(3);
+  const heightFactor = 2 + (gridHeight - 1) * 1.5;
+
+  return {
+    width: Math.round(widthFactor * cellSize * 100) / 100,
+    height: heightFactor * cellSize,
+    gridWidth,
+    gridHeight,
+    cellSize,
+    shapeType: "hexagon",
+    colorPalette,
+    shapes,
+    fabricData: {
+      totalWidthMm: Math.round(widthFactor * cellSizeMm),
+      totalHeightMm: Math.round(heightFactor * cellSizeMm),
+      cellSizeMm,
+      seamAllowanceMm,
+    },
+  };
+}
+
+/**
+ * Generate a half-square-triangle QuiltDesign from split cells (see
+ * splitCellsAlongEdges). Cells whose halves quantize to the same color
+ * stay solid squares.
+ */
+export function generateHstDesign(
+  diagonals: (HstDiagonal | null)[][],
+  quantizedUpper: RGB[][],
+  quantizedLower: RGB[][],
+  palette: RGB[],
+  cellSizeMm: number = 25,
+  seamAllowanceMm: number = 6.35
+): QuiltDesign {
+  const design = generateQuiltDesign(quantizedUpper, palette, "hst", cellSizeMm, seamAllowanceMm);
+
+  for (const shape of design.shapes) {
+    const { row, col } = shape.stitchData.gridPosition;
+    const diagonal = diagonals[row][col];
+    const lowerHex = rgbToHex(quantizedLower[row][col]);
+    if (!diagonal || lowerHex === shape.color) continue;
+
+    shape.hst = { diagonal, colors: [shape.color, lowerHex] };
+    shape.stitchData.angle = 45; // Diagonal seam
+  }
+
+  return design;
+}
+
+/** Longest side of a merged rectangle, in grid cells */
+const RECTANGLE_MAX_SPAN = 8;
+
+type GridRect = { row: number; col: number; rows: number; cols: number };
+
+/**
+ * Greedily cover a quantized grid with uniform-color rectangles.
+ * Cells are visited in row-major order; each uncovered cell starts the
+ * largest-area rectangle of its color that fits over uncovered cells.
+ */
+export function mergeUniformRectangles(
+  quantizedColors: RGB[][],
+  maxSpan: number = RECTANGLE_MAX_SPAN
+): GridRect[] {
+  const gridHeight = quantizedColors.length;
+  const gridWidth = quantizedColors[0]?.length || 0;
+  const covered: boolean[][] = quantizedColors.map((row) => row.map(() => false));
+  const rects: GridRect[] = [];
+
+  const matches = (row: number, col: number, color: RGB) =>
+    !covered[row][col] && colorDistance(quantizedColors[row][col], color) === 0;
+
+  for (let row = 0; row < gridHeight; row++) {
+    for (let col = 0; col < gridWidth; col++) {
+      if (covered[row][col]) continue;
+      const color = quantizedColors[row][col];
+
+      // Widest run of this color to the right
+      let maxCols = 0;
+      while (
+        maxCols < maxSpan &&
+        col + maxCols < gridWidth &&
+        matches(row, col + maxCols, color)
+      ) {
+        maxCols++;
+      }
+
+      // For every width, grow downwards as far as the run holds; keep the largest
+      let best: GridRect = { row, col, rows: 1, cols: 1 };
+      let maxRows = maxSpan;
+      for (let cols = 1; cols <= maxCols; cols++) {
+        let rows = 1;
+        while (rows < maxRows && row + rows < gridHeight) {
+          let uniform = true;
+          for (let c = col; c < col + cols; c++) {
+            if (!matches(row + rows, c, color)) {
+              uniform = false;
+              break;
+            }
+          }
+          if (!uniform) break;
+          rows++;
+        }
+        // A wider rectangle can never be taller than a narrower one
+        maxRows = rows;
+        if (rows * cols > best.rows * best.cols) {
+          best = { row, col, rows, cols };
+        }
+      }
+
+      for (let r = best.row; r < best.row + best.rows; r++) {
+        for (let c = best.col; c < best.col + best.cols; c++) {
+          covered[r][c] = true;
+        }
+      }
+      rects.push(best);
     }
   }
 
+  return rects;
+}
+
+/**
+ * Generate a QuiltDesign that merges uniform areas of the quantized grid
+ * into larger squares and rectangles, so big flat areas become one piece.
+ */
+export function generateRectangleDesign(
+  quantizedColors: RGB[][],
+  palette: RGB[],
+  cellSizeMm: number = 25,
+  seamAllowanceMm: number = 6.35
+): QuiltDesign {
+  const gridHeight = quantizedColors.length;
+  const gridWidth = quantizedColors[0]?.length || 0;
+  const cellSize = 20; // pixels for SVG display
+
+  const rects = mergeUniformRectangles(quantizedColors);
+  const colorPalette = palette.map(rgbToHex);
+
+  // Which rectangle covers each cell, for neighbor lookup
+  const owner: number[][] = quantizedColors.map((row) => row.map(() => -1));
+  rects.forEach((rect, i) => {
+    for (let r = rect.row; r < rect.row + rect.rows; r++) {
+      for (let c = rect.col; c < rect.col + rect.cols; c++) {
+        owner[r][c] = i;
+      }
+    }
+  });
+
+  const ids = rects.map((rect) => `shape-${rect.row}-${rect.col}`);
+
+  const shapes: QuiltShape[] = rects.map((rect, i) => {
+    // Walk the outside of the rectangle border; every distinct owner shares an edge
+    const neighborIdx = new Set<number>();
+    const visit = (r: number, c: number) => {
+      if (r < 0 || r >= gridHeight || c < 0 || c >= gridWidth) return;
+      if (owner[r][c] !== i) neighborIdx.add(owner[r][c]);
+    };
+    for (let c = rect.col; c < rect.col + rect.cols; c++) visit(rect.row - 1, c); // top
+    for (let r = rect.row; r < rect.row + rect.rows; r++) visit(r, rect.col + rect.cols); // right
+    for (let c = rect.col; c < rect.col + rect.cols; c++) visit(rect.row + rect.rows, c); // bottom
+    for (let r = rect.row; r < rect.row + rect.rows; r++) visit(r, rect.col - 1); // left
+
+    return {
+      id: ids[i],
+      type: "rectangle",
+      x: rect.col * cellSize,
+      y: rect.row * cellSize,
+      width: rect.cols * cellSize,
+      height: rect.rows * cellSize,
+      color: rgbToHex(quantizedColors[rect.row][rect.col]),
+      stitchData: {
+        angle: 0,
+        sizeMm: rect.cols * cellSizeMm,
+        heightMm: rect.rows * cellSizeMm,
+        seamAllowanceMm,
+        edges: 4,
+        neighbors: [...neighborIdx].map((n) => ids[n]),
+        gridPosition: { row: rect.row, col: rect.col },
+      },
+    };
+  });
+
   return {
     width: gridWidth * cellSize,
     height: gridHeight * cellSize,
     gridWidth,
     gridHeight,
     cellSize,
-    shapeType,
+    shapeType: "rectangle",
     colorPalette,
     shapes,
     fabricData: {
@@ -343,6 +1197,42 @@ export function generateQuiltDesign(
   };
 }
 
+/**
+ * Outlines of a shape in design coordinates, one per piece of fabric
+ * (a split half-square triangle has two). Voronoi shapes carry their
+ * outline in `template` instead and return none here.
+ */
+export function shapeOutlines(shape: QuiltShape): { points: Point[]; color: string }[] {
+  const { x, y, width: w, height: h, color } = shape;
+  const { row, col } = shape.stitchData.gridPosition;
+
+  switch (shape.type) {
+    case "triangle":
+      return [{ points: triangleVertices(x, y, w, h, isUpTriangle(row, col)), color }];
+    case "hexagon":
+      return [{ points: hexagonVertices(x, y, w, h), color }];
+    case "voronoi":
+      return [];
+    default:
+      if (shape.hst) {
+        const [above, below] = hstHalves(x, y, w, h, shape.hst.diagonal);
+        return [
+          { points: above, color: shape.hst.colors[0] },
+          { points: below, color: shape.hst.colors[1] },
+        ];
+      }
+      return [{ points: [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }], color }];
+  }
+}
+
+/**
+ * Metadata JSON for an SVG comment; "--" is escaped so no string in it can
+ * end the comment
+ */
+export function svgMetadataJson(metadata: object): string {
+  return JSON.stringify(metadata).replace(/--/g, "-\\u002d");
+}
+
 /**
  * Generate SVG from QuiltDesign
  */
@@ -359,30 +1249,31 @@ export function quiltDesignToSvg(design: QuiltDesign): string {
       data-id="${id}"
       data-row="${stitchData.gridPosition.row}"
       data-col="${stitchData.gridPosition.col}"
-      data-size-mm="${stitchData.sizeMm}"
+      data-size-mm="${stitchData.sizeMm}"${stitchData.heightMm !== undefined ? ` data-height-mm="${stitchData.heightMm}"` : ""}
       data-seam-mm="${stitchData.seamAllowanceMm}"
       data-edges="${stitchData.edges}"
       data-neighbors="${stitchData.neighbors.join(",")}"
     `.trim().replace(/\s+/g, " ");
 
-    if (shapeType === "pixel") {
+    if (shapeType === "pixel" || shapeType === "rectangle" || (shapeType === "hst" && !shape.hst)) {
       shapesXml += `  <rect x="${x}" y="${y}" width="${w}" height="${h}" fill="${color}" ${dataAttrs}/>\n`;
+    } else if (shapeType === "hst" && shape.hst) {
+      const [above, below] = hstHalves(x, y, w, h, shape.hst.diagonal);
+      const toPoints = (polygon: Point[]) => polygon.map((p) => `${p.x},${p.y}`).join(" ");
+      shapesXml += `  <g data-diagonal="${shape.hst.diagonal}" data-colors="${shape.hst.colors.join(",")}" ${dataAttrs}>\n`;
+      shapesXml += `    <polygon points="${toPoints(above)}" fill="${shape.hst.colors[0]}"/>\n`;
+      shapesXml += `    <polygon points="${toPoints(below)}" fill="${shape.hst.colors[1]}"/>\n`;
+      shapesXml += `  </g>\n`;
     } else if (shapeType === "triangle") {
-      // For future: alternate triangles pointing up/down
-      const isUpper = (stitchData.gridPosition.row + stitchData.gridPosition.col) % 2 === 0;
-      const points = isUpper
-        ? `${x + w / 2},${y} ${x + w},${y + h} ${x},${y + h}`
-        : `${x},${y} ${x + w},${y} ${x + w / 2},${y + h}`;
-      shapesXml += `  <polygon points="${points}" fill="${color}" ${dataAttrs}/>\n`;
+      const { row, col } = stitchData.gridPosition;
+      const points = triangleVertices(x, y, w, h, isUpTriangle(row, col))
+        .map((p) => `${p.x.toFixed(2)},${p.y.toFixed(2)}`)
+        .join(" ");
+      shapesXml += `  <polygon points="${points}" fill="${color}" data-angle="${stitchData.angle}" ${dataAttrs}/>\n`;
     } else if (shapeType === "hexagon") {
-      // For future: hexagon grid
-      const cx = x + w / 2;
-      const cy = y + h / 2;
-      const r = w / 2;
-      const points = Array.from({ length: 6 }, (_, i) => {
-        const angle = (Math.PI / 3) * i - Math.PI / 6;
-        return `${cx + r * Math.cos(angle)},${cy + r * Math.sin(angle)}`;
-      }).join(" ");
+      const points = hexagonVertices(x, y, w, h)
+        .map((p) => `${p.x.toFixed(2)},${p.y.toFixed(2)}`)
+        .join(" ");
       shapesXml += `  <polygon points="${points}" fill="${color}" ${dataAttrs}/>\n`;
     }
   }
@@ -391,6 +1282,8 @@ export function quiltDesignToSvg(design: QuiltDesign): string {
   const metadata = {
     fabricData: design.fabricData,
     colorPalette: design.colorPalette,
+    fabrics: design.fabrics,
+    seed: design.seed,
     gridSize: { width: design.gridWidth, height: design.gridHeight },
     shapeType: design.shapeType,
     totalShapes: design.shapes.length,
@@ -405,23 +1298,62 @@ export function quiltDesignToSvg(design: QuiltDesign): string {
      data-grid-width="${design.gridWidth}"
      data-grid-height="${design.gridHeight}"
      data-shape-type="${shapeType}">
-  <!-- Quilt Design Metadata: ${JSON.stringify(metadata)} -->
+  <!-- Quilt Design Metadata: ${svgMetadataJson(metadata)} -->
 ${shapesXml}</svg>`;
 }
 
+/**
+ * Options for the full image → quilt pipeline
+ */
+export type QuiltProcessingOptions = {
+  gridWidth?: number;
+  numColors?: number;
+  shapeType?: ShapeType;
+  cellSizeMm?: number;
+  seamAllowanceMm?: number;
+  voronoiSettings?: VoronoiSettings;
+  /** Color space for k-means and nearest-color lookup */
+  colorSpace?: ColorSpace;
+  /** PRNG seed; a random one is picked when omitted */
+  seed?: number;
+  /** Snap the palette to the nearest fabrics of this catalog */
+  fabricCatalog?: FabricCatalog;
+  /** Merge same-color regions smaller than this many mm² into a neighbor (0 = off) */
+  minPieceAreaMm2?: number;
+  /** Palette colors ("#rrggbb" or "rgb()") to keep exactly, e.g. fabric already on hand */
+  lockedColors?: string[];
+};
+
+/**
+ * Pipeline stage reported while processing, with overall completion 0-1
+ */
+export type ProcessingProgress = {
+  stage: "vectorize" | "sample" | "edges" | "seeds" | "relax" | "quantize" | "cleanup" | "cells" | "design" | "svg";
+  label: string;
+  fraction: number;
+};
+
+export type ProgressCallback = (progress: ProcessingProgress) => void;
+
 /**
  * Full pipeline: Image → Pixelated → Quantized → SVG
  */
 export async function processImageToQuiltSvg(
   imageDataUrl: string,
-  options: {
-    gridWidth?: number;
-    numColors?: number;
-    shapeType?: ShapeType;
-    cellSizeMm?: number;
-    seamAllowanceMm?: number;
-    voronoiSettings?: VoronoiSettings;
-  } = {}
+  options: QuiltProcessingOptions = {}
+): Promise<{ svg: string; design: QuiltDesign }> {
+  const imageData = await loadImageData(imageDataUrl);
+  return processImageDataToQuiltSvg(imageData, options);
+}
+
+/**
+ * Full pipeline on already decoded pixels. Needs no DOM, so it also runs
+ * inside a Web Worker.
+ */
+export async function processImageDataToQuiltSvg(
+  imageData: PixelData,
+  options: QuiltProcessingOptions = {},
+  onProgress: ProgressCallback = () => {}
 ): Promise<{ svg: string; design: QuiltDesign }> {
   const {
     gridWidth = 30,
@@ -430,10 +1362,41 @@ export async function processImageToQuiltSvg(
     cellSizeMm = 25,
     seamAllowanceMm = 6.35,
     voronoiSettings = DEFAULT_VORONOI_SETTINGS,
+    colorSpace = "rgb",
+    seed = randomSeed(),
+    fabricCatalog,
+    minPieceAreaMm2 = 0,
+    lockedColors = [],
   } = options;
 
-  // Load image
-  const imageData = await loadImageData(imageDataUrl);
+  const random = createRandom(seed);
+  const { distance } = createColorMetric(colorSpace);
+  const fixedColors = lockedColors.map(parseColor);
+  let fabrics: (Fabric | undefined)[] | undefined;
+  let despeckleStats: DespeckleStats | undefined;
+  const quantize = (colors: RGB[][]) => {
+    onProgress({ stage: "quantize", label: "Clustering colors", fraction: 0.35 });
+    const result = quantizeColors(colors, numColors, colorSpace, random, fixedColors);
+    if (!fabricCatalog) return result;
+    const snapped = snapToCatalog(result, fabricCatalog, fixedColors.length);
+    fabrics = snapped.fabrics;
+    return snapped;
+  };
+  const cleanUp = (quantized: RGB[][], neighborOffsets: GridNeighbors, pieceAreaMm2: number) => {
+    if (minPieceAreaMm2 <= 0) return quantized;
+    onProgress({ stage: "cleanup", label: "Merging small pieces", fraction: 0.55 });
+    const result = despeckleGrid(quantized, neighborOffsets, pieceAreaMm2, minPieceAreaMm2, distance);
+    despeckleStats = result.stats;
+    return result.quantized;
+  };
+  const finish = (design: QuiltDesign) => {
+    design.seed = seed;
+    if (fabrics) design.fabrics = fabricsByColor(design.colorPalette, fabrics);
+    if (despeckleStats) design.despeckle = despeckleStats;
+    onProgress({ stage: "svg", label: "Writing SVG", fraction: 0.9 });
+    return { svg: quiltDesignToSvg(design), design };
+  };
+  const build = () => onProgress({ stage: "design", label: "Building pieces", fraction: 0.7 });
 
   // Use Voronoi pipeline if selected
   if (shapeType === "voronoi") {
@@ -445,28 +1408,83 @@ export async function processImageToQuiltSvg(
       borderWidth: voronoiSettings.borderWidth,
       cellSizeMm,
       seamAllowanceMm,
-    });
+      colorSpace,
+      seed,
+      fabricCatalog,
+      minPieceAreaMm2,
+      lockedColors,
+    }, onProgress);
+  }
+
+  onProgress({ stage: "sample", label: "Sampling image", fraction: 0.05 });
+
+  if (shapeType === "triangle") {
+    const { colors } = triangulateImage(imageData, gridWidth);
+    const { quantized, palette } = quantize(colors);
+    const cleaned = cleanUp(quantized, triangleNeighborOffsets, (Math.sqrt(3) / 4) * cellSizeMm ** 2);
+    build();
+    const design = generateTriangleDesign(cleaned, palette, cellSizeMm, seamAllowanceMm);
+    return finish(design);
+  }
+
+  if (shapeType === "hst") {
+    const { diagonals, upper, lower } = splitCellsAlongEdges(imageData, gridWidth);
+    // Quantize both halves together so they share one palette
+    const { quantized, palette } = quantize([...upper, ...lower]);
+    let quantizedUpper = quantized.slice(0, upper.length);
+    let quantizedLower = quantized.slice(upper.length);
+    if (minPieceAreaMm2 > 0) {
+      onProgress({ stage: "cleanup", label: "Merging small pieces", fraction: 0.55 });
+      const cleaned = despeckleHst(diagonals, quantizedUpper, quantizedLower, cellSizeMm, minPieceAreaMm2, distance);
+      quantizedUpper = cleaned.upper;
+      quantizedLower = cleaned.lower;
+      despeckleStats = cleaned.stats;
+    }
+    build();
+    const design = generateHstDesign(
+      diagonals,
+      quantizedUpper,
+      quantizedLower,
+      palette,
+      cellSizeMm,
+      seamAllowanceMm
+    );
+    return finish(design);
+  }
+
+  if (shapeType === "hexagon") {
+    const { colors } = hexagonizeImage(imageData, gridWidth);
+    const { quantized, palette } = quantize(colors);
+    const cleaned = cleanUp(quantized, hexagonNeighborOffsets, ((3 * Math.sqrt(3)) / 2) * cellSizeMm ** 2);
+    build();
+    const design = generateHexagonDesign(cleaned, palette, cellSizeMm, seamAllowanceMm);
+    return finish(design);
   }
 
   // Pixelate
   const { colors } = pixelateImage(imageData, gridWidth);
 
-  // Quantize colors
-  const { quantized, palette } = quantizeColors(colors, numColors);
+  // Quantize colors, then clean up specks before rectangles are merged
+  const { quantized, palette } = quantize(colors);
+  const cleaned = cleanUp(quantized, squareNeighborOffsets, cellSizeMm ** 2);
+
+  if (shapeType === "rectangle") {
+    build();
+    const design = generateRectangleDesign(cleaned, palette, cellSizeMm, seamAllowanceMm);
+    return finish(design);
+  }
 
   // Generate design with stitching metadata
+  build();
   const design = generateQuiltDesign(
-    quantized,
+    cleaned,
     palette,
     shapeType,
     cellSizeMm,
     seamAllowanceMm
   );
 
-  // Generate SVG
-  const svg = quiltDesignToSvg(design);
-
-  return { svg, design };
+  return finish(design);
 }
 
 
@@ -474,7 +1492,7 @@ export async function processImageToQuiltSvg(
 // VORONOI DIAGRAM IMPLEMENTATION
 // ============================================================================
 
-type Point = { x: number; y: number };
+export type Point = { x: number; y: number };
 
 type VoronoiCell = {
   id: string;
@@ -482,12 +1500,92 @@ type VoronoiCell = {
   color: RGB;
   polygon: Point[];
   area: number;
+  /** IDs of cells sharing a boundary edge (Delaunay neighbors) */
+  neighbors: string[];
+};
+
+/**
+ * Uniform grid of points for nearest-neighbor and radius queries. With
+ * cells sized to hold about one point each, a query only visits the few
+ * cells around it instead of every point.
+ */
+type PointGrid = {
+  /** Add a point; its index is the insertion order */
+  insert: (p: Point) => void;
+  /** Index of the point nearest (x, y), or -1 when the grid is empty */
+  nearest: (x: number, y: number) => number;
+  hasPointWithin: (x: number, y: number, radius: number) => boolean;
 };
 
+function createPointGrid(width: number, height: number, cellSize: number): PointGrid {
+  const size = Math.max(cellSize, 1);
+  const cols = Math.max(1, Math.ceil(width / size));
+  const rows = Math.max(1, Math.ceil(height / size));
+  const buckets: number[][] = Array.from({ length: cols * rows }, () => []);
+  const points: Point[] = [];
+  
+  const colOf = (x: number) => Math.min(cols - 1, Math.max(0, Math.floor(x / size)));
+  const rowOf = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor(y / size)));
+  
+  return {
+    insert(p) {
+      buckets[rowOf(p.y) * cols + colOf(p.x)].push(points.length);
+      points.push(p);
+    },
+    
+    nearest(x, y) {
+      const cx = colOf(x);
+      const cy = rowOf(y);
+      let best = -1;
+      let bestDist = Infinity;
+      
+      // Search rings of cells outward; once the best point is closer than
+      // anything the next ring could hold, stop
+      for (let r = 0; r <= Math.max(cols, rows); r++) {
+        for (let gy = cy - r; gy <= cy + r; gy++) {
+          if (gy < 0 || gy >= rows) continue;
+          const edgeRow = gy === cy - r || gy === cy + r;
+          for (let gx = cx - r; gx <= cx + r; gx += edgeRow ? 1 : 2 * r) {
+            if (gx >= 0 && gx < cols) {
+              for (const i of buckets[gy * cols + gx]) {
+                const dx = x - points[i].x;
+                const dy = y - points[i].y;
+                const dist = dx * dx + dy * dy;
+                if (dist < bestDist) {
+                  bestDist = dist;
+                  best = i;
+                }
+              }
+            }
+            if (r === 0) break;
+          }
+        }
+        if (best !== -1 && bestDist <= (r * size) ** 2) break;
+      }
+      
+      return best;
+    },
+    
+    hasPointWithin(x, y, radius) {
+      const radiusSq = radius * radius;
+      for (let gy = rowOf(y - radius); gy <= rowOf(y + radius); gy++) {
+        for (let gx = colOf(x - radius); gx <= colOf(x + radius); gx++) {
+          for (const i of buckets[gy * cols + gx]) {
+            const dx = x - points[i].x;
+            const dy = y - points[i].y;
+            if (dx * dx + dy * dy < radiusSq) return true;
+          }
+        }
+      }
+      return false;
+    },
+  };
+}
+
 /**
  * Compute Sobel edge magnitude and direction for contour-aware seed placement
  */
-function computeEdgeData(imageData: ImageData): { 
+function computeEdgeData(imageData: PixelData): { 
   magnitude: Float32Array; 
   direction: Float32Array;
   gray: Float32Array;
@@ -648,31 +1746,33 @@ function extractEdgePixels(
 function sampleEdgePoints(
   edgePixels: Point[],
   targetCount: number,
-  minDistance: number
+  minDistance: number,
+  random: Random
 ): Point[] {
   if (edgePixels.length === 0) return [];
   
   const sampled: Point[] = [];
   const used = new Set<string>();
+  const grid = createPointGrid(
+    edgePixels.reduce((max, p) => Math.max(max, p.x + 1), 0),
+    edgePixels.reduce((max, p) => Math.max(max, p.y + 1), 0),
+    minDistance
+  );
   
-  // Shuffle edge pixels for better distribution
-  const shuffled = [...edgePixels].sort(() => Math.random() - 0.5);
+  // Shuffle edge pixels for better distribution (Fisher-Yates, so a seed
+  // gives the same order in every browser)
+  const shuffled = [...edgePixels];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
   
   for (const p of shuffled) {
     if (sampled.length >= targetCount) break;
     
     // Check minimum distance to existing samples
-    let tooClose = false;
-    for (const s of sampled) {
-      const dx = p.x - s.x;
-      const dy = p.y - s.y;
-      if (dx * dx + dy * dy < minDistance * minDistance) {
-        tooClose = true;
-        break;
-      }
-    }
-    
-    if (!tooClose) {
+    if (!grid.hasPointWithin(p.x, p.y, minDistance)) {
+      grid.insert(p);
       sampled.push(p);
       used.add(`${p.x},${p.y}`);
     }
@@ -690,15 +1790,16 @@ function generateVoronoiSeeds(
   height: number,
   numSeeds: number,
   edgeData?: { magnitude: Float32Array; direction: Float32Array; gray: Float32Array },
-  edgeWeighted: boolean = true
+  edgeWeighted: boolean = true,
+  random: Random = Math.random
 ): Point[] {
   if (!edgeWeighted || !edgeData) {
     // Uniform random distribution
     const seeds: Point[] = [];
     for (let i = 0; i < numSeeds; i++) {
       seeds.push({
-        x: Math.random() * width,
-        y: Math.random() * height,
+        x: random() * width,
+        y: random() * height,
       });
     }
     return seeds;
@@ -714,24 +1815,20 @@ function generateVoronoiSeeds(
   // More seeds on edges = sharper contours
   const edgeSeedRatio = 0.6; // 60% of seeds on edges
   const numEdgeSeeds = Math.floor(numSeeds * edgeSeedRatio);
-  const numFillSeeds = numSeeds - numEdgeSeeds;
   
   // Minimum distance between edge seeds (based on density)
   const avgCellSize = Math.sqrt((width * height) / numSeeds);
   const minEdgeDistance = avgCellSize * 0.5;
   
   // Sample seeds along edges
-  const edgeSeeds = sampleEdgePoints(edgePixels, numEdgeSeeds, minEdgeDistance);
+  const edgeSeeds = sampleEdgePoints(edgePixels, numEdgeSeeds, minEdgeDistance, random);
+  // Fill makes up for edges too sparse to hold their share of seeds
+  const numFillSeeds = numSeeds - edgeSeeds.length;
   
-  // Create a set of occupied areas for fill seeds
-  const occupiedCells = new Set<string>();
-  const cellSize = avgCellSize;
-  
-  for (const s of edgeSeeds) {
-    const cx = Math.floor(s.x / cellSize);
-    const cy = Math.floor(s.y / cellSize);
-    occupiedCells.add(`${cx},${cy}`);
-  }
+  // Index seeds by location so spacing checks stay fast at high counts
+  const edgeGrid = createPointGrid(width, height, avgCellSize);
+  const fillGrid = createPointGrid(width, height, avgCellSize);
+  edgeSeeds.forEach((s) => edgeGrid.insert(s));
   
   // Fill remaining area with seeds, avoiding edge seed locations
   const fillSeeds: Point[] = [];
@@ -741,33 +1838,16 @@ function generateVoronoiSeeds(
   while (fillSeeds.length < numFillSeeds && attempts < maxAttempts) {
     attempts++;
     
-    const x = Math.random() * width;
-    const y = Math.random() * height;
-    
-    // Check if too close to edge seeds
-    let tooClose = false;
-    for (const s of edgeSeeds) {
-      const dx = x - s.x;
-      const dy = y - s.y;
-      if (dx * dx + dy * dy < (minEdgeDistance * 0.8) ** 2) {
-        tooClose = true;
-        break;
-      }
-    }
+    const x = random() * width;
+    const y = random() * height;
     
-    // Also check against other fill seeds
-    if (!tooClose) {
-      for (const s of fillSeeds) {
-        const dx = x - s.x;
-        const dy = y - s.y;
-        if (dx * dx + dy * dy < (minEdgeDistance * 0.6) ** 2) {
-          tooClose = true;
-          break;
-        }
-      }
-    }
+    // Check if too close to edge seeds, or to other fill seeds
+    const tooClose =
+      edgeGrid.hasPointWithin(x, y, minEdgeDistance * 0.8) ||
+      fillGrid.hasPointWithin(x, y, minEdgeDistance * 0.6);
     
     if (!tooClose) {
+      fillGrid.insert({ x, y });
       fillSeeds.push({ x, y });
     }
   }
@@ -781,49 +1861,48 @@ function generateVoronoiSeeds(
 }
 
 // Keep backward compatibility with old function signature
-function computeEdgeMagnitude(imageData: ImageData): Float32Array {
+function computeEdgeMagnitude(imageData: PixelData): Float32Array {
   return computeEdgeData(imageData).magnitude;
 }
 
+/** Pixel samples per cell when relaxing, so small cells still move */
+const LLOYD_SAMPLES_PER_CELL = 64;
+
 /**
- * Lloyd's relaxation: move seeds to centroids of their cells
+ * Lloyd's relaxation: move seeds to centroids of their cells. Pixels are
+ * assigned through a seed grid, so each iteration is linear in the sample
+ * count rather than samples × seeds.
  */
-function lloydRelaxation(
+export function lloydRelaxation(
   seeds: Point[],
   width: number,
   height: number,
-  iterations: number
+  iterations: number,
+  onIteration?: (iteration: number) => void
 ): Point[] {
   if (iterations === 0) return seeds;
   
   let currentSeeds = [...seeds];
   
   for (let iter = 0; iter < iterations; iter++) {
+    onIteration?.(iter);
     // For each pixel, find nearest seed
-    const cellAssignment = new Int32Array(width * height);
     const cellSumX = new Float64Array(currentSeeds.length);
     const cellSumY = new Float64Array(currentSeeds.length);
     const cellCount = new Int32Array(currentSeeds.length);
     
-    // Assign each pixel to nearest seed (use sampling for large images)
-    const sampleStep = Math.max(1, Math.floor(Math.sqrt((width * height) / 50000)));
+    const grid = createPointGrid(width, height, Math.sqrt((width * height) / currentSeeds.length));
+    currentSeeds.forEach((s) => grid.insert(s));
+    
+    // Assign each pixel to nearest seed (use sampling for large images),
+    // keeping enough samples per cell for a stable centroid
+    const targetSamples = Math.max(50000, currentSeeds.length * LLOYD_SAMPLES_PER_CELL);
+    const sampleStep = Math.max(1, Math.floor(Math.sqrt((width * height) / targetSamples)));
     
     for (let y = 0; y < height; y += sampleStep) {
       for (let x = 0; x < width; x += sampleStep) {
-        let minDist = Infinity;
-        let nearestIdx = 0;
+        const nearestIdx = grid.nearest(x, y);
         
-        for (let i = 0; i < currentSeeds.length; i++) {
-          const dx = x - currentSeeds[i].x;
-          const dy = y - currentSeeds[i].y;
-          const dist = dx * dx + dy * dy;
-          if (dist < minDist) {
-            minDist = dist;
-            nearestIdx = i;
-          }
-        }
-        
-        cellAssignment[y * width + x] = nearestIdx;
         cellSumX[nearestIdx] += x;
         cellSumY[nearestIdx] += y;
         cellCount[nearestIdx]++;
@@ -851,20 +1930,15 @@ function lloydRelaxation(
 }
 
 // ============================================================================
-// DELAUNAY TRIANGULATION (Bowyer-Watson Algorithm)
+// DELAUNAY TRIANGULATION (Sweep-hull Algorithm)
 // ============================================================================
 
-type Triangle = {
+export type Triangle = {
   p1: number; // Index into points array
   p2: number;
   p3: number;
 };
 
-type Edge = {
-  p1: number;
-  p2: number;
-};
-
 /**
  * Compute circumcenter of a triangle
  */
@@ -883,111 +1957,300 @@ function circumcenter(p1: Point, p2: Point, p3: Point): Point | null {
 }
 
 /**
- * Check if a point is inside the circumcircle of a triangle
+ * Squared circumradius of a triangle (Infinity when degenerate)
  */
-function inCircumcircle(p: Point, p1: Point, p2: Point, p3: Point): boolean {
-  const ax = p1.x - p.x, ay = p1.y - p.y;
-  const bx = p2.x - p.x, by = p2.y - p.y;
-  const cx = p3.x - p.x, cy = p3.y - p.y;
-  
-  const det = (
-    (ax * ax + ay * ay) * (bx * cy - cx * by) -
-    (bx * bx + by * by) * (ax * cy - cx * ay) +
-    (cx * cx + cy * cy) * (ax * by - bx * ay)
-  );
+function circumradiusSq(a: Point, b: Point, c: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const ex = c.x - a.x, ey = c.y - a.y;
+  const bl = dx * dx + dy * dy;
+  const cl = ex * ex + ey * ey;
+  const d = 0.5 / (dx * ey - dy * ex);
+  const x = (ey * bl - dy * cl) * d;
+  const y = (dx * cl - ex * bl) * d;
+  const r = x * x + y * y;
+  return Number.isFinite(r) ? r : Infinity;
+}
+
+/**
+ * Orientation test: true when p, q, r turn counter-clockwise (y up)
+ */
+function isCounterClockwise(p: Point, q: Point, r: Point): boolean {
+  return (q.y - p.y) * (r.x - q.x) - (q.x - p.x) * (r.y - q.y) < 0;
+}
+
+/**
+ * Check if p is inside the circumcircle of triangle a, b, c, as wound by
+ * the sweep
+ */
+function inCircumcircle(p: Point, a: Point, b: Point, c: Point): boolean {
+  const dx = a.x - p.x, dy = a.y - p.y;
+  const ex = b.x - p.x, ey = b.y - p.y;
+  const fx = c.x - p.x, fy = c.y - p.y;
   
-  // For counter-clockwise triangles, det > 0 means inside
-  // We need to check orientation first
-  const orient = (p1.x - p3.x) * (p2.y - p3.y) - (p1.y - p3.y) * (p2.x - p3.x);
+  const ap = dx * dx + dy * dy;
+  const bp = ex * ex + ey * ey;
+  const cp = fx * fx + fy * fy;
   
-  return orient > 0 ? det > 0 : det < 0;
+  return dx * (ey * cp - bp * fy) - dy * (ex * cp - bp * fx) + ap * (ex * fy - ey * fx) < 0;
 }
 
 /**
- * Bowyer-Watson algorithm for Delaunay triangulation
+ * Sweep-hull Delaunay triangulation in O(n log n)
+ *
+ * Points are added in order of distance from a seed triangle, each one
+ * outside the current convex hull. New triangles are fanned onto the
+ * visible hull edges and made Delaunay by edge flips. A hash of hull
+ * vertices by angle finds the visible edge in near-constant time.
+ * Coincident points are skipped and get no triangles.
  */
-function delaunayTriangulation(points: Point[], width: number, height: number): Triangle[] {
-  // Create super-triangle that contains all points
-  const margin = Math.max(width, height) * 10;
-  const superTriangle: Point[] = [
-    { x: -margin, y: -margin },
-    { x: width + margin * 2, y: -margin },
-    { x: width / 2, y: height + margin * 2 },
-  ];
+export function delaunayTriangulation(points: Point[]): Triangle[] {
+  const n = points.length;
+  if (n < 3) return [];
+  
+  // Seed triangle: the point nearest the center, its nearest neighbor,
+  // and the point making the smallest circumcircle with them
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+  const distSq = (a: Point, b: Point) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+  
+  let i0 = 0, i1 = -1, i2 = -1;
+  let minDist = Infinity;
+  for (let i = 0; i < n; i++) {
+    const d = distSq(center, points[i]);
+    if (d < minDist) { i0 = i; minDist = d; }
+  }
+  minDist = Infinity;
+  for (let i = 0; i < n; i++) {
+    if (i === i0) continue;
+    const d = distSq(points[i0], points[i]);
+    if (d < minDist && d > 0) { i1 = i; minDist = d; }
+  }
+  let minRadius = Infinity;
+  for (let i = 0; i < n && i1 !== -1; i++) {
+    if (i === i0 || i === i1) continue;
+    const r = circumradiusSq(points[i0], points[i1], points[i]);
+    if (r < minRadius) { i2 = i; minRadius = r; }
+  }
+  // All points coincident or collinear: nothing to triangulate
+  if (i2 === -1 || minRadius === Infinity) return [];
   
-  // Add super-triangle vertices to points array (they'll be at the end)
-  const allPoints = [...points, ...superTriangle];
-  const superIndices = [points.length, points.length + 1, points.length + 2];
+  if (isCounterClockwise(points[i0], points[i1], points[i2])) {
+    [i1, i2] = [i2, i1];
+  }
   
-  // Initialize triangulation with super-triangle
-  let triangles: Triangle[] = [{ p1: superIndices[0], p2: superIndices[1], p3: superIndices[2] }];
+  // Sweep outward from the seed triangle's circumcenter
+  const sweepCenter = circumcenter(points[i0], points[i1], points[i2])!;
+  const dists = new Float64Array(n);
+  const order = new Uint32Array(n);
+  for (let i = 0; i < n; i++) {
+    dists[i] = distSq(points[i], sweepCenter);
+    order[i] = i;
+  }
+  order.sort((a, b) => dists[a] - dists[b]);
+  
+  // Convex hull as a doubly linked list, with the triangle on each hull edge
+  const hashSize = Math.ceil(Math.sqrt(n));
+  const hullPrev = new Uint32Array(n);
+  const hullNext = new Uint32Array(n);
+  const hullTri = new Uint32Array(n);
+  const hullHash = new Int32Array(hashSize).fill(-1);
+  const hashKey = (p: Point) => {
+    // Monotonic in the angle around the sweep center, without atan2
+    const dx = p.x - sweepCenter.x;
+    const dy = p.y - sweepCenter.y;
+    const q = dx / (Math.abs(dx) + Math.abs(dy) || 1);
+    const angle = (dy > 0 ? 3 - q : 1 + q) / 4;
+    return Math.floor(angle * hashSize) % hashSize;
+  };
   
-  // Add each point one at a time
-  for (let i = 0; i < points.length; i++) {
-    const p = points[i];
-    const badTriangles: Triangle[] = [];
-    
-    // Find all triangles whose circumcircle contains the point
-    for (const tri of triangles) {
-      const p1 = allPoints[tri.p1];
-      const p2 = allPoints[tri.p2];
-      const p3 = allPoints[tri.p3];
-      
-      if (inCircumcircle(p, p1, p2, p3)) {
-        badTriangles.push(tri);
+  // Triangles as vertex triples; halfedges[e] is the twin of edge e in the
+  // neighboring triangle, or -1 on the hull
+  const maxTriangles = Math.max(2 * n - 5, 1);
+  const triangles = new Uint32Array(maxTriangles * 3);
+  const halfedges = new Int32Array(maxTriangles * 3);
+  let trianglesLen = 0;
+  
+  const link = (a: number, b: number) => {
+    halfedges[a] = b;
+    if (b !== -1) halfedges[b] = a;
+  };
+  const addTriangle = (a: number, b: number, c: number, ha: number, hb: number, hc: number) => {
+    const t = trianglesLen;
+    triangles[t] = a;
+    triangles[t + 1] = b;
+    triangles[t + 2] = c;
+    link(t, ha);
+    link(t + 1, hb);
+    link(t + 2, hc);
+    trianglesLen += 3;
+    return t;
+  };
+  
+  let hullStart = i0;
+  const edgeStack: number[] = [];
+  
+  // Flip edges until the triangles around edge a are locally Delaunay
+  const legalize = (edge: number): number => {
+    let a = edge;
+    let ar = 0;
+    for (;;) {
+      const b = halfedges[a];
+      const a0 = a - (a % 3);
+      ar = a0 + ((a + 2) % 3);
+      if (b === -1) {
+        if (edgeStack.length === 0) break;
+        a = edgeStack.pop()!;
+        continue;
       }
-    }
-    
-    // Find the boundary of the polygonal hole
-    const polygon: Edge[] = [];
-    for (const tri of badTriangles) {
-      const edges: Edge[] = [
-        { p1: tri.p1, p2: tri.p2 },
-        { p1: tri.p2, p2: tri.p3 },
-        { p1: tri.p3, p2: tri.p1 },
-      ];
       
-      for (const edge of edges) {
-        // Check if this edge is shared with another bad triangle
-        let shared = false;
-        for (const other of badTriangles) {
-          if (other === tri) continue;
-          const otherEdges = [
-            [other.p1, other.p2],
-            [other.p2, other.p3],
-            [other.p3, other.p1],
-          ];
-          for (const [a, b] of otherEdges) {
-            if ((edge.p1 === a && edge.p2 === b) || (edge.p1 === b && edge.p2 === a)) {
-              shared = true;
+      const b0 = b - (b % 3);
+      const al = a0 + ((a + 1) % 3);
+      const bl = b0 + ((b + 2) % 3);
+      const p0 = triangles[ar];
+      const pr = triangles[a];
+      const pl = triangles[al];
+      const p1 = triangles[bl];
+      
+      if (inCircumcircle(points[p1], points[p0], points[pr], points[pl])) {
+        triangles[a] = p1;
+        triangles[b] = p0;
+        
+        // A flipped hull edge moves to a different triangle
+        const hbl = halfedges[bl];
+        if (hbl === -1) {
+          let e = hullStart;
+          do {
+            if (hullTri[e] === bl) {
+              hullTri[e] = a;
               break;
             }
-          }
-          if (shared) break;
-        }
-        if (!shared) {
-          polygon.push(edge);
+            e = hullPrev[e];
+          } while (e !== hullStart);
         }
+        link(a, hbl);
+        link(b, halfedges[ar]);
+        link(ar, bl);
+        
+        edgeStack.push(b0 + ((b + 1) % 3));
+      } else {
+        if (edgeStack.length === 0) break;
+        a = edgeStack.pop()!;
+      }
+    }
+    return ar;
+  };
+  
+  hullNext[i0] = hullPrev[i2] = i1;
+  hullNext[i1] = hullPrev[i0] = i2;
+  hullNext[i2] = hullPrev[i1] = i0;
+  hullTri[i0] = 0;
+  hullTri[i1] = 1;
+  hullTri[i2] = 2;
+  hullHash[hashKey(points[i0])] = i0;
+  hullHash[hashKey(points[i1])] = i1;
+  hullHash[hashKey(points[i2])] = i2;
+  addTriangle(i0, i1, i2, -1, -1, -1);
+  
+  let previous: Point | null = null;
+  for (let k = 0; k < n; k++) {
+    const i = order[k];
+    const p = points[i];
+    
+    // Skip duplicates and the seed triangle itself
+    if (previous && Math.abs(p.x - previous.x) <= Number.EPSILON && Math.abs(p.y - previous.y) <= Number.EPSILON) continue;
+    previous = p;
+    if (i === i0 || i === i1 || i === i2) continue;
+    
+    // Find a hull edge visible from the point, starting near its angle
+    let start = 0;
+    const key = hashKey(p);
+    for (let j = 0; j < hashSize; j++) {
+      start = hullHash[(key + j) % hashSize];
+      if (start !== -1 && start !== hullNext[start]) break;
+    }
+    start = hullPrev[start];
+    let e = start;
+    let q = hullNext[e];
+    while (!isCounterClockwise(p, points[e], points[q])) {
+      e = q;
+      if (e === start) {
+        e = -1;
+        break;
       }
+      q = hullNext[e];
     }
+    // Likely a near-duplicate point
+    if (e === -1) continue;
+    
+    // Fan the first triangle onto the visible edge
+    let t = addTriangle(e, i, hullNext[e], -1, -1, hullTri[e]);
+    hullTri[i] = legalize(t + 2);
+    hullTri[e] = t;
     
-    // Remove bad triangles from triangulation
-    triangles = triangles.filter(t => !badTriangles.includes(t));
+    // Walk forward along the hull, adding triangles while edges stay visible
+    let next = hullNext[e];
+    q = hullNext[next];
+    while (isCounterClockwise(p, points[next], points[q])) {
+      t = addTriangle(next, i, q, hullTri[i], -1, hullTri[next]);
+      hullTri[i] = legalize(t + 2);
+      hullNext[next] = next; // Mark as removed from the hull
+      next = q;
+      q = hullNext[next];
+    }
     
-    // Re-triangulate the polygonal hole with the new point
-    for (const edge of polygon) {
-      triangles.push({ p1: edge.p1, p2: edge.p2, p3: i });
+    // Walk backward from the other side
+    if (e === start) {
+      q = hullPrev[e];
+      while (isCounterClockwise(p, points[q], points[e])) {
+        t = addTriangle(q, i, e, -1, hullTri[e], hullTri[q]);
+        legalize(t + 2);
+        hullTri[q] = t;
+        hullNext[e] = e;
+        e = q;
+        q = hullPrev[e];
+      }
     }
+    
+    // Splice the point into the hull
+    hullStart = hullPrev[i] = e;
+    hullNext[e] = hullPrev[next] = i;
+    hullNext[i] = next;
+    
+    hullHash[hashKey(p)] = i;
+    hullHash[hashKey(points[e])] = e;
   }
   
-  // Remove triangles that share vertices with super-triangle
-  triangles = triangles.filter(t => 
-    !superIndices.includes(t.p1) && 
-    !superIndices.includes(t.p2) && 
-    !superIndices.includes(t.p3)
-  );
-  
-  return triangles;
+  const result: Triangle[] = [];
+  for (let t = 0; t < trianglesLen; t += 3) {
+    result.push({ p1: triangles[t], p2: triangles[t + 1], p3: triangles[t + 2] });
+  }
+  return result;
+}
+
+/**
+ * Points surrounding the image, far enough out that no image pixel is
+ * closer to one of them than to a seed. Triangulating them along with the
+ * seeds closes the Voronoi cells of seeds on the convex hull, so border
+ * cells reach the image edge instead of being cut short.
+ */
+function framePoints(width: number, height: number): Point[] {
+  const d = Math.hypot(width, height);
+  return [
+    { x: -d, y: -d },
+    { x: width / 2, y: -d },
+    { x: width + d, y: -d },
+    { x: width + d, y: height / 2 },
+    { x: width + d, y: height + d },
+    { x: width / 2, y: height + d },
+    { x: -d, y: height + d },
+    { x: -d, y: height / 2 },
+  ];
 }
 
 /**
@@ -996,14 +2259,15 @@ function delaunayTriangulation(points: Point[], width: number, height: number):
  * that share a common vertex (seed point)
  */
 function computeVoronoiFromDelaunay(
-  seeds: Point[],
+  points: Point[],
   triangles: Triangle[],
-  width: number,
-  height: number
+  seedCount: number
 ): Point[][] {
+  const seeds = points.slice(0, seedCount);
   const cells: Point[][] = seeds.map(() => []);
   
-  // For each seed, find all triangles containing it
+  // For each seed, find all triangles containing it (frame points past
+  // seedCount get no cell)
   const seedTriangles: Map<number, Triangle[]> = new Map();
   for (let i = 0; i < seeds.length; i++) {
     seedTriangles.set(i, []);
@@ -1023,7 +2287,7 @@ function computeVoronoiFromDelaunay(
     // Get circumcenters of all triangles
     const circumcenters: Point[] = [];
     for (const tri of tris) {
-      const cc = circumcenter(seeds[tri.p1], seeds[tri.p2], seeds[tri.p3]);
+      const cc = circumcenter(points[tri.p1], points[tri.p2], points[tri.p3]);
       if (cc) {
         circumcenters.push(cc);
       }
@@ -1137,8 +2401,9 @@ function computePolygonArea(polygon: Point[]): number {
  */
 function samplePolygonColor(
   polygon: Point[],
-  imageData: ImageData,
-  palette: RGB[]
+  imageData: PixelData,
+  palette: RGB[],
+  distance: (a: RGB, b: RGB) => number = colorDistance
 ): RGB {
   if (polygon.length < 3) return [128, 128, 128];
   
@@ -1178,7 +2443,7 @@ function samplePolygonColor(
     const cx = (minX + maxX) / 2;
     const cy = (minY + maxY) / 2;
     const idx = (Math.floor(cy) * width + Math.floor(cx)) * 4;
-    return findClosestColor([data[idx], data[idx + 1], data[idx + 2]], palette);
+    return findClosestColor([data[idx], data[idx + 1], data[idx + 2]], palette, distance);
   }
   
   const avgColor: RGB = [
@@ -1187,7 +2452,7 @@ function samplePolygonColor(
     Math.round(b / count),
   ];
   
-  return findClosestColor(avgColor, palette);
+  return findClosestColor(avgColor, palette, distance);
 }
 
 /**
@@ -1215,14 +2480,18 @@ function computeVoronoiCells(
   seeds: Point[],
   width: number,
   height: number,
-  imageData: ImageData,
-  palette: RGB[]
+  imageData: PixelData,
+  palette: RGB[],
+  colorSpace: ColorSpace = "rgb"
 ): VoronoiCell[] {
-  // Compute Delaunay triangulation
-  const triangles = delaunayTriangulation(seeds, width, height);
+  const { distance } = createColorMetric(colorSpace);
+
+  // Compute Delaunay triangulation, framed so border cells are closed
+  const points = [...seeds, ...framePoints(width, height)];
+  const triangles = delaunayTriangulation(points);
   
   // Derive Voronoi cells from Delaunay
-  const rawCells = computeVoronoiFromDelaunay(seeds, triangles, width, height);
+  const rawCells = computeVoronoiFromDelaunay(points, triangles, seeds.length);
   
   // Clip cells to image bounds and compute colors
   const cells: VoronoiCell[] = [];
@@ -1239,7 +2508,7 @@ function computeVoronoiCells(
     if (polygon.length < 3) continue;
     
     // Sample color from image
-    const color = samplePolygonColor(polygon, imageData, palette);
+    const color = samplePolygonColor(polygon, imageData, palette, distance);
     const area = computePolygonArea(polygon);
     
     cells.push({
@@ -1248,12 +2517,174 @@ function computeVoronoiCells(
       color,
       polygon,
       area,
+      neighbors: [],
     });
   }
   
+  linkVoronoiNeighbors(cells, triangles);
+  
   return cells;
 }
 
+/**
+ * Recolor Voronoi cells in small same-color regions (see despeckle).
+ * Cell areas are in pixels, so `mmPerPixel` converts them to the quilt.
+ */
+function despeckleVoronoiCells(
+  cells: VoronoiCell[],
+  mmPerPixel: number,
+  minAreaMm2: number,
+  colorSpace: ColorSpace
+): DespeckleStats {
+  const { distance } = createColorMetric(colorSpace);
+  const indexById = new Map(cells.map((cell, i) => [cell.id, i]));
+  const { colors, stats } = despeckle(
+    cells.map((cell) => ({
+      color: cell.color,
+      areaMm2: cell.area * mmPerPixel * mmPerPixel,
+      neighbors: cell.neighbors.map((id) => indexById.get(id)!),
+    })),
+    minAreaMm2,
+    distance
+  );
+  cells.forEach((cell, i) => {
+    cell.color = colors[i];
+  });
+  return stats;
+}
+
+/**
+ * Fill in cell neighbors from the Delaunay edges. Two seeds joined by a
+ * Delaunay edge are only neighbors if their clipped cells still share a
+ * boundary segment, i.e. at least two vertices, inside the image.
+ */
+function linkVoronoiNeighbors(cells: VoronoiCell[], triangles: Triangle[]): void {
+  const cellBySeed = new Map<number, VoronoiCell>();
+  for (const cell of cells) {
+    cellBySeed.set(Number(cell.id.slice("voronoi-".length)), cell);
+  }
+
+  const sharesEdge = (a: Point[], b: Point[]) => {
+    let shared = 0;
+    for (const p of a) {
+      if (b.some((q) => Math.abs(p.x - q.x) < 1e-6 && Math.abs(p.y - q.y) < 1e-6)) {
+        shared++;
+        if (shared >= 2) return true;
+      }
+    }
+    return false;
+  };
+
+  const seen = new Set<string>();
+  for (const tri of triangles) {
+    for (const [i, j] of [[tri.p1, tri.p2], [tri.p2, tri.p3], [tri.p3, tri.p1]]) {
+      const key = i < j ? `${i}-${j}` : `${j}-${i}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const a = cellBySeed.get(i);
+      const b = cellBySeed.get(j);
+      if (!a || !b || !sharesEdge(a.polygon, b.polygon)) continue;
+      a.neighbors.push(b.id);
+      b.neighbors.push(a.id);
+    }
+  }
+}
+
+/** Longest miter, as a multiple of the seam allowance, before a corner is blunted */
+const SEAM_MITER_LIMIT = 3;
+
+/**
+ * Offset a polygon outward by `distance`. Corners are mitered; corners so
+ * sharp that the miter would exceed SEAM_MITER_LIMIT are blunted instead,
+ * the way quilters trim dog-ears.
+ */
+export function offsetPolygon(polygon: Point[], distance: number): Point[] {
+  const n = polygon.length;
+  // Positive shoelace sum means (dy, -dx) is the outward normal
+  let signed = 0;
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    signed += polygon[i].x * polygon[j].y - polygon[j].x * polygon[i].y;
+  }
+  const orientation = signed >= 0 ? 1 : -1;
+
+  const normals = polygon.map((p, i) => {
+    const q = polygon[(i + 1) % n];
+    const len = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    return {
+      x: (orientation * (q.y - p.y)) / len,
+      y: (orientation * -(q.x - p.x)) / len,
+    };
+  });
+
+  const result: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    const prev = normals[(i - 1 + n) % n];
+    const next = normals[i];
+    const p = polygon[i];
+    // Miter direction is the bisector of both normals, scaled so each edge moves by `distance`
+    const bx = prev.x + next.x;
+    const by = prev.y + next.y;
+    const dot = bx * next.x + by * next.y;
+    const miterScale = dot > 1e-9 ? distance / dot : Infinity;
+
+    if (Math.hypot(bx, by) * miterScale <= distance * SEAM_MITER_LIMIT) {
+      result.push({ x: p.x + bx * miterScale, y: p.y + by * miterScale });
+    } else {
+      result.push({ x: p.x + prev.x * distance, y: p.y + prev.y * distance });
+      result.push({ x: p.x + next.x * distance, y: p.y + next.y * distance });
+    }
+  }
+  return result;
+}
+
+/**
+ * Build a full-size cutting template from a cell polygon in image pixels.
+ * Vertices closer than 0.5 mm are merged, since no one can sew an edge that short.
+ */
+export function buildPieceTemplate(
+  polygon: Point[],
+  mmPerPixel: number,
+  seamAllowanceMm: number
+): PieceTemplate {
+  const scaled = polygon.map((p) => ({ x: p.x * mmPerPixel, y: p.y * mmPerPixel }));
+  const finishedMm: Point[] = [];
+  for (const p of scaled) {
+    const last = finishedMm[finishedMm.length - 1];
+    if (!last || Math.hypot(p.x - last.x, p.y - last.y) >= 0.5) finishedMm.push(p);
+  }
+  if (
+    finishedMm.length > 3 &&
+    Math.hypot(finishedMm[0].x - finishedMm[finishedMm.length - 1].x, finishedMm[0].y - finishedMm[finishedMm.length - 1].y) < 0.5
+  ) {
+    finishedMm.pop();
+  }
+
+  const n = finishedMm.length;
+  const edgeLengthsMm = finishedMm.map((p, i) => {
+    const q = finishedMm[(i + 1) % n];
+    return Math.hypot(q.x - p.x, q.y - p.y);
+  });
+  const cornerAnglesDeg = finishedMm.map((p, i) => {
+    const prev = finishedMm[(i - 1 + n) % n];
+    const next = finishedMm[(i + 1) % n];
+    const a1 = Math.atan2(prev.y - p.y, prev.x - p.x);
+    const a2 = Math.atan2(next.y - p.y, next.x - p.x);
+    let angle = Math.abs(a1 - a2) * (180 / Math.PI);
+    if (angle > 180) angle = 360 - angle;
+    return angle; // Voronoi cells are convex, so every interior angle is below 180°
+  });
+
+  return {
+    finishedMm,
+    cutMm: offsetPolygon(finishedMm, seamAllowanceMm),
+    edgeLengthsMm,
+    cornerAnglesDeg,
+    areaMm2: computePolygonArea(finishedMm),
+  };
+}
+
 /**
  * Generate SVG for Voronoi diagram
  */
@@ -1297,6 +2728,7 @@ function voronoiToSvg(
       data-seed-x="${cell.seed.x.toFixed(1)}"
       data-seed-y="${cell.seed.y.toFixed(1)}"
       data-area="${cell.area.toFixed(0)}"
+      data-neighbors="${cell.neighbors.join(",")}"
     />\n`;
   }
   
@@ -1315,7 +2747,7 @@ function voronoiToSvg(
      data-quilt-design="true"
      data-shape-type="voronoi"
      data-num-cells="${cells.length}">
-  <!-- Voronoi Design Metadata: ${JSON.stringify(metadata)} -->
+  <!-- Voronoi Design Metadata: ${svgMetadataJson(metadata)} -->
 ${pathsXml}</svg>`;
 }
 
@@ -1323,7 +2755,7 @@ ${pathsXml}</svg>`;
  * Main Voronoi processing pipeline
  */
 export async function processImageToVoronoiSvg(
-  imageData: ImageData,
+  imageData: PixelData,
   options: {
     numSeeds: number;
     numColors: number;
@@ -1332,7 +2764,13 @@ export async function processImageToVoronoiSvg(
     borderWidth: number;
     cellSizeMm: number;
     seamAllowanceMm: number;
-  }
+    colorSpace?: ColorSpace;
+    seed?: number;
+    fabricCatalog?: FabricCatalog;
+    minPieceAreaMm2?: number;
+    lockedColors?: string[];
+  },
+  onProgress: ProgressCallback = () => {}
 ): Promise<{ svg: string; design: QuiltDesign }> {
   const {
     numSeeds,
@@ -1342,25 +2780,44 @@ export async function processImageToVoronoiSvg(
     borderWidth,
     cellSizeMm,
     seamAllowanceMm,
+    colorSpace = "rgb",
+    seed = randomSeed(),
+    fabricCatalog,
+    minPieceAreaMm2 = 0,
+    lockedColors = [],
   } = options;
   
   const { width, height } = imageData;
+  const fixedColors = lockedColors.map(parseColor);
+  const random = createRandom(seed);
   
   // Compute edge data for contour-aware seed placement
+  if (edgeWeighted) onProgress({ stage: "edges", label: "Detecting edges", fraction: 0.05 });
   const edgeData = edgeWeighted ? computeEdgeData(imageData) : undefined;
   
   // Generate initial seed points with contour anchoring
-  let seeds = generateVoronoiSeeds(width, height, numSeeds, edgeData, edgeWeighted);
+  onProgress({ stage: "seeds", label: "Placing seeds", fraction: 0.15 });
+  let seeds = generateVoronoiSeeds(width, height, numSeeds, edgeData, edgeWeighted, random);
   
   // Apply Lloyd's relaxation
-  seeds = lloydRelaxation(seeds, width, height, relaxationIterations);
+  seeds = lloydRelaxation(seeds, width, height, relaxationIterations, (iteration) =>
+    onProgress({
+      stage: "relax",
+      label: `Relaxing cells (${iteration + 1}/${relaxationIterations})`,
+      fraction: 0.2 + (0.4 * iteration) / relaxationIterations,
+    })
+  );
   
   // Compute color palette from image
+  onProgress({ stage: "quantize", label: "Clustering colors", fraction: 0.6 });
   const { colors } = pixelateImage(imageData, Math.ceil(Math.sqrt(numSeeds * 4)));
-  const { palette } = quantizeColors(colors, numColors);
+  const quantized = quantizeColors(colors, numColors, colorSpace, random, fixedColors);
+  const snapped = fabricCatalog ? snapToCatalog(quantized, fabricCatalog, fixedColors.length) : undefined;
+  const palette = snapped ? snapped.palette : quantized.palette;
   
   // Compute Voronoi cells with colors
-  const cells = computeVoronoiCells(seeds, width, height, imageData, palette);
+  onProgress({ stage: "cells", label: "Triangulating cells", fraction: 0.7 });
+  const cells = computeVoronoiCells(seeds, width, height, imageData, palette, colorSpace);
   
   // Generate fabrication data
   const fabricData: QuiltDesign["fabricData"] = {
@@ -1369,38 +2826,61 @@ export async function processImageToVoronoiSvg(
     cellSizeMm,
     seamAllowanceMm,
   };
+  const mmPerPixel = fabricData.totalWidthMm / width;
+  
+  // Merge small same-color regions into their neighbors
+  let despeckleStats: DespeckleStats | undefined;
+  if (minPieceAreaMm2 > 0) {
+    onProgress({ stage: "cleanup", label: "Merging small pieces", fraction: 0.8 });
+    despeckleStats = despeckleVoronoiCells(cells, mmPerPixel, minPieceAreaMm2, colorSpace);
+  }
   
   // Generate SVG
+  onProgress({ stage: "svg", label: "Writing SVG", fraction: 0.85 });
   const svg = voronoiToSvg(cells, width, height, borderWidth, palette, fabricData);
   
   // Create QuiltDesign for compatibility
+  onProgress({ stage: "design", label: "Building templates", fraction: 0.9 });
+  const gridSize = Math.ceil(Math.sqrt(numSeeds));
   const design: QuiltDesign = {
     width: 600,
     height: Math.round((height / width) * 600),
-    gridWidth: Math.ceil(Math.sqrt(numSeeds)),
-    gridHeight: Math.ceil(Math.sqrt(numSeeds)),
+    gridWidth: gridSize,
+    gridHeight: gridSize,
     cellSize: 20,
     shapeType: "voronoi",
     colorPalette: palette.map(c => `rgb(${c[0]},${c[1]},${c[2]})`),
-    shapes: cells.map(cell => ({
-      id: cell.id,
-      type: "voronoi" as ShapeType,
-      x: cell.seed.x,
-      y: cell.seed.y,
-      width: Math.sqrt(cell.area),
-      height: Math.sqrt(cell.area),
-      color: `rgb(${cell.color[0]},${cell.color[1]},${cell.color[2]})`,
-      stitchData: {
-        angle: 0,
-        sizeMm: cellSizeMm,
-        seamAllowanceMm,
-        edges: cell.polygon.length,
-        neighbors: [],
-        gridPosition: { row: 0, col: 0 },
-      },
-    })),
+    shapes: cells.map(cell => {
+      const template = buildPieceTemplate(cell.polygon, mmPerPixel, seamAllowanceMm);
+      return {
+        id: cell.id,
+        type: "voronoi" as ShapeType,
+        x: cell.seed.x,
+        y: cell.seed.y,
+        width: Math.sqrt(cell.area),
+        height: Math.sqrt(cell.area),
+        color: `rgb(${cell.color[0]},${cell.color[1]},${cell.color[2]})`,
+        template,
+        stitchData: {
+          angle: 0,
+          // Side of a square with the same finished area
+          sizeMm: Math.round(Math.sqrt(template.areaMm2)),
+          seamAllowanceMm,
+          edges: template.finishedMm.length,
+          neighbors: cell.neighbors,
+          // Coarse grid cell of the seed, for a row-by-row sewing order
+          gridPosition: {
+            row: Math.min(gridSize - 1, Math.floor((cell.seed.y / height) * gridSize)),
+            col: Math.min(gridSize - 1, Math.floor((cell.seed.x / width) * gridSize)),
+          },
+        },
+      };
+    }),
     fabricData,
+    seed,
   };
+  if (snapped) design.fabrics = fabricsByColor(design.colorPalette, snapped.fabrics);
+  if (despeckleStats) design.despeckle = despeckleStats;
   
   return { svg, design };
 }
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { processImageToVoronoiSvg, type PixelData } from "./imageProcessing";
+import { PAPER_SIZES, generatePatternPdf, pageGrid, rowLetters, tileLabel } from "./patternPdf";
+
+/** Left half red, right half blue */
+function halves(width: number, height: number): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set(i % width < width / 2 ? [200, 30, 30, 255] : [30, 30, 200, 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+describe("rowLetters", () => {
+  it("names rows like spreadsheet columns", () => {
+    expect(rowLetters(0)).toBe("A");
+    expect(rowLetters(25)).toBe("Z");
+    expect(rowLetters(26)).toBe("AA");
+    expect(rowLetters(27)).toBe("AB");
+    expect(rowLetters(51)).toBe("AZ");
+    expect(rowLetters(52)).toBe("BA");
+    expect(rowLetters(701)).toBe("ZZ");
+    expect(rowLetters(702)).toBe("AAA");
+  });
+
+  it("gives every row a distinct name", () => {
+    const names = Array.from({ length: 1000 }, (_, row) => rowLetters(row));
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+describe("tileLabel", () => {
+  it("joins the row letters with the one-based column", () => {
+    expect(tileLabel(0, 0)).toBe("A1");
+    expect(tileLabel(1, 2)).toBe("B3");
+    expect(tileLabel(27, 9)).toBe("AB10");
+  });
+});
+
+describe("pageGrid", () => {
+  const quilt = (widthMm: number, heightMm: number) => ({ minX: 0, minY: 0, maxX: widthMm, maxY: heightMm });
+
+  it("takes the margins, header and overlap off the page", () => {
+    const grid = pageGrid(quilt(1000, 1000), PAPER_SIZES.a4, 10, 15);
+
+    expect(grid).toMatchObject({ areaW: 190, areaH: 269, stepX: 175, stepY: 254 });
+    expect(grid.cols).toBe(6);
+    expect(grid.rows).toBe(4);
+  });
+
+  it("fits a small quilt on one page", () => {
+    expect(pageGrid(quilt(150, 200), PAPER_SIZES.letter, 10, 15)).toMatchObject({ cols: 1, rows: 1 });
+  });
+
+  it("uses just enough pages to reach the far edge", () => {
+    for (const size of [190, 191, 365, 366, 1234.5]) {
+      const { areaW, stepX, cols } = pageGrid(quilt(size, 100), PAPER_SIZES.a4, 10, 15);
+
+      expect((cols - 1) * stepX + areaW).toBeGreaterThanOrEqual(size);
+      expect((cols - 2) * stepX + areaW).toBeLessThan(size);
+    }
+  });
+
+  it("covers seam allowances that run past the quilt edge", () => {
+    const { areaW, stepX, cols } = pageGrid({ minX: -6, minY: -6, maxX: 371, maxY: 100 }, PAPER_SIZES.a4, 10, 15);
+
+    expect(cols).toBe(3);
+    expect(-6 + (cols - 1) * stepX + areaW).toBeGreaterThanOrEqual(371);
+  });
+});
+
+describe("generatePatternPdf", () => {
+  it("tiles the cutting lines that run past the quilt edge", async () => {
+    const { design } = await processImageToVoronoiSvg(halves(60, 40), {
+      numSeeds: 20,
+      numColors: 2,
+      relaxationIterations: 1,
+      edgeWeighted: false,
+      borderWidth: 1,
+      cellSizeMm: 25,
+      seamAllowanceMm: 6.35,
+      seed: 1,
+    });
+    const { totalWidthMm, totalHeightMm } = design.fabricData;
+    const cut = design.shapes.flatMap((shape) => shape.template!.cutMm);
+    const extent = {
+      minX: Math.min(0, ...cut.map((p) => p.x)),
+      minY: Math.min(0, ...cut.map((p) => p.y)),
+      maxX: Math.max(totalWidthMm, ...cut.map((p) => p.x)),
+      maxY: Math.max(totalHeightMm, ...cut.map((p) => p.y)),
+    };
+    const { cols, rows } = pageGrid(extent, PAPER_SIZES.a4, 10, 15);
+    const pdf = await (await generatePatternPdf(design, { paperSize: "a4" })).text();
+
+    expect(extent.minX).toBeLessThan(0);
+    expect(extent.maxY).toBeGreaterThan(totalHeightMm);
+    expect(pdf.match(/\/Type \/Page\b/g)).toHaveLength(1 + cols * rows);
+  });
+});
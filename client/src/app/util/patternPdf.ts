@@ -0,0 +1,395 @@
+/**
+ * Print-at-scale PDF pattern
+ *
+ * Renders a QuiltDesign at its true fabric size (1:1 templates) and tiles
+ * it over A4 or US Letter pages so it can be printed at home and taped
+ * together. The first page holds the assembly map and a test square.
+ */
+
+import type { jsPDF } from "jspdf";
+import { parseColor } from "./colorSpace";
+import { shapeOutlines, type Point, type QuiltDesign } from "./imageProcessing";
+
+export type PaperSize = "a4" | "letter";
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: "A4", widthMm: 210, heightMm: 297 },
+  letter: { label: "US Letter", widthMm: 215.9, heightMm: 279.4 },
+};
+
+export type PatternPdfOptions = {
+  paperSize?: PaperSize;
+  /** Unprintable border most home printers leave, in mm */
+  marginMm?: number;
+  /** Strip repeated on neighbouring pages for aligning and taping, in mm */
+  overlapMm?: number;
+};
+
+/** Space above the pattern area for the page label */
+const HEADER_MM = 8;
+const REGISTRATION_MARK_MM = 4;
+
+/** Axis-aligned box in quilt mm */
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+type Piece = {
+  id: string;
+  color: [number, number, number];
+  /** Finished outline in quilt mm */
+  points: Point[];
+  /** Cutting outline in quilt mm, for template pieces */
+  cut?: Point[];
+  bounds: Bounds;
+};
+
+/**
+ * Generate a tiled, true-scale PDF of the design
+ */
+export async function generatePatternPdf(
+  design: QuiltDesign,
+  options: PatternPdfOptions = {}
+): Promise<Blob> {
+  const { paperSize = "a4", marginMm = 10, overlapMm = 15 } = options;
+  const { jsPDF } = await import("jspdf");
+
+  const paper = PAPER_SIZES[paperSize];
+  const doc = new jsPDF({ unit: "mm", format: [paper.widthMm, paper.heightMm] });
+
+  const quiltW = design.fabricData.totalWidthMm;
+  const quiltH = design.fabricData.totalHeightMm;
+
+  const pieces = collectPieces(design);
+  // Template cutting lines run a seam allowance past the quilt edge, so tile those too
+  const extent = pieces.reduce<Bounds>(
+    (acc, { bounds }) => ({
+      minX: Math.min(acc.minX, bounds.minX),
+      minY: Math.min(acc.minY, bounds.minY),
+      maxX: Math.max(acc.maxX, bounds.maxX),
+      maxY: Math.max(acc.maxY, bounds.maxY),
+    }),
+    { minX: 0, minY: 0, maxX: quiltW, maxY: quiltH }
+  );
+  const { areaW, areaH, stepX, stepY, cols, rows } = pageGrid(extent, paper, marginMm, overlapMm);
+
+  drawAssemblyMap(doc, design, pieces, { paper, marginMm, extent, cols, rows, stepX, stepY });
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      doc.addPage([paper.widthMm, paper.heightMm]);
+
+      const originX = extent.minX + col * stepX;
+      const originY = extent.minY + row * stepY;
+      const left = marginMm;
+      const top = marginMm + HEADER_MM;
+      const toPage = (p: Point): Point => ({ x: left + p.x - originX, y: top + p.y - originY });
+
+      doc.setFontSize(10);
+      doc.setTextColor(0, 0, 0);
+      doc.text(`Page ${tileLabel(row, col)}  (row ${row + 1} of ${rows}, column ${col + 1} of ${cols})`, left, marginMm + 4);
+      doc.setFontSize(7);
+      doc.setTextColor(110, 110, 110);
+      doc.text("Print at 100% / actual size", paper.widthMm - marginMm, marginMm + 4, { align: "right" });
+
+      // Only the part of the pattern that falls on this page
+      const visibleW = Math.min(areaW, extent.maxX - originX);
+      const visibleH = Math.min(areaH, extent.maxY - originY);
+
+      doc.saveGraphicsState();
+      doc.rect(left, top, visibleW, visibleH, null);
+      doc.clip();
+      doc.discardPath();
+
+      for (const piece of pieces) {
+        const { bounds } = piece;
+        if (
+          bounds.maxX < originX || bounds.minX > originX + areaW ||
+          bounds.maxY < originY || bounds.minY > originY + areaH
+        ) continue;
+        drawPolygon(doc, piece.points.map(toPage), piece.color, 0.2);
+        if (piece.cut) {
+          doc.setLineDashPattern([1.5, 1], 0);
+          drawPolygon(doc, piece.cut.map(toPage), null, 0.15);
+          doc.setLineDashPattern([], 0);
+        }
+      }
+
+      // Template pieces are labelled so they can be matched to the cutting guide
+      doc.setFontSize(5);
+      doc.setTextColor(0, 0, 0);
+      for (const piece of pieces) {
+        if (!piece.cut) continue;
+        const center = toPage(centroid(piece.points));
+        if (center.x < left || center.x > left + visibleW || center.y < top || center.y > top + visibleH) continue;
+        doc.text(piece.id.replace(/^voronoi-/, ""), center.x, center.y, { align: "center", baseline: "middle" });
+      }
+
+      doc.restoreGraphicsState();
+
+      // Outline of the quilt edge on this page
+      const edgeTopLeft = toPage({ x: Math.max(0, originX), y: Math.max(0, originY) });
+      const edgeBottomRight = toPage({ x: Math.min(quiltW, originX + areaW), y: Math.min(quiltH, originY + areaH) });
+      doc.setDrawColor(0, 0, 0);
+      doc.setLineWidth(0.4);
+      doc.rect(edgeTopLeft.x, edgeTopLeft.y, edgeBottomRight.x - edgeTopLeft.x, edgeBottomRight.y - edgeTopLeft.y, "S");
+
+      drawOverlapGuides(doc, { left, top, visibleW, visibleH, stepX, stepY, row, col, rows, cols, overlapMm });
+    }
+  }
+
+  return doc.output("blob");
+}
+
+/**
+ * Pages needed to cover `extent` with the printable area of `paper`,
+ * each page repeating `overlapMm` of its neighbours
+ */
+export function pageGrid(
+  extent: Bounds,
+  paper: { widthMm: number; heightMm: number },
+  marginMm: number,
+  overlapMm: number
+): { areaW: number; areaH: number; stepX: number; stepY: number; cols: number; rows: number } {
+  const areaW = paper.widthMm - marginMm * 2;
+  const areaH = paper.heightMm - marginMm * 2 - HEADER_MM;
+  const stepX = areaW - overlapMm;
+  const stepY = areaH - overlapMm;
+  return {
+    areaW,
+    areaH,
+    stepX,
+    stepY,
+    cols: Math.max(1, Math.ceil((extent.maxX - extent.minX - overlapMm) / stepX)),
+    rows: Math.max(1, Math.ceil((extent.maxY - extent.minY - overlapMm) / stepY)),
+  };
+}
+
+/**
+ * Flatten the design into pieces with outlines in quilt millimetres
+ */
+function collectPieces(design: QuiltDesign): Piece[] {
+  const mmPerUnit = design.fabricData.cellSizeMm / design.cellSize;
+  const pieces: Piece[] = [];
+
+  for (const shape of design.shapes) {
+    if (shape.template) {
+      pieces.push(makePiece(shape.id, shape.color, shape.template.finishedMm, shape.template.cutMm));
+      continue;
+    }
+    for (const outline of shapeOutlines(shape)) {
+      const points = outline.points.map((p) => ({ x: p.x * mmPerUnit, y: p.y * mmPerUnit }));
+      pieces.push(makePiece(shape.id, outline.color, points));
+    }
+  }
+
+  return pieces;
+}
+
+function makePiece(id: string, color: string, points: Point[], cut?: Point[]): Piece {
+  const all = cut ?? points;
+  return {
+    id,
+    color: parseColor(color),
+    points,
+    cut,
+    bounds: {
+      minX: Math.min(...all.map((p) => p.x)),
+      minY: Math.min(...all.map((p) => p.y)),
+      maxX: Math.max(...all.map((p) => p.x)),
+      maxY: Math.max(...all.map((p) => p.y)),
+    },
+  };
+}
+
+/**
+ * First page: scaled-down design with the page grid, and the test squares
+ */
+function drawAssemblyMap(
+  doc: jsPDF,
+  design: QuiltDesign,
+  pieces: Piece[],
+  layout: {
+    paper: { label: string; widthMm: number; heightMm: number };
+    marginMm: number;
+    extent: Bounds;
+    cols: number;
+    rows: number;
+    stepX: number;
+    stepY: number;
+  }
+): void {
+  const { paper, marginMm, extent, cols, rows, stepX, stepY } = layout;
+  const { totalWidthMm, totalHeightMm } = design.fabricData;
+
+  doc.setFontSize(16);
+  doc.text("Quilt Pattern - Assembly Map", marginMm, marginMm + 6);
+  doc.setFontSize(9);
+  doc.setTextColor(60, 60, 60);
+  doc.text(
+    [
+      `Finished size: ${Math.round(totalWidthMm)} × ${Math.round(totalHeightMm)} mm ` +
+        `(${(totalWidthMm / 25.4).toFixed(1)} × ${(totalHeightMm / 25.4).toFixed(1)} in), ${design.shapeType} pattern`,
+      `${rows * cols} pages on ${paper.label} (${rows} rows × ${cols} columns). Print at 100% / actual size, then check the test square.`,
+      "Trim each page along one edge of its overlap strip and tape it so the registration marks line up.",
+    ],
+    marginMm,
+    marginMm + 13
+  );
+
+  // Thumbnail of the design with the page grid on top
+  const mapTop = marginMm + 30;
+  const mapW = paper.widthMm - marginMm * 2;
+  const mapH = paper.heightMm - mapTop - marginMm - 45;
+  const extentW = extent.maxX - extent.minX;
+  const extentH = extent.maxY - extent.minY;
+  const scale = Math.min(mapW / extentW, mapH / extentH);
+  const toMap = (p: Point): Point => ({
+    x: marginMm + (p.x - extent.minX) * scale,
+    y: mapTop + (p.y - extent.minY) * scale,
+  });
+  const quiltTopLeft = toMap({ x: 0, y: 0 });
+
+  doc.saveGraphicsState();
+  doc.rect(quiltTopLeft.x, quiltTopLeft.y, totalWidthMm * scale, totalHeightMm * scale, null);
+  doc.clip();
+  doc.discardPath();
+  for (const piece of pieces) {
+    drawPolygon(doc, piece.points.map(toMap), piece.color, 0);
+  }
+  doc.restoreGraphicsState();
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.3);
+  doc.rect(quiltTopLeft.x, quiltTopLeft.y, totalWidthMm * scale, totalHeightMm * scale, "S");
+
+  doc.setDrawColor(220, 38, 38);
+  doc.setTextColor(220, 38, 38);
+  doc.setFontSize(8);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = extent.minX + col * stepX;
+      const y = extent.minY + row * stepY;
+      const w = Math.min(stepX, extent.maxX - x);
+      const h = Math.min(stepY, extent.maxY - y);
+      const topLeft = toMap({ x, y });
+      doc.rect(topLeft.x, topLeft.y, w * scale, h * scale, "S");
+      doc.text(tileLabel(row, col), topLeft.x + (w * scale) / 2, topLeft.y + (h * scale) / 2, {
+        align: "center",
+        baseline: "middle",
+      });
+    }
+  }
+
+  // Test squares
+  const testTop = paper.heightMm - marginMm - 35;
+  doc.setDrawColor(0, 0, 0);
+  doc.setTextColor(0, 0, 0);
+  doc.setLineWidth(0.3);
+  doc.rect(marginMm, testTop, 25.4, 25.4, "S");
+  doc.rect(marginMm + 40, testTop, 25, 25, "S");
+  doc.setFontSize(8);
+  doc.text("1 inch", marginMm + 12.7, testTop + 12.7, { align: "center", baseline: "middle" });
+  doc.text("25 mm", marginMm + 52.5, testTop + 12.5, { align: "center", baseline: "middle" });
+  doc.text(
+    "Test squares: measure after printing. If they are not exactly 1 inch and 25 mm, turn off \"fit to page\" and print again.",
+    marginMm,
+    testTop + 31
+  );
+}
+
+/**
+ * Dashed lines where the overlap strips start, registration marks at the
+ * corners shared with the neighbouring pages, and the names of those pages
+ */
+function drawOverlapGuides(
+  doc: jsPDF,
+  layout: {
+    left: number;
+    top: number;
+    visibleW: number;
+    visibleH: number;
+    stepX: number;
+    stepY: number;
+    row: number;
+    col: number;
+    rows: number;
+    cols: number;
+    overlapMm: number;
+  }
+): void {
+  const { left, top, visibleW, visibleH, stepX, stepY, row, col, rows, cols, overlapMm } = layout;
+
+  doc.setDrawColor(120, 120, 120);
+  doc.setTextColor(120, 120, 120);
+  doc.setLineWidth(0.2);
+  doc.setFontSize(6);
+  doc.setLineDashPattern([2, 2], 0);
+  if (col < cols - 1) {
+    doc.line(left + stepX, top, left + stepX, top + visibleH);
+    doc.text(`overlaps ${tileLabel(row, col + 1)}`, left + stepX + overlapMm / 2, top + visibleH / 2, {
+      align: "center",
+      angle: 90,
+    });
+  }
+  if (row < rows - 1) {
+    doc.line(left, top + stepY, left + visibleW, top + stepY);
+    doc.text(`overlaps ${tileLabel(row + 1, col)}`, left + visibleW / 2, top + stepY + overlapMm / 2, {
+      align: "center",
+      baseline: "middle",
+    });
+  }
+  doc.setLineDashPattern([], 0);
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.2);
+  const xs = [left, left + stepX].filter((x) => x <= left + visibleW);
+  const ys = [top, top + stepY].filter((y) => y <= top + visibleH);
+  for (const x of xs) {
+    for (const y of ys) {
+      doc.circle(x, y, REGISTRATION_MARK_MM / 2, "S");
+      doc.line(x - REGISTRATION_MARK_MM, y, x + REGISTRATION_MARK_MM, y);
+      doc.line(x, y - REGISTRATION_MARK_MM, x, y + REGISTRATION_MARK_MM);
+    }
+  }
+}
+
+function drawPolygon(
+  doc: jsPDF,
+  points: Point[],
+  fill: [number, number, number] | null,
+  strokeWidth: number
+): void {
+  if (points.length < 3) return;
+  doc.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) doc.lineTo(points[i].x, points[i].y);
+  doc.close();
+
+  if (fill) doc.setFillColor(fill[0], fill[1], fill[2]);
+  if (strokeWidth > 0) {
+    doc.setDrawColor(40, 40, 40);
+    doc.setLineWidth(strokeWidth);
+  }
+  if (fill && strokeWidth > 0) doc.fillStroke();
+  else if (fill) doc.fill();
+  else doc.stroke();
+}
+
+/** Page name: row letters and column number, e.g. "B3", or "AB3" past row Z */
+export function tileLabel(row: number, col: number): string {
+  return `${rowLetters(row)}${col + 1}`;
+}
+
+/** Spreadsheet-style row name: A to Z, then AA, AB, ... */
+export function rowLetters(row: number): string {
+  let letters = "";
+  for (let n = row + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function centroid(points: Point[]): Point {
+  return {
+    x: points.reduce((s, p) => s + p.x, 0) / points.length,
+    y: points.reduce((s, p) => s + p.y, 0) / points.length,
+  };
+}
@@ -0,0 +1,377 @@
+/**
+ * Project library
+ *
+ * Each project keeps its source image, settings, design and SVG in
+ * IndexedDB, so several designs can be kept side by side and images are
+ * not squeezed into the ~5 MB localStorage quota. Only the id of the
+ * project being worked on lives in localStorage.
+ *
+ * Every full generation is kept as a version. `design` and `svg` mirror
+ * the version being worked on; touch-ups are saved into that version
+ * unless it is starred. Live re-renders keep replacing the version the
+ * previous live re-render made, so sliding does not fill the history.
+ */
+
+import type { QuiltDesign } from "./imageProcessing";
+import type { QuiltSettings } from "@/app/DesignCreationPage/FormGroup/FormGroup";
+
+/** One generation of a project's design (seed is `settings.seed`) */
+export type DesignVersion = {
+  id: string;
+  createdAt: number;
+  settings: QuiltSettings;
+  design: QuiltDesign;
+  svg: string;
+  /** Made by a live re-render; the next one replaces it unless it was starred or touched up */
+  live?: boolean;
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  updatedAt: number;
+  /** Source image as a data URL */
+  image: string | null;
+  settings: QuiltSettings | null;
+  design: QuiltDesign | null;
+  svg: string | null;
+  /** Oldest first */
+  versions: DesignVersion[];
+  /** Version shown on the design page, or null after clearing it */
+  currentVersionId: string | null;
+  /** Version the result page uses; the current design when null */
+  starredVersionId: string | null;
+};
+
+type ProjectFields = Partial<Omit<Project, "id" | "createdAt" | "updatedAt">>;
+
+const DB_NAME = "art-quilt";
+const DB_VERSION = 1;
+const PROJECTS_STORE = "projects";
+
+const CURRENT_PROJECT_KEY = "art-quilt-current-project";
+
+/** Oldest unstarred versions are dropped beyond this */
+const MAX_VERSIONS = 30;
+
+/** Single-slot keys used before the project library */
+const LEGACY_IMAGE_KEY = "art-quilt-upload-image";
+const LEGACY_SVG_KEY = "art-quilt-svg";
+const LEGACY_DESIGN_KEY = "art-quilt-design";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: "id" }).createIndex("updatedAt", "updatedAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Could not open the project library"));
+  })
+    .then(async (db) => {
+      await migrateLocalStorage(db);
+      return db;
+    })
+    .catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run `body` in a transaction on the projects store; resolves once the
+ * transaction has committed
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  body: (store: IDBObjectStore) => Promise<T>,
+  db?: IDBDatabase
+): Promise<T> {
+  const tx = (db ?? (await openDb())).transaction(PROJECTS_STORE, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+  const result = await body(tx.objectStore(PROJECTS_STORE));
+  await done;
+  return result;
+}
+
+/**
+ * Move a design saved under the old single-slot keys into a project, then
+ * drop the keys
+ */
+async function migrateLocalStorage(db: IDBDatabase): Promise<void> {
+  const image = localStorage.getItem(LEGACY_IMAGE_KEY);
+  const svg = localStorage.getItem(LEGACY_SVG_KEY);
+  const designJson = localStorage.getItem(LEGACY_DESIGN_KEY);
+  if (!image && !svg && !designJson) return;
+
+  let design: QuiltDesign | null = null;
+  try {
+    design = designJson ? JSON.parse(designJson) : null;
+  } catch {
+    // Unreadable design; keep the image and SVG
+  }
+
+  const project = newProject({ image, design, svg: design ? svg : null });
+  await withStore("readwrite", async (store) => requestResult(store.put(project)), db);
+  localStorage.removeItem(LEGACY_IMAGE_KEY);
+  localStorage.removeItem(LEGACY_SVG_KEY);
+  localStorage.removeItem(LEGACY_DESIGN_KEY);
+  if (!getCurrentProjectId()) setCurrentProjectId(project.id);
+}
+
+function newProject(fields: ProjectFields): Project {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name: `Quilt ${new Date(now).toLocaleString()}`,
+    createdAt: now,
+    updatedAt: now,
+    image: null,
+    settings: null,
+    design: null,
+    svg: null,
+    versions: [],
+    currentVersionId: null,
+    starredVersionId: null,
+    ...fields,
+  };
+}
+
+/** Fill in fields added after a project was first stored */
+function withDefaults(project: Project): Project {
+  return {
+    ...project,
+    versions: project.versions ?? [],
+    currentVersionId: project.currentVersionId ?? null,
+    starredVersionId: project.starredVersionId ?? null,
+  };
+}
+
+// ============================================================================
+// Current project
+// ============================================================================
+
+export function getCurrentProjectId(): string | null {
+  return localStorage.getItem(CURRENT_PROJECT_KEY);
+}
+
+/** Pass null to start the next design as a new project */
+export function setCurrentProjectId(id: string | null): void {
+  if (id) localStorage.setItem(CURRENT_PROJECT_KEY, id);
+  else localStorage.removeItem(CURRENT_PROJECT_KEY);
+}
+
+/**
+ * Leave the current project so the next save creates a new one. A project
+ * without a design is dropped, since there is nothing in it to reopen.
+ */
+export async function startNewProject(): Promise<void> {
+  const current = await getCurrentProject();
+  setCurrentProjectId(null);
+  if (current && !current.design) await deleteProject(current.id);
+}
+
+/**
+ * The project being worked on, or null when there is none (or it was deleted)
+ */
+export async function getCurrentProject(): Promise<Project | null> {
+  await openDb();
+  const id = getCurrentProjectId();
+  return id ? getProject(id) : null;
+}
+
+/**
+ * Update the current project, creating it first when there is none
+ */
+export async function saveCurrentProject(patch: ProjectFields): Promise<Project> {
+  await openDb();
+  const id = getCurrentProjectId();
+  const updated = id ? await updateProject(id, patch) : null;
+  if (updated) return updated;
+
+  const project = await createProject(patch);
+  setCurrentProjectId(project.id);
+  return project;
+}
+
+// ============================================================================
+// Library
+// ============================================================================
+
+/** All projects, most recently changed first */
+export async function listProjects(): Promise<Project[]> {
+  const projects = await withStore("readonly", (store) =>
+    requestResult(store.index("updatedAt").getAll() as IDBRequest<Project[]>)
+  );
+  return projects.reverse().map(withDefaults);
+}
+
+export async function getProject(id: string): Promise<Project | null> {
+  const project = await withStore("readonly", (store) => requestResult(store.get(id) as IDBRequest<Project | undefined>));
+  return project ? withDefaults(project) : null;
+}
+
+export async function createProject(fields: ProjectFields = {}): Promise<Project> {
+  const project = newProject(fields);
+  await withStore("readwrite", (store) => requestResult(store.put(project)));
+  return project;
+}
+
+/**
+ * Apply `patch` to a project; resolves to null when it does not exist
+ */
+export async function updateProject(id: string, patch: ProjectFields): Promise<Project | null> {
+  return modifyProject(id, () => patch);
+}
+
+/**
+ * Read-modify-write a project in one transaction
+ */
+async function modifyProject(id: string, change: (project: Project) => ProjectFields): Promise<Project | null> {
+  return withStore("readwrite", async (store) => {
+    const stored = (await requestResult(store.get(id))) as Project | undefined;
+    if (!stored) return null;
+    const project = withDefaults(stored);
+    const updated: Project = { ...project, ...change(project), updatedAt: Date.now() };
+    await requestResult(store.put(updated));
+    return updated;
+  });
+}
+
+export async function renameProject(id: string, name: string): Promise<Project | null> {
+  return updateProject(id, { name: name.trim() || "Untitled quilt" });
+}
+
+export async function duplicateProject(id: string): Promise<Project | null> {
+  const project = await getProject(id);
+  if (!project) return null;
+  return createProject({
+    name: `${project.name} (copy)`,
+    image: project.image,
+    settings: project.settings,
+    design: project.design,
+    svg: project.svg,
+    versions: project.versions,
+    currentVersionId: project.currentVersionId,
+    starredVersionId: project.starredVersionId,
+  });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore("readwrite", (store) => requestResult(store.delete(id)));
+  if (getCurrentProjectId() === id) setCurrentProjectId(null);
+}
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+/**
+ * Keep a new generation as a version of the current project and make it
+ * the current design
+ */
+export async function addVersion(version: Omit<DesignVersion, "id" | "createdAt">): Promise<Project> {
+  const current = await saveCurrentProject({});
+  const updated = await modifyProject(current.id, (project) => appendVersion(project, version));
+  return updated ?? current;
+}
+
+/**
+ * Save touch-ups to the current design. They go into the current version
+ * unless it is starred, in which case they become a new version so the
+ * starred generation is never overwritten. A touched-up live version is
+ * kept from then on.
+ */
+export async function updateCurrentVersion(fields: Pick<DesignVersion, "design" | "svg">): Promise<Project> {
+  const current = await saveCurrentProject({});
+  const updated = await modifyProject(current.id, (project) => {
+    const version = project.versions.find((v) => v.id === project.currentVersionId);
+    const settings = version?.settings ?? project.settings;
+    if (!version || version.id === project.starredVersionId) {
+      return settings ? appendVersion(project, { ...fields, settings }) : fields;
+    }
+    return {
+      ...fields,
+      versions: project.versions.map((v) => (v.id === version.id ? { ...v, ...fields, live: false } : v)),
+    };
+  });
+  return updated ?? current;
+}
+
+/**
+ * Save a live re-render. It replaces the current version when the previous
+ * live re-render made it and it is not starred; otherwise it becomes a new
+ * version, so generated, starred and touched-up versions are never lost.
+ */
+export async function saveLiveVersion(version: Omit<DesignVersion, "id" | "createdAt" | "live">): Promise<Project> {
+  const current = await saveCurrentProject({});
+  const updated = await modifyProject(current.id, (project) => {
+    const existing = project.versions.find((v) => v.id === project.currentVersionId);
+    if (!existing?.live || existing.id === project.starredVersionId) {
+      return appendVersion(project, { ...version, live: true });
+    }
+    return {
+      ...version,
+      versions: project.versions.map((v) => (v.id === existing.id ? { ...v, ...version } : v)),
+    };
+  });
+  return updated ?? current;
+}
+
+/**
+ * Fields that add `version` to a project as its current design, dropping
+ * the oldest unstarred versions beyond the limit
+ */
+function appendVersion(project: Project, version: Omit<DesignVersion, "id" | "createdAt">): ProjectFields {
+  const added: DesignVersion = { ...version, id: crypto.randomUUID(), createdAt: Date.now() };
+  const versions = [...project.versions, added];
+  while (versions.length > MAX_VERSIONS) {
+    const oldest = versions.findIndex((v) => v.id !== project.starredVersionId);
+    versions.splice(oldest, 1);
+  }
+  return { versions, currentVersionId: added.id, settings: added.settings, design: added.design, svg: added.svg };
+}
+
+/**
+ * Make an earlier version the current design again
+ */
+export async function restoreVersion(projectId: string, versionId: string): Promise<Project | null> {
+  return modifyProject(projectId, (project) => {
+    const version = project.versions.find((v) => v.id === versionId);
+    if (!version) return {};
+    return { currentVersionId: version.id, settings: version.settings, design: version.design, svg: version.svg };
+  });
+}
+
+/** Pass null to unstar; the result page then uses the current design */
+export async function starVersion(projectId: string, versionId: string | null): Promise<Project | null> {
+  return modifyProject(projectId, () => ({ starredVersionId: versionId }));
+}
+
+/**
+ * Design the result page works from: the starred version, else the current one
+ */
+export function resultVersion(project: Project): { design: QuiltDesign; svg: string } | null {
+  const starred = project.versions.find((v) => v.id === project.starredVersionId);
+  if (starred) return starred;
+  return project.design && project.svg ? { design: project.design, svg: project.svg } : null;
+}
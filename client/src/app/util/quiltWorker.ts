@@ -0,0 +1,27 @@
+/**
+ * Web Worker entry for the quilt pipeline
+ *
+ * Receives the image pixels (transferred, not copied) with the processing
+ * options, reports progress stage by stage and posts back the SVG and design.
+ * Cancellation is done by the client terminating the worker.
+ */
+
+import { processImageDataToQuiltSvg } from "./imageProcessing";
+import type { QuiltWorkerRequest, QuiltWorkerResponse } from "./quiltWorkerClient";
+
+const worker = self as unknown as Worker;
+
+const post = (message: QuiltWorkerResponse) => worker.postMessage(message);
+
+worker.onmessage = async (event: MessageEvent<QuiltWorkerRequest>) => {
+  const { width, height, data, options } = event.data;
+  try {
+    const imageData = new ImageData(data, width, height);
+    const result = await processImageDataToQuiltSvg(imageData, options, (progress) =>
+      post({ type: "progress", progress })
+    );
+    post({ type: "result", ...result });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : "Processing failed" });
+  }
+};
@@ -0,0 +1,78 @@
+/**
+ * Runs the quilt pipeline in a Web Worker so the page stays responsive.
+ * Each run gets its own worker, which is terminated when the run finishes
+ * or is aborted.
+ */
+
+import type {
+  ProcessingProgress,
+  QuiltDesign,
+  QuiltProcessingOptions,
+} from "./imageProcessing";
+
+export type QuiltWorkerRequest = {
+  width: number;
+  height: number;
+  data: ImageData["data"];
+  options: QuiltProcessingOptions;
+};
+
+export type QuiltWorkerResponse =
+  | { type: "progress"; progress: ProcessingProgress }
+  | { type: "result"; svg: string; design: QuiltDesign }
+  | { type: "error"; message: string };
+
+/**
+ * Process decoded pixels in a worker. The pixel buffer is transferred, so
+ * `imageData` is unusable afterwards. Rejects with an "AbortError"
+ * DOMException when `signal` fires.
+ */
+export function processImageInWorker(
+  imageData: ImageData,
+  options: QuiltProcessingOptions,
+  { onProgress, signal }: { onProgress?: (progress: ProcessingProgress) => void; signal?: AbortSignal } = {}
+): Promise<{ svg: string; design: QuiltDesign }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Processing cancelled", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("./quiltWorker.ts", import.meta.url));
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException("Processing cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<QuiltWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+      } else if (message.type === "result") {
+        cleanup();
+        resolve({ svg: message.svg, design: message.design });
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "Processing worker failed"));
+    };
+
+    const request: QuiltWorkerRequest = {
+      width: imageData.width,
+      height: imageData.height,
+      data: imageData.data,
+      options,
+    };
+    worker.postMessage(request, [imageData.data.buffer]);
+  });
+}
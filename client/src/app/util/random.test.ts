@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { createRandom, MAX_SEED, randomSeed } from "./random";
+
+const draw = (seed: number, count: number) => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => random());
+};
+
+describe("createRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    expect(draw(42, 100)).toEqual(draw(42, 100));
+  });
+
+  it("gives different sequences for different seeds", () => {
+    expect(draw(1, 10)).not.toEqual(draw(2, 10));
+  });
+
+  it("returns floats in [0, 1)", () => {
+    for (const value of draw(7, 10000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it("spreads values evenly enough to place seeds", () => {
+    const buckets = new Array(10).fill(0);
+    for (const value of draw(123, 10000)) buckets[Math.floor(value * 10)]++;
+    for (const count of buckets) expect(count).toBeGreaterThan(900);
+  });
+
+  it("treats seeds as unsigned 32-bit integers", () => {
+    expect(draw(-1, 5)).toEqual(draw(MAX_SEED, 5));
+    expect(draw(MAX_SEED + 1, 5)).toEqual(draw(0, 5));
+  });
+});
+
+describe("randomSeed", () => {
+  it("returns an integer seed in range", () => {
+    const seed = randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(MAX_SEED);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Seeded pseudo-random numbers
+ *
+ * Every random choice in the processing pipeline draws from one of these
+ * generators, so the same image, settings and seed always give the same quilt.
+ */
+
+/** Returns a float in [0, 1), like Math.random */
+export type Random = () => number;
+
+/** Largest seed; seeds are unsigned 32-bit integers */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Mulberry32: small, fast and good enough for placing seeds and centroids
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh seed for a new, unlocked run
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
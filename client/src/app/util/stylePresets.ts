@@ -0,0 +1,101 @@
+/**
+ * Quilt style presets
+ *
+ * A preset steers image generation toward a recognizable quilt tradition
+ * with a prompt fragment, and suggests the palette size and piece shape the
+ * design step starts from when an image is generated with it.
+ */
+
+import type { ShapeType } from "./imageProcessing";
+
+export type StylePreset = {
+  id: string;
+  name: string;
+  /** One line for the picker */
+  description: string;
+  /** Added to the user's prompt for every provider */
+  prompt: string;
+  /** Suggested number of colors for the design step */
+  colorCount: number;
+  /** Suggested piece shape for the design step */
+  shapeType: ShapeType;
+};
+
+export const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: "modern-improv",
+    name: "Modern Improv",
+    description: "Wonky strips and slabs with lots of negative space",
+    prompt:
+      "modern improv quilt: asymmetric composition of wonky strips and slabs, generous solid negative space, a few saturated accent colors, no traditional blocks",
+    colorCount: 5,
+    shapeType: "rectangle",
+  },
+  {
+    id: "amish-solids",
+    name: "Amish Solids",
+    description: "Deep jewel-tone solids framed by wide borders",
+    prompt:
+      "Amish quilt: deep saturated solid fabrics (plum, teal, cranberry, royal blue) on black, a bold central diamond or bars layout framed by wide plain borders, no prints",
+    colorCount: 5,
+    shapeType: "hst",
+  },
+  {
+    id: "gees-bend",
+    name: "Gee's Bend",
+    description: "Improvised housetop and bricklayer blocks",
+    prompt:
+      "Gee's Bend quilt: improvised housetop and bricklayer patterns, irregular hand-cut strips and blocks, worn denim, corduroy and faded workclothes colors, joyful off-kilter lines",
+    colorCount: 6,
+    shapeType: "rectangle",
+  },
+  {
+    id: "log-cabin",
+    name: "Log Cabin",
+    description: "Strips stacked around a center square",
+    prompt:
+      "log cabin quilt: concentric strips built around small center squares, each block split into a light half and a dark half so the blocks form strong diagonals",
+    colorCount: 6,
+    shapeType: "rectangle",
+  },
+  {
+    id: "landscape",
+    name: "Landscape Art Quilt",
+    description: "Layered bands of sky, hills and water",
+    prompt:
+      "landscape art quilt: layered horizontal bands of sky, hills, fields and water, organic raw-edge appliqued shapes, color shifting in distinct fabric steps instead of smooth gradients",
+    colorCount: 8,
+    shapeType: "voronoi",
+  },
+  {
+    id: "bauhaus",
+    name: "Bauhaus Geometric",
+    description: "Primary-color circles, triangles and squares",
+    prompt:
+      "Bauhaus geometric quilt: circles, triangles and squares on a strict grid, primary red, yellow and blue with black and white, perfectly flat color",
+    colorCount: 5,
+    shapeType: "triangle",
+  },
+  {
+    id: "kids-applique",
+    name: "Kids' Applique",
+    description: "Big friendly shapes in cheerful colors",
+    prompt:
+      "children's applique quilt: big friendly animals and objects with simple rounded silhouettes, cheerful bright colors, placed on a plain light background",
+    colorCount: 7,
+    shapeType: "pixel",
+  },
+];
+
+export function getStylePreset(id: string): StylePreset | undefined {
+  return STYLE_PRESETS.find((preset) => preset.id === id);
+}
+
+/**
+ * The user's prompt with the preset's style fragment appended (refining
+ * may come without a prompt)
+ */
+export function applyStylePreset(prompt: string, preset: StylePreset | undefined): string {
+  if (!preset) return prompt;
+  return prompt ? `${prompt}\n\nQuilt style: ${preset.prompt}` : `Quilt style: ${preset.prompt}`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Service for the "AI vectorize" style
+ * Uses the /api/image-to-svg endpoint, which has Gemini trace the image as
+ * a pixel grid and turns the checked result into a QuiltDesign
+ */
+
+import type { QuiltDesign, QuiltProcessingOptions } from "./imageProcessing";
+
+/** Processing options the endpoint accepts; the catalog is sent by id */
+export type VectorizeOptions = Pick<
+  QuiltProcessingOptions,
+  "gridWidth" | "numColors" | "colorSpace" | "seed" | "cellSizeMm" | "seamAllowanceMm" | "minPieceAreaMm2" | "lockedColors"
+> & {
+  fabricCatalogId?: string | null;
+};
+
+export type VectorizeImageResult = {
+  success: boolean;
+  svg?: string;
+  design?: QuiltDesign;
+  error?: string;
+};
+
+export const vectorizeImageService = async (
+  imageDataUrl: string,
+  options: VectorizeOptions,
+  signal?: AbortSignal
+): Promise<VectorizeImageResult> => {
+  try {
+    const response = await fetch("/api/image-to-svg", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ image: imageDataUrl, ...options }),
+      signal,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      return {
+        success: false,
+        error: data.error || "Failed to vectorize image",
+      };
+    }
+
+    return {
+      success: true,
+      svg: data.svg,
+      design: data.design,
+    };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") throw error;
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Network error",
+    };
+  }
+};
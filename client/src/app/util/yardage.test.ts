@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { calculateYardage, formatLength, PURCHASE_UNITS, usableWidthMm } from "./yardage";
+
+const EIGHTH_YARD_MM = PURCHASE_UNITS.yard.incrementMm;
+
+describe("usableWidthMm", () => {
+  it("trims both selvages and shrinkage from the bolt width", () => {
+    expect(usableWidthMm()).toBeCloseTo((42 * 25.4 - 24) * 0.97);
+    expect(usableWidthMm({ widthOfFabricIn: 108, selvageMm: 0, shrinkagePercent: 0 })).toBeCloseTo(108 * 25.4);
+  });
+});
+
+describe("calculateYardage", () => {
+  it("cuts as many pieces from a strip as fit across the usable width", () => {
+    const [navy] = calculateYardage({ "#000080": [{ label: "A", widthMm: 100, lengthMm: 100, count: 25 }] });
+
+    // 10 pieces per ~1011 mm strip
+    expect(navy.strips).toEqual([
+      { stripWidthMm: 100, stripCount: 3, cuts: [{ label: "A", lengthMm: 100, count: 25 }], oversize: false },
+    ]);
+    expect(navy.pieces).toBe(25);
+    expect(navy.requiredMm).toBeCloseTo(300 / 0.97 + 25);
+  });
+
+  it("sub-cuts narrower pieces from leftover length of a wider strip", () => {
+    const [red] = calculateYardage({
+      red: [
+        { label: "wide", widthMm: 100, lengthMm: 100, count: 5 },
+        { label: "narrow", widthMm: 50, lengthMm: 100, count: 3 },
+      ],
+    });
+
+    expect(red.strips).toHaveLength(1);
+    expect(red.strips[0].stripCount).toBe(1);
+    expect(red.strips[0].cuts).toEqual([
+      { label: "wide", lengthMm: 100, count: 5 },
+      { label: "narrow", lengthMm: 100, count: 3 },
+    ]);
+  });
+
+  it("turns pieces longer than the width of fabric to run along the grain", () => {
+    const [border] = calculateYardage({ white: [{ label: "border", widthMm: 60, lengthMm: 1500, count: 2 }] });
+
+    expect(border.strips[0].stripWidthMm).toBe(1500);
+    expect(border.strips[0].oversize).toBe(false);
+    expect(border.strips[0].cuts).toEqual([{ label: "border", lengthMm: 60, count: 2 }]);
+  });
+
+  it("flags pieces too big for the fabric either way as oversize", () => {
+    const [backing] = calculateYardage({ gray: [{ label: "panel", widthMm: 1500, lengthMm: 1500, count: 2 }] });
+
+    expect(backing.strips).toEqual([
+      { stripWidthMm: 1500, stripCount: 2, cuts: [{ label: "panel", lengthMm: 1500, count: 2 }], oversize: true },
+    ]);
+  });
+
+  it("rounds each purchase up to the shop increment, largest first", () => {
+    const result = calculateYardage(
+      {
+        small: [{ label: "A", widthMm: 50, lengthMm: 50, count: 1 }],
+        large: [{ label: "B", widthMm: 200, lengthMm: 200, count: 12 }],
+      },
+      { purchaseUnit: "yard" }
+    );
+
+    expect(result.map((c) => c.color)).toEqual(["large", "small"]);
+    for (const color of result) {
+      expect(color.purchaseMm).toBeGreaterThanOrEqual(color.requiredMm);
+      expect(color.purchaseMm - color.requiredMm).toBeLessThan(EIGHTH_YARD_MM);
+      expect(Math.round(color.purchaseMm / EIGHTH_YARD_MM) * EIGHTH_YARD_MM).toBeCloseTo(color.purchaseMm);
+    }
+  });
+
+  it("skips cuts with no pieces", () => {
+    const [empty] = calculateYardage({ blue: [{ label: "A", widthMm: 50, lengthMm: 50, count: 0 }] });
+
+    expect(empty.strips).toEqual([]);
+    expect(empty.pieces).toBe(0);
+  });
+});
+
+describe("formatLength", () => {
+  it("writes yards as reduced eighths", () => {
+    expect(formatLength(EIGHTH_YARD_MM * 2, "yard")).toBe("1/4 yd");
+    expect(formatLength(EIGHTH_YARD_MM * 8, "yard")).toBe("1 yd");
+    expect(formatLength(EIGHTH_YARD_MM * 11, "yard")).toBe("1 3/8 yd");
+    expect(formatLength(0, "yard")).toBe("0 yd");
+  });
+
+  it("writes metres to one decimal", () => {
+    expect(formatLength(1300, "metre")).toBe("1.3 m");
+  });
+});
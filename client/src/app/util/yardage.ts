@@ -0,0 +1,216 @@
+/**
+ * Fabric yardage engine
+ *
+ * Plans how each color is rotary cut: pieces are grouped into strips cut
+ * across the width of fabric, then sub-cut along the strip. The total strip
+ * width per color, adjusted for shrinkage, is rounded up to what a shop
+ * actually sells (1/8 yard or 10 cm).
+ */
+
+/** Common bolt widths in inches: quilting cotton and wide backing */
+export const FABRIC_WIDTHS_IN = [42, 44, 108] as const;
+export type FabricWidthIn = (typeof FABRIC_WIDTHS_IN)[number];
+
+export type PurchaseUnit = "yard" | "metre";
+
+export const PURCHASE_UNITS: Record<PurchaseUnit, { label: string; incrementMm: number }> = {
+  yard: { label: "Yards", incrementMm: 914.4 / 8 },
+  metre: { label: "Metres", incrementMm: 100 },
+};
+
+export type YardageOptions = {
+  widthOfFabricIn?: FabricWidthIn;
+  purchaseUnit?: PurchaseUnit;
+  /** Selvage trimmed from each side of the bolt, in mm */
+  selvageMm?: number;
+  /** Expected shrinkage when prewashing, in percent of length and width */
+  shrinkagePercent?: number;
+};
+
+export const DEFAULT_YARDAGE_OPTIONS: Required<YardageOptions> = {
+  widthOfFabricIn: 42,
+  purchaseUnit: "yard",
+  selvageMm: 12,
+  shrinkagePercent: 3,
+};
+
+/** Length lost straightening the cut edge before the first strip, in mm */
+const SQUARE_UP_MM = 25;
+
+/**
+ * Pieces of one size to cut from one color. A piece needs a strip
+ * `widthMm` wide and uses `lengthMm` of the strip's length.
+ */
+export type CutPiece = {
+  label: string;
+  widthMm: number;
+  lengthMm: number;
+  count: number;
+  /** Extra strip length used once per strip, e.g. the half triangle lost when nesting triangles */
+  stripEndMm?: number;
+};
+
+export type StripPlan = {
+  stripWidthMm: number;
+  stripCount: number;
+  /** Sub-cuts from these strips, longest first */
+  cuts: { label: string; lengthMm: number; count: number }[];
+  /** Pieces are wider than the usable width of fabric in both directions */
+  oversize: boolean;
+};
+
+export type ColorYardage = {
+  color: string;
+  pieces: number;
+  strips: StripPlan[];
+  /** Fabric length the strips need, before rounding */
+  requiredMm: number;
+  /** Length to buy, rounded up to the purchase increment */
+  purchaseMm: number;
+  purchaseLabel: string;
+};
+
+/**
+ * Usable width of fabric in mm after trimming selvages and prewashing
+ */
+export function usableWidthMm(options: YardageOptions = {}): number {
+  const { widthOfFabricIn, selvageMm, shrinkagePercent } = { ...DEFAULT_YARDAGE_OPTIONS, ...options };
+  return (widthOfFabricIn * 25.4 - selvageMm * 2) * (1 - shrinkagePercent / 100);
+}
+
+/**
+ * Plan strips and purchase lengths for every color, largest purchase first
+ */
+export function calculateYardage(
+  cutsByColor: Record<string, CutPiece[]>,
+  options: YardageOptions = {}
+): ColorYardage[] {
+  const resolved = { ...DEFAULT_YARDAGE_OPTIONS, ...options };
+  const usableMm = usableWidthMm(resolved);
+  const shrink = 1 - resolved.shrinkagePercent / 100;
+
+  return Object.entries(cutsByColor)
+    .map(([color, cuts]) => {
+      const strips = planStrips(cuts, usableMm);
+      const stripLengthMm = strips.reduce((sum, s) => sum + s.stripWidthMm * s.stripCount, 0);
+      const requiredMm = stripLengthMm / shrink + SQUARE_UP_MM;
+      const purchaseMm = roundUpToIncrement(requiredMm, resolved.purchaseUnit);
+      return {
+        color,
+        pieces: cuts.reduce((sum, c) => sum + c.count, 0),
+        strips,
+        requiredMm,
+        purchaseMm,
+        purchaseLabel: formatLength(purchaseMm, resolved.purchaseUnit),
+      };
+    })
+    .sort((a, b) => b.purchaseMm - a.purchaseMm);
+}
+
+/**
+ * Format a fabric length the way it is sold, e.g. "1 3/8 yd" or "1.3 m"
+ */
+export function formatLength(lengthMm: number, unit: PurchaseUnit): string {
+  const steps = Math.round(lengthMm / PURCHASE_UNITS[unit].incrementMm);
+  if (unit === "metre") return `${(steps / 10).toFixed(1)} m`;
+
+  const whole = Math.floor(steps / 8);
+  let numerator = steps % 8;
+  let denominator = 8;
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+  const fraction = numerator > 0 ? `${numerator}/${denominator}` : "";
+  if (whole === 0) return `${fraction || "0"} yd`;
+  return `${whole}${fraction ? ` ${fraction}` : ""} yd`;
+}
+
+function roundUpToIncrement(lengthMm: number, unit: PurchaseUnit): number {
+  const increment = PURCHASE_UNITS[unit].incrementMm;
+  // Tolerate float noise so an exact 1/8 yd does not round up a step
+  return Math.ceil(lengthMm / increment - 1e-6) * increment;
+}
+
+/**
+ * Pack pieces into strips, widest first. A piece goes into the narrowest
+ * open strip that is wide enough and has length left (trimming it down),
+ * otherwise it opens a new strip of its own width. Pieces too long for
+ * the width of fabric are turned so they run along the grain instead.
+ */
+function planStrips(cuts: CutPiece[], usableMm: number): StripPlan[] {
+  const pieces: CutPiece[] = [];
+  const oversized: CutPiece[] = [];
+
+  for (const cut of cuts) {
+    if (cut.count <= 0) continue;
+    let piece = cut;
+    if (piece.lengthMm + (piece.stripEndMm ?? 0) > usableMm && piece.widthMm <= usableMm) {
+      piece = { ...piece, widthMm: cut.lengthMm, lengthMm: cut.widthMm, stripEndMm: 0 };
+    }
+    (piece.lengthMm > usableMm ? oversized : pieces).push(piece);
+  }
+  pieces.sort((a, b) => b.widthMm - a.widthMm || b.lengthMm - a.lengthMm);
+
+  type Strip = { widthMm: number; remainingMm: number; cuts: CutPiece[] };
+  const strips: Strip[] = [];
+
+  for (const piece of pieces) {
+    let left = piece.count;
+    const take = (strip: Strip, count: number) => {
+      strip.remainingMm -= count * piece.lengthMm;
+      strip.cuts.push({ ...piece, count });
+      left -= count;
+    };
+
+    // Strips are opened widest first, so the last fitting one is the narrowest
+    for (let i = strips.length - 1; i >= 0 && left > 0; i--) {
+      if (strips[i].widthMm < piece.widthMm) continue;
+      const fits = Math.min(left, Math.floor(strips[i].remainingMm / piece.lengthMm + 1e-9));
+      if (fits > 0) take(strips[i], fits);
+    }
+
+    const capacity = usableMm - (piece.stripEndMm ?? 0);
+    const perStrip = Math.max(1, Math.floor(capacity / piece.lengthMm + 1e-9));
+    while (left > 0) {
+      const strip: Strip = { widthMm: piece.widthMm, remainingMm: capacity, cuts: [] };
+      strips.push(strip);
+      take(strip, Math.min(left, perStrip));
+    }
+  }
+
+  const plans = new Map<string, { stripWidthMm: number; stripCount: number; cuts: CutPiece[]; oversize: boolean }>();
+  for (const strip of strips) {
+    const key = strip.widthMm.toFixed(1);
+    const plan = plans.get(key) ?? { stripWidthMm: strip.widthMm, stripCount: 0, cuts: [], oversize: false };
+    plan.stripCount++;
+    plan.cuts.push(...strip.cuts);
+    plans.set(key, plan);
+  }
+  // Each oversize piece is cut on its own; it needs piecing or wide backing
+  for (const piece of oversized) {
+    const key = `${piece.widthMm.toFixed(1)}|oversize`;
+    const plan = plans.get(key) ?? { stripWidthMm: piece.widthMm, stripCount: 0, cuts: [], oversize: true };
+    plan.stripCount += piece.count;
+    plan.cuts.push(piece);
+    plans.set(key, plan);
+  }
+
+  return [...plans.values()]
+    .map(({ cuts, ...plan }) => ({ ...plan, cuts: mergeCuts(cuts) }))
+    .sort((a, b) => b.stripWidthMm - a.stripWidthMm);
+}
+
+/**
+ * Combine sub-cuts of the same label and length, longest first
+ */
+function mergeCuts(cuts: CutPiece[]): StripPlan["cuts"] {
+  const merged = new Map<string, { label: string; lengthMm: number; count: number }>();
+  for (const cut of cuts) {
+    const key = `${cut.label}|${cut.lengthMm.toFixed(1)}`;
+    const entry = merged.get(key) ?? { label: cut.label, lengthMm: cut.lengthMm, count: 0 };
+    entry.count += cut.count;
+    merged.set(key, entry);
+  }
+  return [...merged.values()].sort((a, b) => b.lengthMm - a.lengthMm);
+}